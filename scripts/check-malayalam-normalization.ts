@@ -0,0 +1,73 @@
+/**
+ * Check Malayalam normalisation and Manglish matching against a corpus of catalogue titles
+ *
+ * Usage:
+ *   npm run check:malayalam
+ *
+ * Every encoding variant of a title must normalise to the title itself, and the
+ * title must be found by the full-text index from each variant and from its
+ * Manglish spelling. Exits non-zero if any check fails.
+ */
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { normalizeMalayalam } from "@/lib/malayalam";
+import { FullTextIndex } from "@/server/full-text-index";
+
+type CorpusEntry = {
+  title: string;
+  // The same title as stored by older input methods or traditional orthography
+  variants: string[];
+  manglish: string;
+};
+
+const CORPUS_PATH = path.resolve(process.cwd(), "scripts/fixtures/malayalam-titles.json");
+
+function describe(text: string): string {
+  return Array.from(text, (char) => char.codePointAt(0)!.toString(16).padStart(4, "0")).join(" ");
+}
+
+async function main() {
+  const corpus = JSON.parse(await readFile(CORPUS_PATH, "utf8")) as CorpusEntry[];
+  const index = new FullTextIndex(
+    corpus.map((entry, position) => ({ id: String(position), fields: { title: entry.title } }))
+  );
+  const failures: string[] = [];
+
+  corpus.forEach((entry, position) => {
+    const id = String(position);
+
+    if (normalizeMalayalam(entry.title) !== entry.title) {
+      failures.push(`"${entry.title}" is not in normal form: ${describe(normalizeMalayalam(entry.title))}`);
+    }
+
+    for (const variant of entry.variants) {
+      const normalized = normalizeMalayalam(variant);
+      if (normalized !== entry.title) {
+        failures.push(`"${entry.title}" variant ${describe(variant)} normalised to ${describe(normalized)}`);
+      }
+      if (index.search(variant).matches[0]?.id !== id) {
+        failures.push(`"${entry.title}" not found by variant ${describe(variant)}`);
+      }
+    }
+
+    if (index.search(entry.manglish).matches[0]?.id !== id) {
+      failures.push(`"${entry.title}" not found by Manglish "${entry.manglish}"`);
+    }
+  });
+
+  const variantCount = corpus.reduce((total, entry) => total + entry.variants.length, 0);
+  console.log(`Checked ${corpus.length} titles and ${variantCount} encoding variants`);
+
+  if (failures.length > 0) {
+    for (const failure of failures) {
+      console.error(`  ${failure}`);
+    }
+    console.error(`${failures.length} failures`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Malayalam normalisation check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,165 @@
+/**
+ * Check the OAI-PMH parser and harvester against recorded repository responses
+ *
+ * Usage:
+ *   npm run check:oai
+ *
+ * Parses each fixture in scripts/fixtures/oai-pmh, then serves them from a local
+ * stand-in repository and harvests it with the oai-pmh adapter, following
+ * resumption tokens and dropping deleted records. Exits non-zero if any check fails.
+ */
+import { readFile } from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { OAIPMHAdapter } from "@/server/adapters/OAIPMHAdapter";
+import { decodeXmlText, parseListRecords, parseListSets } from "@/server/adapters/oai-pmh";
+
+const FIXTURE_DIR = path.resolve(process.cwd(), "scripts/fixtures/oai-pmh");
+
+const failures: string[] = [];
+
+function expectEqual(label: string, actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function readFixture(name: string): Promise<string> {
+  return readFile(path.join(FIXTURE_DIR, name), "utf8");
+}
+
+function checkDecoding() {
+  expectEqual("entities", decodeXmlText("Rare &amp; Periodicals &lt;1900&gt;"), "Rare & Periodicals <1900>");
+  expectEqual("character references", decodeXmlText("&#x0D28;&#3390;"), "നാ");
+  expectEqual("decoded once", decodeXmlText("&amp;lt; &#38;amp;"), "&lt; &amp;");
+  expectEqual("CDATA is literal", decodeXmlText("<![CDATA[a &amp;lt; b]]>"), "a &amp;lt; b");
+  expectEqual(
+    "CDATA beside text",
+    decodeXmlText("x &amp; <![CDATA[<i>&amp;</i>]]> y"),
+    "x & <i>&amp;</i> y"
+  );
+}
+
+async function checkParser() {
+  const first = parseListRecords(await readFixture("list-records-1.xml"));
+  expectEqual("page 1 resumption token", first.resumptionToken, "page-2");
+  expectEqual(
+    "page 1 identifiers",
+    first.entries.map((record) => record.identifier),
+    ["oai:repository.example.org:1", "oai:repository.example.org:2", "oai:repository.example.org:3"]
+  );
+
+  const [book, periodical, map] = first.entries;
+  expectEqual("set specs", book.setSpecs, ["books"]);
+  expectEqual("prefixed elements", book.dc.title, ["ചെമ്മീൻ"]);
+  expectEqual("repeated elements", book.dc.identifier?.length, 3);
+  expectEqual("escaped ampersand", book.dc.publisher, [
+    "Sahitya Pravarthaka Co-operative Society & National Book Stall",
+  ]);
+  expectEqual("CDATA title", periodical.dc.title, ["Kerala Patrika & Review ലക്കം 3"]);
+  expectEqual("descriptions", periodical.dc.description, [
+    "Escaped markup: <b> and നാ",
+    "Literal text &amp;lt; stays as written",
+  ]);
+  expectEqual("default namespace elements", map.dc.title, ["Map of Travancore"]);
+  expectEqual("record without sets", map.setSpecs, []);
+
+  const last = parseListRecords(await readFixture("list-records-2.xml"));
+  expectEqual("empty resumption token ends the list", last.resumptionToken, null);
+  expectEqual("deleted record", last.entries.map((record) => record.deleted), [true, false]);
+  expectEqual("element with attributes", last.entries[1].dc.title, ["ഇന്ദുലേഖ"]);
+
+  const sets = parseListSets(await readFixture("list-sets.xml"));
+  expectEqual("set names", sets.entries, [
+    { setSpec: "books", setName: "Rare Books" },
+    { setSpec: "periodicals", setName: "Periodicals & Newspapers" },
+  ]);
+
+  expectEqual(
+    "noRecordsMatch is an empty list",
+    parseListRecords(await readFixture("no-records-match.xml")),
+    { entries: [], resumptionToken: null }
+  );
+
+  try {
+    parseListRecords(await readFixture("bad-resumption-token.xml"));
+    failures.push("badResumptionToken: expected an error");
+  } catch (error) {
+    expectEqual(
+      "badResumptionToken",
+      error instanceof Error && error.message.startsWith("OAI-PMH error badResumptionToken"),
+      true
+    );
+  }
+}
+
+/**
+ * Serve the fixtures as a repository: ListSets, then ListRecords in two pages
+ */
+async function startStandIn(): Promise<{ url: string; close: () => void }> {
+  const responses: Record<string, string> = {
+    ListSets: await readFixture("list-sets.xml"),
+    ListRecords: await readFixture("list-records-1.xml"),
+    "ListRecords:page-2": await readFixture("list-records-2.xml"),
+  };
+
+  const server = http.createServer((req, res) => {
+    const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+    const token = params.get("resumptionToken");
+    const body = responses[token ? `${params.get("verb")}:${token}` : params.get("verb") ?? ""];
+    res.writeHead(200, { "Content-Type": "text/xml; charset=utf-8" });
+    res.end(body ?? "<OAI-PMH><error code=\"badVerb\">Unknown request</error></OAI-PMH>");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/oai`, close: () => server.close() };
+}
+
+async function checkHarvest() {
+  const standIn = await startStandIn();
+
+  try {
+    const adapter = new OAIPMHAdapter(standIn.url);
+    const items = await adapter.getFullItemIndex();
+    expectEqual(
+      "harvested titles",
+      items.map((item) => item.title).sort(),
+      ["Map of Travancore", "ഇന്ദുലേഖ", "ചെമ്മീൻ"].sort()
+    );
+
+    const book = items.find((item) => item.title === "ചെമ്മീൻ");
+    const detail = book ? await adapter.getItem(book.id) : null;
+    expectEqual("collection from set name", detail?.collection, "Rare Books");
+    expectEqual("language", detail?.language, "ml");
+    expectEqual(
+      "document source",
+      detail?.documentSource && [detail.documentSource.type, detail.documentSource.url],
+      ["pdf", "https://repository.example.org/files/1.pdf"]
+    );
+  } finally {
+    standIn.close();
+  }
+}
+
+async function main() {
+  checkDecoding();
+  await checkParser();
+  await checkHarvest();
+
+  if (failures.length > 0) {
+    for (const failure of failures) {
+      console.error(`  ${failure}`);
+    }
+    console.error(`${failures.length} failures`);
+    process.exit(1);
+  }
+
+  console.log("OAI-PMH parser and harvest checks passed");
+}
+
+main().catch((error) => {
+  console.error("OAI-PMH check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,305 @@
+/**
+ * Check that type, language and year filters are sent to Omeka for a mixed catalogue
+ *
+ * Usage:
+ *   npm run check:omeka-query
+ *
+ * Builds filter queries for a catalogue whose types come from resource classes,
+ * dcterms:type and fallbacks, whose languages are catalogued, prefixed or only
+ * detected from the script, and whose dates are free text in CE, Malayalam Era and
+ * Saka years, ranges, decades and centuries. Then serves scripts/fixtures/omeka/items.json from a
+ * local stand-in that applies the query as Omeka does, and checks that the adapter's
+ * results match its own item index. Exits non-zero if any check fails.
+ */
+import { readFile } from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import type { ArchiveItem, SearchFilters } from "@/lib/types";
+import { OmekaAdapter } from "@/server/adapters/OmekaAdapter";
+import { getItemYearSpan } from "@/server/adapters/adapter-utils";
+import {
+  buildOmekaFilterQuery,
+  getNumberPrefixes,
+  type OmekaFilterContext,
+} from "@/server/adapters/omeka-query";
+
+type OmekaValue = { "@value"?: string };
+type OmekaItem = Record<string, unknown> & { "o:id": number };
+
+const ITEMS_PATH = path.resolve(process.cwd(), "scripts/fixtures/omeka/items.json");
+
+const failures: string[] = [];
+
+function expectEqual(label: string, actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+// The fixture catalogue as the item index sees it: books from bibo:Book (40) and from
+// the dctype:Text fallback (31), periodicals from dcterms:type on dctype:Text, and a map
+// typed from dcterms:type on an item with no class; dates spanning several years include
+// ranges and a decade that begin before the 1920s
+const CONTEXT: OmekaFilterContext = {
+  resourceClassTypes: { 26: "image", 40: "book", 70: "map" },
+  classlessTypes: new Map<string, number[] | null>([
+    ["book", [31]],
+    ["periodical", [31]],
+    ["map", null],
+  ]),
+  inferredLanguages: new Set(["ml", "en"]),
+  itemSetIds: new Map(),
+  languageProperty: "dcterms:language",
+  subjectProperty: "dcterms:subject",
+  publisherProperty: "dcterms:publisher",
+  dateProperties: ["dcterms:issued", "dcterms:date"],
+  yearSpans: [
+    [1918, 1925],
+    [1905, 1950],
+    [1920, 1929],
+    [1900, 1999],
+    [1924, 1925],
+  ],
+  nameSpellings: null,
+};
+
+function checkQueries() {
+  const language = buildOmekaFilterQuery({ languages: ["ml"] }, CONTEXT);
+  expectEqual("language filter is sent", language.complete, true);
+  expectEqual("language total is estimated", language.exact, false);
+  expectEqual(
+    "language rows",
+    language.params.filter(([key]) => key.endsWith("[type]")).map(([, type]) => type),
+    ["eq", "eq", "eq", "sw", "nex"]
+  );
+
+  const catalogued = buildOmekaFilterQuery(
+    { languages: ["ta"] },
+    { ...CONTEXT, inferredLanguages: new Set(["ml"]) }
+  );
+  expectEqual(
+    "catalogued-only language is exact",
+    [catalogued.complete, catalogued.exact],
+    [true, true]
+  );
+
+  const type = buildOmekaFilterQuery({ types: ["book"] }, CONTEXT);
+  expectEqual("type filter is sent", type.complete, true);
+  expectEqual(
+    "type classes",
+    type.params.filter(([key]) => key === "resource_class_id[]").map(([, id]) => id),
+    ["40", "31"]
+  );
+
+  const classOnly = buildOmekaFilterQuery({ types: ["image"] }, CONTEXT);
+  expectEqual("class-only type is exact", [classOnly.complete, classOnly.exact], [true, true]);
+
+  const classless = buildOmekaFilterQuery({ types: ["map"] }, CONTEXT);
+  expectEqual("type with classless items stays client-side", classless.complete, false);
+
+  const unknown = buildOmekaFilterQuery({ types: ["book"], languages: ["ml"] }, {
+    ...CONTEXT,
+    classlessTypes: null,
+    inferredLanguages: null,
+  });
+  expectEqual(
+    "languages are sent before the index loads",
+    unknown.params.some(([key]) => key.startsWith("property")),
+    true
+  );
+  expectEqual("types wait for the index", unknown.complete, false);
+
+  expectEqual(
+    "year prefixes",
+    getNumberPrefixes(1900, 1947),
+    ["190", "191", "192", "193", ...Array.from({ length: 8 }, (_, i) => String(1940 + i))]
+  );
+  expectEqual("decade prefixes", getNumberPrefixes(1900, 1947, 1), ["190", "191", "192", "193", "194"]);
+  expectEqual(
+    "prefixes across digit counts",
+    getNumberPrefixes(975, 1026),
+    ["975", "976", "977", "978", "979", "98", "99", "100", "101", ...getNumberPrefixes(1020, 1026)]
+  );
+
+  const years = buildOmekaFilterQuery({ yearMin: 1925, yearMax: 1929 }, CONTEXT);
+  expectEqual("year filter is sent", [years.complete, years.exact], [true, false]);
+  const texts = years.params.filter(([key]) => key.endsWith("[text]")).map(([, text]) => text);
+  for (const [date, inRange] of [
+    ["c. 1927", true],
+    ["കൊല്ലവർഷം 1100", true],
+    ["Saka 1846", true],
+    ["൧൯൨൬", true],
+    ["1918-25", true],
+    ["1905 to 1950", true],
+    ["1920s", true],
+    ["20-ാം നൂറ്റാണ്ട്", true],
+    ["1889", false],
+  ] as const) {
+    expectEqual(`year query matches ${date}`, texts.some((text) => date.includes(text)), inRange);
+  }
+
+  const yearsUnknown = buildOmekaFilterQuery(
+    { yearMin: 1925, yearMax: 1929 },
+    { ...CONTEXT, yearSpans: null }
+  );
+  expectEqual(
+    "years are sent before the index loads",
+    yearsUnknown.params.some(([key]) => key.startsWith("property")),
+    true
+  );
+  expectEqual("earlier spans wait for the index", yearsUnknown.complete, false);
+}
+
+function getValues(item: OmekaItem, property: string): string[] {
+  const values = item[property];
+  return Array.isArray(values)
+    ? (values as OmekaValue[]).flatMap((value) => (value["@value"] ? [value["@value"]] : []))
+    : [];
+}
+
+/**
+ * Whether an item matches the property[] rows, AND binding tighter than OR as in Omeka
+ */
+function matchesProperties(item: OmekaItem, params: URLSearchParams): boolean {
+  const rows: Array<Record<string, string>> = [];
+  for (const [key, value] of params) {
+    const match = key.match(/^property\[(\d+)\]\[(\w+)\]$/);
+    if (match) (rows[Number(match[1])] ??= {})[match[2]] = value;
+  }
+  if (rows.length === 0) return true;
+
+  const terms: Array<Array<Record<string, string>>> = [];
+  for (const row of rows) {
+    if (terms.length === 0 || row.joiner === "or") terms.push([]);
+    terms[terms.length - 1].push(row);
+  }
+
+  return terms.some((term) =>
+    term.every(({ property, type, text = "" }) => {
+      const values = getValues(item, property).map((value) => value.toLowerCase());
+      if (type === "nex") return values.length === 0;
+      if (type === "in") return values.some((value) => value.includes(text.toLowerCase()));
+      if (type === "sw") return values.some((value) => value.startsWith(text.toLowerCase()));
+      return values.includes(text.toLowerCase());
+    })
+  );
+}
+
+/**
+ * Serve the fixture items, applying class and property filters and newest-first paging
+ */
+async function startStandIn(items: OmekaItem[]): Promise<{
+  url: string;
+  requests: URLSearchParams[];
+  close: () => void;
+}> {
+  const requests: URLSearchParams[] = [];
+
+  const server = http.createServer((req, res) => {
+    const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+    requests.push(params);
+
+    const classIds = params.getAll("resource_class_id[]").map(Number);
+    const matches = items
+      .filter((item) => {
+        const classId = (item["o:resource_class"] as { "o:id": number } | null)?.["o:id"];
+        return classIds.length === 0 || (classId !== undefined && classIds.includes(classId));
+      })
+      .filter((item) => matchesProperties(item, params))
+      .sort((a, b) =>
+        params.get("sort_order") === "asc" ? a["o:id"] - b["o:id"] : b["o:id"] - a["o:id"]
+      );
+
+    const perPage = Number(params.get("per_page") || 25);
+    const page = Number(params.get("page") || 1);
+    res.writeHead(200, {
+      "Content-Type": "application/json",
+      "Omeka-S-Total-Results": String(matches.length),
+    });
+    res.end(JSON.stringify(matches.slice((page - 1) * perPage, page * perPage)));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, requests, close: () => server.close() };
+}
+
+function ids(items: ArchiveItem[]): string[] {
+  return items.map((item) => item.id).sort((a, b) => Number(a) - Number(b));
+}
+
+async function checkSearch() {
+  const items = JSON.parse(await readFile(ITEMS_PATH, "utf8")) as OmekaItem[];
+  const standIn = await startStandIn(items);
+
+  try {
+    const adapter = new OmekaAdapter({
+      OMEKA_BASE_URL: standIn.url,
+      OMEKA_INDEX_PATH: "",
+      OMEKA_THUMBNAIL_PATH: "",
+    });
+    const index = await adapter.getFullItemIndex();
+
+    const cases: Array<[string, SearchFilters, (item: ArchiveItem) => boolean]> = [
+      ["Malayalam", { languages: ["ml"] }, (item) => item.language === "ml"],
+      ["books", { types: ["book"] }, (item) => item.type === "book"],
+      [
+        "English books",
+        { types: ["book"], languages: ["en"] },
+        (item) => item.type === "book" && item.language === "en",
+      ],
+      ["maps", { types: ["map"] }, (item) => item.type === "map"],
+      [
+        "1925-1929",
+        { yearMin: 1925, yearMax: 1929 },
+        (item) => {
+          const span = getItemYearSpan(item);
+          return span !== null && span.start <= 1929 && span.end >= 1925;
+        },
+      ],
+    ];
+
+    for (const [label, filters, matches] of cases) {
+      const expected = ids(index.filter(matches));
+      if (expected.length === 0) {
+        failures.push(`${label}: the fixture has no matching items`);
+        continue;
+      }
+
+      standIn.requests.length = 0;
+      const result = await adapter.search({ filters, scanFilters: true, pageSize: 40 });
+      expectEqual(`${label} results`, ids(result.items), expected);
+      expectEqual(`${label} total`, result.total, expected.length);
+
+      const sent = standIn.requests.some(
+        (params) =>
+          params.has("resource_class_id[]") ||
+          Array.from(params.keys()).some((key) => key.startsWith("property"))
+      );
+      expectEqual(`${label} filters sent to Omeka`, sent, label !== "maps");
+    }
+  } finally {
+    standIn.close();
+  }
+}
+
+async function main() {
+  checkQueries();
+  await checkSearch();
+
+  if (failures.length > 0) {
+    for (const failure of failures) {
+      console.error(`  ${failure}`);
+    }
+    console.error(`${failures.length} failures`);
+    process.exit(1);
+  }
+
+  console.log("Omeka filter query checks passed");
+}
+
+main().catch((error) => {
+  console.error("Omeka filter query check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * Export a catalog snapshot from the configured data adapter
+ *
+ * Usage:
+ *   npm run export:catalog -- [--out data/catalog] [--concurrency 4] [--full] [--limit 100]
+ *
+ * Re-running against an existing snapshot only refetches new and changed items.
+ * An interrupted run resumes from items.partial.ndjson.
+ */
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { getConfiguredAdapterName, getDataAdapter, disposeDataAdapter } from "@/server/adapters/DataAdapter";
+import { exportCatalogSnapshot } from "@/server/catalog-snapshot";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      out: { type: "string", default: "data/catalog" },
+      concurrency: { type: "string", default: "4" },
+      full: { type: "boolean", default: false },
+      limit: { type: "string" },
+    },
+  });
+
+  const adapterName = getConfiguredAdapterName();
+  const outDir = path.resolve(process.cwd(), values.out);
+  const adapter = await getDataAdapter();
+
+  console.log(`Exporting catalog from "${adapterName}" to ${outDir}`);
+
+  let lastReported = 0;
+  const manifest = await exportCatalogSnapshot(adapter, {
+    adapterName,
+    outDir,
+    concurrency: Number.parseInt(values.concurrency, 10) || 4,
+    full: values.full,
+    limit: values.limit ? Number.parseInt(values.limit, 10) : undefined,
+    onProgress: (done, total) => {
+      if (done === total || done - lastReported >= 100) {
+        lastReported = done;
+        console.log(`  ${done}/${total} items`);
+      }
+    },
+  });
+
+  const { counts, changes } = manifest;
+  console.log(`Snapshot ${manifest.snapshotId} (${manifest.checksum.slice(0, 12)})`);
+  console.log(
+    `  ${counts.items} items, ${counts.withThumbnail} with thumbnails, ` +
+    `${counts.withDocumentSource} with documents, ${counts.failed} failed`
+  );
+  console.log(
+    `  +${changes.added} ~${changes.updated} -${changes.removed} ` +
+    `(=${changes.unchanged}) since ${changes.previousSnapshotId ?? "nothing"}`
+  );
+
+  await disposeDataAdapter();
+}
+
+main().catch((error) => {
+  console.error("Catalog export failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+/**
+ * List items whose type was inferred by keyword heuristics rather than read from metadata
+ *
+ * Usage:
+ *   npm run report:types -- [--out data/reports/heuristic-types.csv]
+ *
+ * Builds the configured adapter's full item index, then writes one CSV row per
+ * heuristically typed item with its upstream URL, so the resource class or
+ * dcterms:type can be set there.
+ */
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { getConfiguredAdapterName, getDataAdapter, disposeDataAdapter } from "@/server/adapters/DataAdapter";
+import { buildTypeReport, formatTypeReportCsv } from "@/server/type-report";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      out: { type: "string", default: "data/reports/heuristic-types.csv" },
+    },
+  });
+
+  const adapterName = getConfiguredAdapterName();
+  const outPath = path.resolve(process.cwd(), values.out);
+  const adapter = await getDataAdapter();
+
+  if (!adapter.getFullItemIndex) {
+    console.error(`The "${adapterName}" adapter cannot list its items`);
+    process.exit(1);
+  }
+
+  console.log(`Reading the "${adapterName}" item index`);
+  const items = await adapter.getFullItemIndex();
+  const rows = buildTypeReport(items);
+
+  await mkdir(path.dirname(outPath), { recursive: true });
+  await writeFile(outPath, formatTypeReportCsv(rows), "utf8");
+
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    counts.set(row.type, (counts.get(row.type) ?? 0) + 1);
+  }
+
+  console.log(`${rows.length} of ${items.length} items typed by heuristics, written to ${outPath}`);
+  for (const [type, count] of Array.from(counts).sort((a, b) => b[1] - a[1])) {
+    console.log(`  ${type}: ${count}`);
+  }
+
+  await disposeDataAdapter();
+}
+
+main().catch((error) => {
+  console.error("Type report failed:", error);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@ import { useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { useViewerStore } from "@/store/viewer-store";
 import { DocumentViewer } from "@/components/DocumentViewer";
+import { getDocumentSources } from "@/lib/document-sources";
 import type { ItemDetail } from "@/lib/types";
 
 interface ItemViewerPageProps {
@@ -31,7 +32,8 @@ export function ItemViewerPage({ item, initialPage }: ItemViewerPageProps) {
           publisher: item.publisher,
           itemId: item.id,
           itemType: item.type,
-        }
+        },
+        getDocumentSources(item)
       );
       // Set initial page index immediately (for PDFs that don't wait for pages array)
       if (initialPage > 0) {
@@ -82,7 +84,7 @@ export function ItemViewerPage({ item, initialPage }: ItemViewerPageProps) {
 
         {/* Meta */}
         <div className="flex flex-wrap gap-2 text-sm mb-6" style={{ color: "#666" }}>
-          {item.year && <span>{item.year}</span>}
+          {item.year && <span>{item.dateDisplay ?? item.year}</span>}
           {item.year && item.type && <span>·</span>}
           {item.type && <span className="capitalize">{item.type}</span>}
         </div>
@@ -1,39 +1,58 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { useViewerStore } from "@/store/viewer-store";
 import { DocumentViewer } from "@/components/DocumentViewer";
+import { getDocumentSources, isPlayableSource } from "@/lib/document-sources";
 import type { ItemDetail } from "@/lib/types";
 
 export function ItemViewerShell({
   item,
   initialPage,
+  initialTime = 0,
+  initialTrack = 0,
 }: {
   item: ItemDetail;
   initialPage: number;
+  initialTime?: number; // Seconds into a recording, from a timestamp link
+  initialTrack?: number; // Index among the item's recordings, from a track link
 }) {
   const router = useRouter();
-  const { openViewer, setCurrentIndex, goToPage, isOpen, pages } = useViewerStore();
+  const { openViewer, setCurrentIndex, setCurrentTime, goToPage, isOpen, pages } = useViewerStore();
   const hasOpenedRef = useRef(false);
   const hasNavigatedToPageRef = useRef(false);
 
+  const sources = useMemo(() => getDocumentSources(item), [item]);
+  const tracks = useMemo(() => sources.filter(isPlayableSource), [sources]);
+
   useEffect(() => {
-    if (item.documentSource && !hasOpenedRef.current) {
+    if (sources.length > 0 && !hasOpenedRef.current) {
       hasOpenedRef.current = true;
-      openViewer(item.documentSource, item.title, item.sourceUrl, {
-        authors: item.authors,
-        year: item.year,
-        publisher: item.publisher,
-        itemId: item.id,
-        itemType: item.type,
-      });
+      // Track and timestamp links count recordings only, as the player's track list does
+      const linkedTrack = initialTrack > 0 || initialTime > 0 ? tracks[initialTrack] : undefined;
+      openViewer(
+        linkedTrack ?? sources[0],
+        item.title,
+        item.sourceUrl,
+        {
+          authors: item.authors,
+          year: item.year,
+          publisher: item.publisher,
+          itemId: item.id,
+          itemType: item.type,
+        },
+        sources
+      );
 
       if (initialPage > 0) {
         setCurrentIndex(initialPage);
       }
+      if (initialTime > 0) {
+        setCurrentTime(initialTime);
+      }
     }
-  }, [initialPage, item, openViewer, setCurrentIndex]);
+  }, [initialPage, initialTime, initialTrack, item, sources, tracks, openViewer, setCurrentIndex, setCurrentTime]);
 
   useEffect(() => {
     if (initialPage > 0 && isOpen && pages.length > 0 && !hasNavigatedToPageRef.current) {
@@ -42,7 +61,7 @@ export function ItemViewerShell({
     }
   }, [goToPage, initialPage, isOpen, pages.length]);
 
-  if (!item.documentSource) {
+  if (sources.length === 0) {
     return null;
   }
 
@@ -67,7 +86,10 @@ export function ItemViewerShell({
           </div>
         </div>
       )}
-      <DocumentViewer onClose={() => router.push("/")} />
+      <DocumentViewer
+        onClose={() => router.push("/")}
+        onOpenItem={(id) => router.push(`/${id}`)}
+      />
     </>
   );
 }
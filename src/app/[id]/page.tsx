@@ -3,13 +3,17 @@ import { notFound } from "next/navigation";
 import { SeoJsonLd } from "@/components/SeoJsonLd";
 import { ItemSeoContent } from "@/components/archive/ItemSeoContent";
 import { siteConfig } from "@/config/site";
+import { getAuthorHref } from "@/lib/discover-links";
+import { decodeItemIdParam, isValidItemId } from "@/lib/item-id";
+import { parseTimestamp } from "@/lib/media-time";
 import { buildSiteUrl } from "@/lib/site-url";
 import { getDataAdapter } from "@/server/adapters/DataAdapter";
+import { getRelatedItems } from "@/server/archive";
 import { ItemViewerShell } from "./ItemViewerShell";
 
 type Props = {
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ p?: string }>;
+  searchParams: Promise<{ p?: string; t?: string; track?: string }>;
 };
 
 function getSchemaType(type?: string | null): string {
@@ -36,9 +40,9 @@ function buildItemDescription(title: string, type?: string | null, year?: number
 }
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { id } = await params;
+  const id = decodeItemIdParam((await params).id);
 
-  if (!/^\d+$/.test(id)) {
+  if (!isValidItemId(id)) {
     return { title: "gpura gallery" };
   }
 
@@ -76,18 +80,22 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
 }
 
 export default async function ItemPage({ params, searchParams }: Props) {
-  const { id } = await params;
-  const { p } = await searchParams;
+  const id = decodeItemIdParam((await params).id);
+  const { p, t, track } = await searchParams;
 
-  if (!/^\d+$/.test(id)) {
+  if (!isValidItemId(id)) {
     notFound();
   }
 
   const page = p ? Number.parseInt(p, 10) - 1 : 0;
   const validPage = Number.isNaN(page) ? 0 : Math.max(0, page);
+  const initialTime = parseTimestamp(t) ?? 0;
+  // `track` counts the item's recordings, not every document source
+  const trackIndex = track ? Number.parseInt(track, 10) - 1 : 0;
+  const validTrack = Number.isNaN(trackIndex) ? 0 : Math.max(0, trackIndex);
 
   const adapter = await getDataAdapter();
-  const item = await adapter.getItem(id);
+  const [item, relatedItems] = await Promise.all([adapter.getItem(id), getRelatedItems(id)]);
 
   if (!item) {
     notFound();
@@ -110,6 +118,7 @@ export default async function ItemPage({ params, searchParams }: Props) {
       author: item.authors?.map((name) => ({
         "@type": "Person",
         name,
+        url: buildSiteUrl(getAuthorHref(name)),
       })),
       publisher: item.publisher
         ? {
@@ -156,8 +165,13 @@ export default async function ItemPage({ params, searchParams }: Props) {
   return (
     <>
       <SeoJsonLd data={jsonLd} />
-      <ItemSeoContent item={item} />
-      <ItemViewerShell item={item} initialPage={validPage} />
+      <ItemSeoContent item={item} relatedItems={relatedItems} />
+      <ItemViewerShell
+        item={item}
+        initialPage={validPage}
+        initialTime={initialTime}
+        initialTrack={validTrack}
+      />
     </>
   );
 }
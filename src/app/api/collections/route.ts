@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getDataAdapter } from "@/server/adapters/DataAdapter";
+import { CACHE_HEADERS } from "@/lib/cache";
+
+/**
+ * List collections with item counts for the collection filter
+ */
+export async function GET() {
+  try {
+    const adapter = await getDataAdapter();
+    const collections = await adapter.listCollections();
+
+    return NextResponse.json(
+      { collections },
+      { headers: { "Cache-Control": CACHE_HEADERS.DEFAULT } }
+    );
+  } catch (error) {
+    console.error("Collections API error:", error);
+    return NextResponse.json(
+      { collections: [], error: "Failed to list collections" },
+      { status: 500 }
+    );
+  }
+}
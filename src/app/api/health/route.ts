@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getConfiguredAdapterName, getDataAdapter } from "@/server/adapters/DataAdapter";
+
+/**
+ * Report the configured data adapter and whether its backend is reachable
+ */
+export async function GET() {
+  const adapterName = getConfiguredAdapterName();
+
+  try {
+    const adapter = await getDataAdapter();
+    const health = adapter.healthCheck
+      ? await adapter.healthCheck()
+      : { ok: true, adapter: adapterName };
+
+    return NextResponse.json(health, {
+      status: health.ok ? 200 : 503,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Health API error:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        adapter: adapterName,
+        message: error instanceof Error ? error.message : "Adapter unavailable",
+      },
+      { status: 503, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getConfiguredAdapterName, getDataAdapter } from "@/server/adapters/DataAdapter";
+
+/**
+ * Report the build status of the configured adapter's full item index
+ */
+export async function GET() {
+  const adapterName = getConfiguredAdapterName();
+
+  try {
+    const adapter = await getDataAdapter();
+
+    if (!adapter.getIndexStatus) {
+      return NextResponse.json(
+        { adapter: adapterName, error: "Adapter does not keep a full item index" },
+        { status: 404, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    return NextResponse.json(adapter.getIndexStatus(), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Index status API error:", error);
+    return NextResponse.json(
+      {
+        adapter: adapterName,
+        error: error instanceof Error ? error.message : "Adapter unavailable",
+      },
+      { status: 503, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
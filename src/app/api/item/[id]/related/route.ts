@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDataAdapter } from "@/server/adapters/DataAdapter";
+import { RELATED_ITEMS_LIMIT } from "@/server/related-items";
+import { getCache, CACHE_TTL, CACHE_HEADERS } from "@/lib/cache";
+import { decodeItemIdParam, isValidItemId } from "@/lib/item-id";
+import type { ArchiveItem } from "@/lib/types";
+
+const MAX_RELATED_ITEMS = 24;
+
+const relatedCache = getCache<ArchiveItem[]>("related-items");
+
+/**
+ * Items sharing authors, subjects or collections with an item
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = decodeItemIdParam((await params).id);
+
+    if (!id || !isValidItemId(id)) {
+      return NextResponse.json(
+        { error: "Invalid item ID" },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get("limit") || "", 10);
+    const limit = Number.isNaN(limitParam)
+      ? RELATED_ITEMS_LIMIT
+      : Math.min(Math.max(limitParam, 1), MAX_RELATED_ITEMS);
+    const cacheKey = `${id}:${limit}`;
+
+    const cached = relatedCache.get(cacheKey, CACHE_TTL.DEFAULT);
+    if (cached) {
+      return NextResponse.json(
+        { items: cached },
+        { headers: { "Cache-Control": CACHE_HEADERS.DEFAULT, "X-Cache": "HIT" } }
+      );
+    }
+
+    const adapter = await getDataAdapter();
+    const items = adapter.getRelatedItems ? await adapter.getRelatedItems(id, limit) : [];
+
+    // An empty list may only mean the item index is still being built
+    if (items.length === 0) {
+      return NextResponse.json({ items }, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    relatedCache.set(cacheKey, items);
+    relatedCache.cleanup(CACHE_TTL.DEFAULT);
+
+    return NextResponse.json(
+      { items },
+      { headers: { "Cache-Control": CACHE_HEADERS.DEFAULT, "X-Cache": "MISS" } }
+    );
+  } catch (error) {
+    console.error("Related items API error:", error);
+    return NextResponse.json(
+      { items: [], error: "Failed to find related items" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDataAdapter } from "@/server/adapters/DataAdapter";
 import { getCache, CACHE_TTL, CACHE_HEADERS } from "@/lib/cache";
+import { decodeItemIdParam, isValidItemId } from "@/lib/item-id";
 import type { ItemDetail } from "@/lib/types";
 
 // In-memory cache for item details
@@ -11,7 +12,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params;
+    const id = decodeItemIdParam((await params).id);
 
     if (!id) {
       return NextResponse.json(
@@ -20,6 +21,14 @@ export async function GET(
       );
     }
 
+    // Plain IDs ("1234") or source-namespaced IDs from the federated adapter ("gpura:1234")
+    if (!isValidItemId(id)) {
+      return NextResponse.json(
+        { error: "Invalid item ID" },
+        { status: 400 }
+      );
+    }
+
     // Check cache first
     const cached = itemCache.get(id, CACHE_TTL.DEFAULT);
     if (cached) {
@@ -1,5 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
 import { CACHE_HEADERS } from "@/lib/cache";
+import type { AdapterEnv } from "@/server/adapters/DataAdapter";
+import { getSourceEnv, parseFederatedSources } from "@/server/adapters/FederatedAdapter";
+
+/**
+ * Hosts of the catalog endpoints in one set of settings, plus its IIIF_ALLOWED_DOMAINS
+ */
+function getEnvDomains(env: AdapterEnv): string[] {
+  const domains = (env.IIIF_ALLOWED_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+
+  for (const url of [env.IIIF_COLLECTION_URL, env.OAI_BASE_URL, env.OMEKA_BASE_URL]) {
+    if (!url) continue;
+    try {
+      domains.push(new URL(url).hostname);
+    } catch {
+      // Ignore malformed endpoint URLs
+    }
+  }
+
+  return domains;
+}
+
+/**
+ * Configured hosts, including those of each federated source's namespaced settings
+ * ("KDA_IIIF_COLLECTION_URL" for namespace "kda")
+ */
+function getConfiguredIIIFDomains(): string[] {
+  const sources = parseFederatedSources(process.env.FEDERATED_SOURCES || "");
+  return [
+    ...getEnvDomains(process.env),
+    ...sources.flatMap((source) => getEnvDomains(getSourceEnv(source.namespace, process.env))),
+  ];
+}
 
 /**
  * Proxy endpoint to fetch IIIF manifests (avoids CORS issues)
@@ -19,6 +54,7 @@ export async function GET(request: NextRequest) {
     "artifacts.keraladigitalarchive.org",
     "iiif.gpura.org",
     "gpura.org",
+    ...getConfiguredIIIFDomains(),
   ];
 
   try {
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDataAdapter } from "@/server/adapters/DataAdapter";
 import { getCache, CACHE_TTL, CACHE_HEADERS } from "@/lib/cache";
-import type { SearchFilters, SearchResponse } from "@/lib/types";
+import { normalizeMalayalam } from "@/lib/malayalam";
+import { SORT_LABELS } from "@/lib/types";
+import type { SearchFilters, SearchResponse, SearchSort } from "@/lib/types";
 
 // In-memory cache for search results
 const searchCache = getCache<SearchResponse>("search");
@@ -9,10 +11,15 @@ const searchCache = getCache<SearchResponse>("search");
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const q = searchParams.get("q") || "";
+    // Normalise Malayalam encodings so equivalent queries share results and cache entries
+    const q = normalizeMalayalam(searchParams.get("q") || "");
     const page = parseInt(searchParams.get("page") || "1", 10);
     const pageSize = parseInt(searchParams.get("pageSize") || "50", 10);
     const scanFilters = searchParams.get("scan") === "1";
+    const sortParam = searchParams.get("sort") || "";
+    const sort: SearchSort = Object.hasOwn(SORT_LABELS, sortParam)
+      ? (sortParam as SearchSort)
+      : "newest";
 
     // Parse filters if provided
     let filters: SearchFilters | undefined;
@@ -39,7 +46,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Create cache key
-    const cacheKey = `${q}:${page}:${pageSize}:${filtersParam || ""}:scan=${scanFilters ? "1" : "0"}`;
+    const cacheKey = `${q}:${page}:${pageSize}:${filtersParam || ""}:scan=${scanFilters ? "1" : "0"}:sort=${sort}`;
 
     // Check cache
     const cached = searchCache.get(cacheKey, CACHE_TTL.DEFAULT);
@@ -60,15 +67,18 @@ export async function GET(request: NextRequest) {
       page,
       pageSize,
       scanFilters,
+      sort,
     });
 
-    // Store in cache
-    searchCache.set(cacheKey, response);
-    searchCache.cleanup(CACHE_TTL.DEFAULT, 200);
+    // Stand-ins served while the item index builds would outlive it in the cache
+    if (!response.provisional) {
+      searchCache.set(cacheKey, response);
+      searchCache.cleanup(CACHE_TTL.DEFAULT, 200);
+    }
 
     return NextResponse.json(response, {
       headers: {
-        "Cache-Control": CACHE_HEADERS.DEFAULT,
+        "Cache-Control": response.provisional ? CACHE_HEADERS.NONE : CACHE_HEADERS.DEFAULT,
         "X-Cache": "MISS",
       },
     });
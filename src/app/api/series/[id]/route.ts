@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CACHE_HEADERS } from "@/lib/cache";
+import { decodeItemIdParam } from "@/lib/item-id";
+import { toSlug } from "@/lib/slug";
+import { getSeries } from "@/server/archive";
+
+/**
+ * A periodical series with its issues in publication order
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = toSlug(decodeItemIdParam((await params).id));
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing series ID" },
+        { status: 400 }
+      );
+    }
+
+    const series = await getSeries(id);
+
+    if (!series) {
+      return NextResponse.json(
+        { error: "Series not found" },
+        { status: 404 }
+      );
+    }
+
+    // A series grouped from search results may be missing issues; don't let caches keep it
+    return NextResponse.json(series, {
+      headers: { "Cache-Control": series.complete ? CACHE_HEADERS.DEFAULT : "no-store" },
+    });
+  } catch (error) {
+    console.error("Series API error:", error);
+    return NextResponse.json(
+      { error: "Failed to load series" },
+      { status: 500 }
+    );
+  }
+}
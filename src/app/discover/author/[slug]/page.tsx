@@ -0,0 +1,122 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ArchivePageFrame } from "@/components/archive/ArchivePageFrame";
+import { BrowseItemList } from "@/components/archive/BrowseItemList";
+import { SeoJsonLd } from "@/components/SeoJsonLd";
+import { decodeItemIdParam } from "@/lib/item-id";
+import { buildSiteUrl } from "@/lib/site-url";
+import { toSlug } from "@/lib/slug";
+import { getAuthor } from "@/server/archive";
+import type { NameIndexEntry } from "@/server/name-index";
+
+type Props = {
+  params: Promise<{ slug: string }>;
+};
+
+function getYearSpan(author: NameIndexEntry): string | null {
+  const years = author.items
+    .map((item) => item.year)
+    .filter((year): year is number => typeof year === "number");
+
+  if (years.length === 0) return null;
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+  return first === last ? String(first) : `${first}–${last}`;
+}
+
+function getAuthorDescription(author: NameIndexEntry): string {
+  const span = getYearSpan(author);
+  const count = `${author.itemCount} ${author.itemCount === 1 ? "record" : "records"}`;
+  return `Browse ${count} by ${author.name} in the Granthappura archive${span ? `, published ${span}` : ""}.`;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const author = await getAuthor(toSlug(decodeItemIdParam(slug)));
+
+  if (!author) {
+    return {};
+  }
+
+  return {
+    title: `${author.name} | gpura gallery`,
+    description: getAuthorDescription(author),
+    alternates: {
+      canonical: `/discover/author/${encodeURIComponent(author.slug)}`,
+    },
+  };
+}
+
+export default async function DiscoverAuthorPage({ params }: Props) {
+  const { slug } = await params;
+  const author = await getAuthor(toSlug(decodeItemIdParam(slug)));
+
+  if (!author) {
+    notFound();
+  }
+
+  const pageUrl = buildSiteUrl(`/discover/author/${encodeURIComponent(author.slug)}`);
+  const personId = `${pageUrl}#person`;
+
+  const jsonLd = [
+    {
+      "@context": "https://schema.org",
+      "@type": "Person",
+      "@id": personId,
+      name: author.name,
+      url: pageUrl,
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "CollectionPage",
+      name: `Works by ${author.name}`,
+      description: getAuthorDescription(author),
+      url: pageUrl,
+      about: { "@id": personId },
+      hasPart: author.items.map((item) => ({
+        "@type": "CreativeWork",
+        name: item.title,
+        url: buildSiteUrl(`/${item.id}`),
+        datePublished: item.year ? String(item.year) : undefined,
+        author: { "@id": personId },
+      })),
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "BreadcrumbList",
+      itemListElement: [
+        {
+          "@type": "ListItem",
+          position: 1,
+          name: "Home",
+          item: buildSiteUrl("/"),
+        },
+        {
+          "@type": "ListItem",
+          position: 2,
+          name: "Discover",
+          item: buildSiteUrl("/discover"),
+        },
+        {
+          "@type": "ListItem",
+          position: 3,
+          name: author.name,
+          item: pageUrl,
+        },
+      ],
+    },
+  ];
+
+  return (
+    <>
+      <SeoJsonLd data={jsonLd} />
+      <ArchivePageFrame
+        eyebrow="Author"
+        title={author.name}
+        description={getAuthorDescription(author)}
+      >
+        <BrowseItemList heading="Works by year" items={author.items} />
+      </ArchivePageFrame>
+    </>
+  );
+}
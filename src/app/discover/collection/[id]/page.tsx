@@ -0,0 +1,99 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ArchivePageFrame } from "@/components/archive/ArchivePageFrame";
+import { BrowseItemList } from "@/components/archive/BrowseItemList";
+import { SeoJsonLd } from "@/components/SeoJsonLd";
+import { getCollectionHref } from "@/lib/discover-links";
+import { decodeItemIdParam } from "@/lib/item-id";
+import { buildSiteUrl } from "@/lib/site-url";
+import { getCollection, getItemsByCollection } from "@/server/archive";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+function getCollectionDescription(title: string, description?: string | null): string {
+  return description?.trim() || `Browse Granthappura records in the ${title} collection.`;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const collection = await getCollection(decodeItemIdParam((await params).id));
+
+  if (!collection) {
+    return {};
+  }
+
+  return {
+    title: `${collection.title} | gpura gallery`,
+    description: getCollectionDescription(collection.title, collection.description),
+    alternates: {
+      canonical: getCollectionHref(collection),
+    },
+    openGraph: collection.thumbnailUrl ? { images: [collection.thumbnailUrl] } : undefined,
+  };
+}
+
+export default async function DiscoverCollectionPage({ params }: Props) {
+  const collection = await getCollection(decodeItemIdParam((await params).id));
+
+  if (!collection) {
+    notFound();
+  }
+
+  const items = await getItemsByCollection(collection.title, 24);
+  const href = getCollectionHref(collection);
+  const description = getCollectionDescription(collection.title, collection.description);
+
+  const jsonLd = [
+    {
+      "@context": "https://schema.org",
+      "@type": "CollectionPage",
+      name: collection.title,
+      description,
+      url: buildSiteUrl(href),
+      ...(collection.sourceUrl ? { sameAs: collection.sourceUrl } : {}),
+      mainEntity: {
+        "@type": "Collection",
+        name: collection.title,
+        collectionSize: collection.itemCount,
+      },
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "BreadcrumbList",
+      itemListElement: [
+        {
+          "@type": "ListItem",
+          position: 1,
+          name: "Home",
+          item: buildSiteUrl("/"),
+        },
+        {
+          "@type": "ListItem",
+          position: 2,
+          name: "Discover",
+          item: buildSiteUrl("/discover"),
+        },
+        {
+          "@type": "ListItem",
+          position: 3,
+          name: collection.title,
+          item: buildSiteUrl(href),
+        },
+      ],
+    },
+  ];
+
+  return (
+    <>
+      <SeoJsonLd data={jsonLd} />
+      <ArchivePageFrame
+        eyebrow={`Collection · ${collection.itemCount.toLocaleString()} records`}
+        title={collection.title}
+        description={description}
+      >
+        <BrowseItemList heading="Records in this collection" items={items} />
+      </ArchivePageFrame>
+    </>
+  );
+}
@@ -4,28 +4,45 @@ import { ArchivePageFrame } from "@/components/archive/ArchivePageFrame";
 import { BrowseItemList } from "@/components/archive/BrowseItemList";
 import { SeoJsonLd } from "@/components/SeoJsonLd";
 import { siteConfig } from "@/config/site";
+import {
+  getCollectionHref,
+  getPublisherHref,
+  getSeriesHref,
+  getSubjectHref,
+} from "@/lib/discover-links";
 import { buildSiteUrl } from "@/lib/site-url";
 import {
+  getCollections,
   getDiscoverLanguageLinks,
   getDiscoverTypeLinks,
   getFeaturedItems,
+  getNames,
+  getSeriesList,
 } from "@/server/archive";
 
+// Most used subjects, publishers and series; the rest are reached from item pages
+const DISCOVER_NAME_LIMIT = 40;
+
 export const metadata: Metadata = {
   title: "Browse the Archive | gpura gallery",
   description:
-    "Browse indexable archive pages for Granthappura by language, format, and featured works.",
+    "Browse indexable archive pages for Granthappura by language, format, collection, subject, publisher, and featured works.",
   alternates: {
     canonical: "/discover",
   },
 };
 
 export default async function DiscoverPage() {
-  const [featuredItems, languageLinks, typeLinks] = await Promise.all([
-    getFeaturedItems(18),
-    Promise.resolve(getDiscoverLanguageLinks()),
-    Promise.resolve(getDiscoverTypeLinks()),
-  ]);
+  const [featuredItems, languageLinks, typeLinks, collections, subjects, publishers, seriesList] =
+    await Promise.all([
+      getFeaturedItems(18),
+      Promise.resolve(getDiscoverLanguageLinks()),
+      Promise.resolve(getDiscoverTypeLinks()),
+      getCollections(),
+      getNames("subjects"),
+      getNames("publishers"),
+      getSeriesList(),
+    ]);
 
   const jsonLd = [
     {
@@ -33,7 +50,7 @@ export default async function DiscoverPage() {
       "@type": "CollectionPage",
       name: "Browse the Granthappura archive",
       description:
-        "Browse archive landing pages for Granthappura by language, format, and featured works.",
+        "Browse archive landing pages for Granthappura by language, format, collection, subject, publisher, and featured works.",
       url: buildSiteUrl("/discover"),
       isPartOf: {
         "@type": "WebSite",
@@ -101,6 +118,83 @@ export default async function DiscoverPage() {
           </div>
         </section>
 
+        {collections.length > 0 && (
+          <section className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6">
+            <h2 className="text-2xl font-semibold">Browse By Collection</h2>
+            <div className="flex flex-wrap gap-2">
+              {collections.map((collection) => (
+                <Link
+                  key={collection.id}
+                  href={getCollectionHref(collection)}
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+                >
+                  {collection.title}
+                  <span className="ml-2 text-white/40">{collection.itemCount.toLocaleString()}</span>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {seriesList.length > 0 && (
+          <section className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h2 className="text-2xl font-semibold">Periodicals and Newspapers</h2>
+              <Link href="/discover/series" className="text-sm text-white/55 underline underline-offset-4">
+                All {seriesList.length.toLocaleString()} series
+              </Link>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {seriesList.slice(0, DISCOVER_NAME_LIMIT).map((series) => (
+                <Link
+                  key={series.id}
+                  href={getSeriesHref(series.id)}
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+                >
+                  {series.title}
+                  <span className="ml-2 text-white/40">{series.issueCount.toLocaleString()}</span>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {subjects.length > 0 && (
+          <section className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6">
+            <h2 className="text-2xl font-semibold">Browse By Subject</h2>
+            <div className="flex flex-wrap gap-2">
+              {subjects.slice(0, DISCOVER_NAME_LIMIT).map((entry) => (
+                <Link
+                  key={entry.slug}
+                  href={getSubjectHref(entry.name)}
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+                >
+                  {entry.name}
+                  <span className="ml-2 text-white/40">{entry.count.toLocaleString()}</span>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {publishers.length > 0 && (
+          <section className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6">
+            <h2 className="text-2xl font-semibold">Browse By Publisher</h2>
+            <div className="flex flex-wrap gap-2">
+              {publishers.slice(0, DISCOVER_NAME_LIMIT).map((entry) => (
+                <Link
+                  key={entry.slug}
+                  href={getPublisherHref(entry.name)}
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+                >
+                  {entry.name}
+                  <span className="ml-2 text-white/40">{entry.count.toLocaleString()}</span>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
         <BrowseItemList heading="Featured Records" items={featuredItems} />
       </ArchivePageFrame>
     </>
@@ -0,0 +1,111 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ArchivePageFrame } from "@/components/archive/ArchivePageFrame";
+import { BrowseItemList } from "@/components/archive/BrowseItemList";
+import { SeoJsonLd } from "@/components/SeoJsonLd";
+import { getPublisherHref } from "@/lib/discover-links";
+import { decodeItemIdParam } from "@/lib/item-id";
+import { buildSiteUrl } from "@/lib/site-url";
+import { toSlug } from "@/lib/slug";
+import { getNamedItems } from "@/server/archive";
+import type { NameIndexEntry } from "@/server/name-index";
+
+type Props = {
+  params: Promise<{ slug: string }>;
+};
+
+function getPublisherDescription(publisher: NameIndexEntry): string {
+  const count = `${publisher.itemCount.toLocaleString()} ${publisher.itemCount === 1 ? "record" : "records"}`;
+  return `Browse ${count} published by ${publisher.name} in the Granthappura archive.`;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const publisher = await getNamedItems("publishers", toSlug(decodeItemIdParam(slug)));
+
+  if (!publisher) {
+    return {};
+  }
+
+  return {
+    title: `${publisher.name} | gpura gallery`,
+    description: getPublisherDescription(publisher),
+    alternates: {
+      canonical: getPublisherHref(publisher.name),
+    },
+  };
+}
+
+export default async function DiscoverPublisherPage({ params }: Props) {
+  const { slug } = await params;
+  const publisher = await getNamedItems("publishers", toSlug(decodeItemIdParam(slug)));
+
+  if (!publisher) {
+    notFound();
+  }
+
+  const pageUrl = buildSiteUrl(getPublisherHref(publisher.name));
+  const organizationId = `${pageUrl}#publisher`;
+
+  const jsonLd = [
+    {
+      "@context": "https://schema.org",
+      "@type": "Organization",
+      "@id": organizationId,
+      name: publisher.name,
+      url: pageUrl,
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "CollectionPage",
+      name: `Published by ${publisher.name}`,
+      description: getPublisherDescription(publisher),
+      url: pageUrl,
+      about: { "@id": organizationId },
+      hasPart: publisher.items.map((item) => ({
+        "@type": "CreativeWork",
+        name: item.title,
+        url: buildSiteUrl(`/${item.id}`),
+        datePublished: item.year ? String(item.year) : undefined,
+        publisher: { "@id": organizationId },
+      })),
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "BreadcrumbList",
+      itemListElement: [
+        {
+          "@type": "ListItem",
+          position: 1,
+          name: "Home",
+          item: buildSiteUrl("/"),
+        },
+        {
+          "@type": "ListItem",
+          position: 2,
+          name: "Discover",
+          item: buildSiteUrl("/discover"),
+        },
+        {
+          "@type": "ListItem",
+          position: 3,
+          name: publisher.name,
+          item: pageUrl,
+        },
+      ],
+    },
+  ];
+
+  return (
+    <>
+      <SeoJsonLd data={jsonLd} />
+      <ArchivePageFrame
+        eyebrow="Publisher"
+        title={publisher.name}
+        description={getPublisherDescription(publisher)}
+      >
+        <BrowseItemList heading="Records from this publisher" items={publisher.items} />
+      </ArchivePageFrame>
+    </>
+  );
+}
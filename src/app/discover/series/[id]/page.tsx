@@ -0,0 +1,112 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ArchivePageFrame } from "@/components/archive/ArchivePageFrame";
+import { BrowseItemList } from "@/components/archive/BrowseItemList";
+import { SeoJsonLd } from "@/components/SeoJsonLd";
+import { getSeriesHref } from "@/lib/discover-links";
+import { decodeItemIdParam } from "@/lib/item-id";
+import { buildSiteUrl } from "@/lib/site-url";
+import { toSlug } from "@/lib/slug";
+import type { PeriodicalSeries } from "@/lib/types";
+import { getSeries } from "@/server/archive";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+function getYearSpan(series: PeriodicalSeries): string | null {
+  if (series.firstYear === null || series.lastYear === null) return null;
+  return series.firstYear === series.lastYear
+    ? String(series.firstYear)
+    : `${series.firstYear}–${series.lastYear}`;
+}
+
+function getSeriesDescription(series: PeriodicalSeries): string {
+  const span = getYearSpan(series);
+  const count = `${series.issueCount.toLocaleString()} ${series.issueCount === 1 ? "issue" : "issues"}`;
+  return `Read ${count} of ${series.title} in the Granthappura archive${span ? `, ${span}` : ""}.`;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const series = await getSeries(toSlug(decodeItemIdParam((await params).id)));
+
+  if (!series) {
+    return {};
+  }
+
+  return {
+    title: `${series.title} | gpura gallery`,
+    description: getSeriesDescription(series),
+    alternates: {
+      canonical: getSeriesHref(series.id),
+    },
+  };
+}
+
+export default async function DiscoverSeriesPage({ params }: Props) {
+  const series = await getSeries(toSlug(decodeItemIdParam((await params).id)));
+
+  if (!series) {
+    notFound();
+  }
+
+  const pageUrl = buildSiteUrl(getSeriesHref(series.id));
+  const seriesId = `${pageUrl}#series`;
+
+  const jsonLd = [
+    {
+      "@context": "https://schema.org",
+      "@type": series.type === "newspaper" ? "Newspaper" : "Periodical",
+      "@id": seriesId,
+      name: series.title,
+      description: getSeriesDescription(series),
+      url: pageUrl,
+      startDate: series.firstYear ? String(series.firstYear) : undefined,
+      hasPart: series.issues.map((issue) => ({
+        "@type": "PublicationIssue",
+        name: issue.title,
+        url: buildSiteUrl(`/${issue.id}`),
+        issueNumber: issue.issue ?? undefined,
+        datePublished: issue.year ? String(issue.year) : undefined,
+        isPartOf: { "@id": seriesId },
+      })),
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "BreadcrumbList",
+      itemListElement: [
+        {
+          "@type": "ListItem",
+          position: 1,
+          name: "Home",
+          item: buildSiteUrl("/"),
+        },
+        {
+          "@type": "ListItem",
+          position: 2,
+          name: "Periodicals",
+          item: buildSiteUrl("/discover/series"),
+        },
+        {
+          "@type": "ListItem",
+          position: 3,
+          name: series.title,
+          item: pageUrl,
+        },
+      ],
+    },
+  ];
+
+  return (
+    <>
+      <SeoJsonLd data={jsonLd} />
+      <ArchivePageFrame
+        eyebrow={series.type === "newspaper" ? "Newspaper" : "Periodical"}
+        title={series.title}
+        description={getSeriesDescription(series)}
+      >
+        <BrowseItemList heading="Issues in order of publication" items={series.issues} />
+      </ArchivePageFrame>
+    </>
+  );
+}
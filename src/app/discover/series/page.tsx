@@ -0,0 +1,95 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ArchivePageFrame } from "@/components/archive/ArchivePageFrame";
+import { SeoJsonLd } from "@/components/SeoJsonLd";
+import { getSeriesHref } from "@/lib/discover-links";
+import { buildSiteUrl } from "@/lib/site-url";
+import { getSeriesList } from "@/server/archive";
+
+const DESCRIPTION =
+  "Periodicals and newspapers in the Granthappura archive, with their digitised issues in order of publication.";
+
+export const metadata: Metadata = {
+  title: "Periodicals and Newspapers | gpura gallery",
+  description: DESCRIPTION,
+  alternates: {
+    canonical: "/discover/series",
+  },
+};
+
+export default async function DiscoverSeriesListPage() {
+  const seriesList = await getSeriesList();
+
+  const jsonLd = [
+    {
+      "@context": "https://schema.org",
+      "@type": "CollectionPage",
+      name: "Periodicals and newspapers",
+      description: DESCRIPTION,
+      url: buildSiteUrl("/discover/series"),
+      hasPart: seriesList.map((series) => ({
+        "@type": series.type === "newspaper" ? "Newspaper" : "Periodical",
+        name: series.title,
+        url: buildSiteUrl(getSeriesHref(series.id)),
+      })),
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "BreadcrumbList",
+      itemListElement: [
+        {
+          "@type": "ListItem",
+          position: 1,
+          name: "Home",
+          item: buildSiteUrl("/"),
+        },
+        {
+          "@type": "ListItem",
+          position: 2,
+          name: "Discover",
+          item: buildSiteUrl("/discover"),
+        },
+        {
+          "@type": "ListItem",
+          position: 3,
+          name: "Periodicals",
+          item: buildSiteUrl("/discover/series"),
+        },
+      ],
+    },
+  ];
+
+  return (
+    <>
+      <SeoJsonLd data={jsonLd} />
+      <ArchivePageFrame eyebrow="Periodicals" title="Periodicals and newspapers" description={DESCRIPTION}>
+        {seriesList.length === 0 ? (
+          <p className="text-white/60">The series list is being built. Check back shortly.</p>
+        ) : (
+          <ol className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {seriesList.map((series) => (
+              <li key={series.id} className="rounded-2xl border border-white/10 bg-white/5 p-5">
+                <Link
+                  href={getSeriesHref(series.id)}
+                  className="text-lg font-medium underline-offset-4 hover:underline"
+                >
+                  {series.title}
+                </Link>
+                <p className="mt-2 text-sm text-white/60">
+                  {[
+                    `${series.issueCount.toLocaleString()} issues`,
+                    series.firstYear === series.lastYear
+                      ? series.firstYear
+                      : `${series.firstYear}–${series.lastYear}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </ArchivePageFrame>
+    </>
+  );
+}
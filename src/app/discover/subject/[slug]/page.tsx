@@ -0,0 +1,111 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ArchivePageFrame } from "@/components/archive/ArchivePageFrame";
+import { BrowseItemList } from "@/components/archive/BrowseItemList";
+import { SeoJsonLd } from "@/components/SeoJsonLd";
+import { getSubjectHref } from "@/lib/discover-links";
+import { decodeItemIdParam } from "@/lib/item-id";
+import { buildSiteUrl } from "@/lib/site-url";
+import { toSlug } from "@/lib/slug";
+import { getNamedItems } from "@/server/archive";
+import type { NameIndexEntry } from "@/server/name-index";
+
+type Props = {
+  params: Promise<{ slug: string }>;
+};
+
+function getSubjectDescription(subject: NameIndexEntry): string {
+  const count = `${subject.itemCount.toLocaleString()} ${subject.itemCount === 1 ? "record" : "records"}`;
+  return `Browse ${count} about ${subject.name} in the Granthappura archive.`;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const subject = await getNamedItems("subjects", toSlug(decodeItemIdParam(slug)));
+
+  if (!subject) {
+    return {};
+  }
+
+  return {
+    title: `${subject.name} | gpura gallery`,
+    description: getSubjectDescription(subject),
+    alternates: {
+      canonical: getSubjectHref(subject.name),
+    },
+  };
+}
+
+export default async function DiscoverSubjectPage({ params }: Props) {
+  const { slug } = await params;
+  const subject = await getNamedItems("subjects", toSlug(decodeItemIdParam(slug)));
+
+  if (!subject) {
+    notFound();
+  }
+
+  const pageUrl = buildSiteUrl(getSubjectHref(subject.name));
+  const topicId = `${pageUrl}#subject`;
+
+  const jsonLd = [
+    {
+      "@context": "https://schema.org",
+      "@type": "DefinedTerm",
+      "@id": topicId,
+      name: subject.name,
+      url: pageUrl,
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "CollectionPage",
+      name: `Records about ${subject.name}`,
+      description: getSubjectDescription(subject),
+      url: pageUrl,
+      about: { "@id": topicId },
+      hasPart: subject.items.map((item) => ({
+        "@type": "CreativeWork",
+        name: item.title,
+        url: buildSiteUrl(`/${item.id}`),
+        datePublished: item.year ? String(item.year) : undefined,
+        about: { "@id": topicId },
+      })),
+    },
+    {
+      "@context": "https://schema.org",
+      "@type": "BreadcrumbList",
+      itemListElement: [
+        {
+          "@type": "ListItem",
+          position: 1,
+          name: "Home",
+          item: buildSiteUrl("/"),
+        },
+        {
+          "@type": "ListItem",
+          position: 2,
+          name: "Discover",
+          item: buildSiteUrl("/discover"),
+        },
+        {
+          "@type": "ListItem",
+          position: 3,
+          name: subject.name,
+          item: pageUrl,
+        },
+      ],
+    },
+  ];
+
+  return (
+    <>
+      <SeoJsonLd data={jsonLd} />
+      <ArchivePageFrame
+        eyebrow="Subject"
+        title={subject.name}
+        description={getSubjectDescription(subject)}
+      >
+        <BrowseItemList heading="Records on this subject" items={subject.items} />
+      </ArchivePageFrame>
+    </>
+  );
+}
@@ -1,14 +1,34 @@
 import type { MetadataRoute } from "next";
+import {
+  getAuthorHref,
+  getCollectionHref,
+  getPublisherHref,
+  getSeriesHref,
+  getSubjectHref,
+} from "@/lib/discover-links";
 import { buildSiteUrl } from "@/lib/site-url";
 import { LANGUAGE_LABELS, TYPE_LABELS } from "@/lib/types";
-import { getSitemapItemIds } from "@/server/archive";
+import {
+  getAuthors,
+  getCollections,
+  getNames,
+  getSeriesList,
+  getSitemapItemIds,
+} from "@/server/archive";
 
 export const revalidate = 86400;
 export const dynamic = "force-dynamic";
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const now = new Date();
-  const itemIds = await getSitemapItemIds();
+  const [itemIds, collections, subjects, publishers, seriesList, authors] = await Promise.all([
+    getSitemapItemIds(),
+    getCollections(),
+    getNames("subjects"),
+    getNames("publishers"),
+    getSeriesList(),
+    getAuthors(),
+  ]);
 
   const staticRoutes: MetadataRoute.Sitemap = [
     {
@@ -35,6 +55,42 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: "weekly" as const,
       priority: 0.7,
     })),
+    ...collections.map((collection) => ({
+      url: buildSiteUrl(getCollectionHref(collection)),
+      lastModified: now,
+      changeFrequency: "weekly" as const,
+      priority: 0.7,
+    })),
+    {
+      url: buildSiteUrl("/discover/series"),
+      lastModified: now,
+      changeFrequency: "weekly",
+      priority: 0.7,
+    },
+    ...seriesList.map((series) => ({
+      url: buildSiteUrl(getSeriesHref(series.id)),
+      lastModified: now,
+      changeFrequency: "weekly" as const,
+      priority: 0.7,
+    })),
+    ...authors.map((author) => ({
+      url: buildSiteUrl(getAuthorHref(author.name)),
+      lastModified: now,
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    })),
+    ...subjects.map((subject) => ({
+      url: buildSiteUrl(getSubjectHref(subject.name)),
+      lastModified: now,
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    })),
+    ...publishers.map((publisher) => ({
+      url: buildSiteUrl(getPublisherHref(publisher.name)),
+      lastModified: now,
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    })),
   ];
 
   const itemRoutes: MetadataRoute.Sitemap = itemIds.map((id) => ({
@@ -91,7 +91,7 @@ function CanvasItemCardComponent({ item, onClick }: CanvasItemCardProps) {
           {item.title}
         </p>
         {item.year && (
-          <p className="text-white/60 text-[10px] mt-1">{item.year}</p>
+          <p className="text-white/60 text-[10px] mt-1">{item.dateDisplay ?? item.year}</p>
         )}
       </div>
     </a>
@@ -5,8 +5,13 @@ import { useDrag } from "@use-gesture/react";
 import { useViewerStore } from "@/store/viewer-store";
 import { useDeviceType } from "@/hooks/useDeviceType";
 import { usePageUrlSync } from "@/hooks/usePageUrlSync";
+import { useMediaUrlSync } from "@/hooks/useMediaUrlSync";
+import { useSeriesNavigation } from "@/hooks/useSeriesNavigation";
+import { getDocumentSourceLabel, getDocumentSources, isPlayableSource } from "@/lib/document-sources";
 import { CitationModal } from "./CitationModal";
-import type { IIIFPage } from "@/lib/types";
+import { ImageZoomViewer } from "./ImageZoomViewer";
+import { MediaPlayer } from "./MediaPlayer";
+import type { IIIFPage, ItemDetail, SeriesIssue } from "@/lib/types";
 
 import dynamic from "next/dynamic";
 
@@ -155,19 +160,25 @@ interface IIIFImage {
 
 interface DocumentViewerProps {
   onClose?: () => void;
+  // Open another item (the previous or next issue); defaults to loading it into the reader
+  onOpenItem?: (id: string) => void;
 }
 
-export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
+export function DocumentViewer({ onClose, onOpenItem }: DocumentViewerProps = {}) {
   const {
     isOpen,
     documentSource,
+    documentSources,
     title,
     sourceUrl,
     pages,
     currentIndex,
+    currentTime,
     loading,
     error,
     viewMode,
+    openViewer,
+    switchSource,
     closeViewer,
     nextPage,
     prevPage,
@@ -191,8 +202,53 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
   const [showCiteModal, setShowCiteModal] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Sync current page to browser URL for shareable links
-  usePageUrlSync(currentIndex + 1, isOpen);
+  const isPlayable = documentSource ? isPlayableSource(documentSource) : false;
+  const tracks = documentSources.filter(isPlayableSource);
+  // Numbered among recordings only, matching the player's track list and `?track=` links
+  const trackNumber = Math.max(1, tracks.findIndex((source) => source.url === documentSource?.url) + 1);
+
+  // Sync current page, or playback position of a recording, to browser URL for shareable links
+  usePageUrlSync(currentIndex + 1, isOpen && !isPlayable);
+  useMediaUrlSync(currentTime, trackNumber, isOpen && isPlayable);
+
+  const { previousIssue, nextIssue } = useSeriesNavigation(itemId, title, itemType);
+
+  // Move to a neighbouring issue of the same periodical
+  const handleOpenIssue = useCallback(async (issue: SeriesIssue) => {
+    if (onOpenItem) {
+      onOpenItem(issue.id);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/item/${encodeURIComponent(issue.id)}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch issue");
+      }
+      const item: ItemDetail = await response.json();
+      const sources = getDocumentSources(item);
+      if (sources.length === 0) {
+        window.open(item.sourceUrl, "_blank", "noopener,noreferrer");
+        return;
+      }
+      openViewer(
+        sources[0],
+        item.title,
+        item.sourceUrl,
+        {
+          authors: item.authors,
+          year: item.year,
+          publisher: item.publisher,
+          itemId: item.id,
+          itemType: item.type,
+        },
+        sources
+      );
+    } catch (err) {
+      console.error("Error opening issue:", err);
+      setError(err instanceof Error ? err.message : "Failed to open issue");
+    }
+  }, [onOpenItem, openViewer, setError]);
 
   // Handle close with optional custom handler
   const handleClose = useCallback(() => {
@@ -233,15 +289,22 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
 
   // Share current page link
   const handleShare = useCallback(async () => {
-    // Extract item ID from sourceUrl
+    // Prefer the gallery item ID, fall back to the gpura item URL
     const match = sourceUrl?.match(/\/item\/(\d+)/);
-    const extractedItemId = match?.[1];
+    const extractedItemId = itemId || match?.[1];
     
     if (!extractedItemId) return;
     
-    // Build share URL with optional page parameter
-    const pageParam = currentIndex > 0 ? `?p=${currentIndex + 1}` : "";
-    const shareUrl = `${window.location.origin}/${extractedItemId}${pageParam}`;
+    // Build share URL with optional page, or track and timestamp, parameters
+    const params = new URLSearchParams();
+    if (isPlayable) {
+      if (trackNumber > 1) params.set("track", String(trackNumber));
+      if (currentTime > 0) params.set("t", String(currentTime));
+    } else if (currentIndex > 0) {
+      params.set("p", String(currentIndex + 1));
+    }
+    const query = params.toString();
+    const shareUrl = `${window.location.origin}/${extractedItemId}${query ? `?${query}` : ""}`;
     
     const success = await copyToClipboard(shareUrl);
     
@@ -256,7 +319,7 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
       setShowCopied(true);
       setTimeout(() => setShowCopied(false), 3000);
     }
-  }, [sourceUrl, currentIndex, isMobile, copyToClipboard]);
+  }, [itemId, sourceUrl, currentIndex, currentTime, isPlayable, trackNumber, isMobile, copyToClipboard]);
 
   const currentPage = pages[currentIndex];
   const secondPage = viewMode === "double" && currentIndex + 1 < pages.length ? pages[currentIndex + 1] : null;
@@ -302,6 +365,8 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
   // Fetch and parse IIIF manifest via proxy to avoid CORS
   useEffect(() => {
     if (!isOpen || !documentSource || documentSource.type !== "iiif") return;
+    // Switching volumes while a manifest loads must not show the old one
+    let cancelled = false;
 
     const fetchManifest = async () => {
       try {
@@ -321,14 +386,17 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
           throw new Error("No viewable pages found in document");
         }
         
-        setPages(parsedPages);
+        if (!cancelled) setPages(parsedPages);
       } catch (err) {
         console.error("Error loading manifest:", err);
-        setError(err instanceof Error ? err.message : "Failed to load document");
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load document");
       }
     };
 
     fetchManifest();
+    return () => {
+      cancelled = true;
+    };
   }, [isOpen, documentSource, setPages, setError]);
 
   // Keyboard navigation (PDF has its own keyboard handling in PdfViewer)
@@ -416,10 +484,65 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
               {title}
             </h1>
           </div>
+
+          {/* Volume / format picker; recordings list their tracks beside the player */}
+          {documentSources.length > 1 && tracks.length < documentSources.length && (
+            <select
+              value={documentSource.url}
+              onChange={(e) => {
+                const source = documentSources.find((candidate) => candidate.url === e.target.value);
+                if (source) switchSource(source);
+              }}
+              className="shrink-0 max-w-[9rem] md:max-w-[14rem] px-2 py-1.5 rounded-lg text-xs md:text-sm bg-transparent border transition-colors hover:bg-white/10"
+              style={{ color: "#999", borderColor: "rgba(255,255,255,0.1)" }}
+              aria-label="Volume or format"
+            >
+              {documentSources.map((source) => (
+                <option key={source.url} value={source.url} style={{ background: "#0a0a0a" }}>
+                  {getDocumentSourceLabel(source)}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
         {/* Actions */}
         <div className="flex items-center gap-1 md:gap-2">
+          {/* Previous / next issue of the same periodical */}
+          {(previousIssue || nextIssue) && (
+            <div
+              className="flex items-center rounded-lg border"
+              style={{ borderColor: "rgba(255,255,255,0.1)" }}
+            >
+              <button
+                onClick={() => previousIssue && handleOpenIssue(previousIssue)}
+                disabled={!previousIssue}
+                className="flex items-center gap-1 px-2 md:px-3 py-1.5 text-sm transition-colors hover:bg-white/10 active:scale-95 disabled:opacity-30 disabled:hover:bg-transparent"
+                style={{ color: "#999" }}
+                aria-label="Previous issue"
+                title={previousIssue ? `Previous issue: ${previousIssue.issueLabel}` : undefined}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 19l-7-7 7-7m8 14l-7-7 7-7" />
+                </svg>
+                <span className="hidden lg:block">Previous issue</span>
+              </button>
+              <button
+                onClick={() => nextIssue && handleOpenIssue(nextIssue)}
+                disabled={!nextIssue}
+                className="flex items-center gap-1 px-2 md:px-3 py-1.5 text-sm transition-colors hover:bg-white/10 active:scale-95 disabled:opacity-30 disabled:hover:bg-transparent"
+                style={{ color: "#999" }}
+                aria-label="Next issue"
+                title={nextIssue ? `Next issue: ${nextIssue.issueLabel}` : undefined}
+              >
+                <span className="hidden lg:block">Next issue</span>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+                </svg>
+              </button>
+            </div>
+          )}
+
           {/* Cite button - opens citation modal (desktop only) */}
           {sourceUrl && itemId && !isMobile && (
             <button
@@ -539,6 +662,7 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
         {/* PDF Viewer - custom viewer with page/book modes like IIIF */}
         {isPdf && !error && (
           <PdfViewer
+            key={documentSource.url}
             url={documentSource.url}
             isMobile={isMobile}
             isTouch={isTouch}
@@ -547,6 +671,27 @@ export function DocumentViewer({ onClose }: DocumentViewerProps = {}) {
           />
         )}
 
+        {/* Audio and video player */}
+        {isPlayable && !error && (
+          <MediaPlayer
+            source={documentSource}
+            tracks={tracks}
+            title={title}
+            isMobile={isMobile}
+            onSelectTrack={switchSource}
+          />
+        )}
+
+        {/* Single image with pan and zoom */}
+        {documentSource.type === "image" && !error && (
+          <ImageZoomViewer
+            key={documentSource.url}
+            source={documentSource}
+            title={title}
+            isMobile={isMobile}
+          />
+        )}
+
         {/* IIIF Page image with swipe support */}
         {isIiif && currentPage && !loading && !error && (
           <div
@@ -2,15 +2,16 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { useCanvasStore } from "@/store/canvas-store";
-import { LANGUAGE_LABELS, TYPE_LABELS, TIME_RANGES } from "@/lib/types";
-import type { SearchFilters } from "@/lib/types";
-import { hasActiveFilters as hasSelectedFilters } from "@/lib/canvas-utils";
+import { LANGUAGE_LABELS, SORT_LABELS, TYPE_LABELS, TIME_RANGES } from "@/lib/types";
+import type { ArchiveCollection, SearchFilters, SearchSort } from "@/lib/types";
+import { hasActiveFilters as hasSelectedFilters, resolveSearchSort } from "@/lib/canvas-utils";
 
 // Main filter categories for gpura
 const LANGUAGES = ["ml", "en", "ta", "sa", "hi"] as const;
 const TYPES = ["book", "periodical", "manuscript", "image", "newspaper"] as const;
+const SORTS = Object.keys(SORT_LABELS) as SearchSort[];
 
-type FilterCategory = "language" | "type" | "period" | null;
+type FilterCategory = "language" | "type" | "period" | "collection" | "sort" | null;
 
 // Year range constants for the slider
 const MIN_YEAR = 1800;
@@ -22,12 +23,16 @@ export function FilterBar() {
   const [yearRangeMin, setYearRangeMin] = useState(MIN_YEAR);
   const [yearRangeMax, setYearRangeMax] = useState(MAX_YEAR);
   const [isCustomRangeActive, setIsCustomRangeActive] = useState(false);
+  const [collections, setCollections] = useState<ArchiveCollection[] | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   
   const { 
     filters, 
     setFilters, 
+    query,
+    sort,
+    setSort,
     resetView,
     isSearchMode,
     search,
@@ -36,6 +41,7 @@ export function FilterBar() {
     isAnyTileLoading,
   } = useCanvasStore();
   const hasActiveFilters = hasSelectedFilters(filters);
+  const activeSort = resolveSearchSort(query, sort);
 
   // Use store's loading check - more stable than watching tiles Map
   const tilesLoading = isAnyTileLoading();
@@ -51,6 +57,27 @@ export function FilterBar() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  // Load collections the first time the collection dropdown opens
+  useEffect(() => {
+    if (activeDropdown !== "collection" || collections !== null) {
+      return;
+    }
+
+    let cancelled = false;
+    fetch("/api/collections")
+      .then((response) => (response.ok ? response.json() : { collections: [] }))
+      .then((data: { collections?: ArchiveCollection[] }) => {
+        if (!cancelled) setCollections(data.collections ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setCollections([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDropdown, collections]);
+
   // Track last searched query to prevent duplicate searches
   const lastSearchedRef = useRef<string>("");
   const isSearchingRef = useRef<boolean>(false);
@@ -148,6 +175,25 @@ export function FilterBar() {
     updateFilter({ ...filters, types: newTypes.length ? newTypes : undefined });
   };
 
+  const toggleCollection = (title: string) => {
+    const current = filters.collections || [];
+    const newCollections = current.includes(title)
+      ? current.filter((c) => c !== title)
+      : [...current, title];
+    updateFilter({ ...filters, collections: newCollections.length ? newCollections : undefined });
+  };
+
+  // Subjects and publishers are set from the item drawer; the bar only removes them
+  const removeSubject = (subject: string) => {
+    const newSubjects = (filters.subjects || []).filter((s) => s !== subject);
+    updateFilter({ ...filters, subjects: newSubjects.length ? newSubjects : undefined });
+  };
+
+  const removePublisher = (publisher: string) => {
+    const newPublishers = (filters.publishers || []).filter((p) => p !== publisher);
+    updateFilter({ ...filters, publishers: newPublishers.length ? newPublishers : undefined });
+  };
+
   const togglePeriod = (label: string) => {
     const current = filters.periods || [];
     const newPeriods = current.includes(label)
@@ -243,6 +289,33 @@ export function FilterBar() {
       });
     }
     
+    if (filters.collections?.length) {
+      filters.collections.forEach(collection => {
+        pills.push({
+          label: collection,
+          onRemove: () => toggleCollection(collection),
+        });
+      });
+    }
+
+    if (filters.subjects?.length) {
+      filters.subjects.forEach(subject => {
+        pills.push({
+          label: subject,
+          onRemove: () => removeSubject(subject),
+        });
+      });
+    }
+
+    if (filters.publishers?.length) {
+      filters.publishers.forEach(publisher => {
+        pills.push({
+          label: publisher,
+          onRemove: () => removePublisher(publisher),
+        });
+      });
+    }
+    
     if (filters.periods?.length) {
       filters.periods.forEach(period => {
         pills.push({
@@ -320,6 +393,20 @@ export function FilterBar() {
           </span>
         )}
 
+        {/* Malayalam spelling a Manglish query matched */}
+        {isSearchMode && !search.loading && search.transliteratedQuery && (
+          <span
+            className="text-xs truncate max-w-[40vw]"
+            style={{ color: "rgba(255,255,255,0.5)" }}
+            title={search.transliteratedQuery}
+          >
+            showing results for{" "}
+            <span lang="ml" style={{ color: "rgba(255,255,255,0.85)" }}>
+              {search.transliteratedQuery}
+            </span>
+          </span>
+        )}
+
         <div className="w-px h-4 bg-white/10 flex-shrink-0" />
 
         {/* Filter buttons with inline dropdowns */}
@@ -457,6 +544,63 @@ export function FilterBar() {
               </Dropdown>
             )}
           </div>
+
+          {/* Collection filter */}
+          <div className="relative">
+            <FilterButton
+              label="Collection"
+              isActive={activeDropdown === "collection" || (filters.collections?.length ?? 0) > 0}
+              onClick={() => setActiveDropdown(activeDropdown === "collection" ? null : "collection")}
+              disabled={search.loading}
+            />
+            {activeDropdown === "collection" && !search.loading && (
+              <Dropdown wide>
+                <div className="max-h-80 overflow-y-auto">
+                  {collections === null && (
+                    <p className="px-3 py-2 text-sm" style={{ color: "#666" }}>Loading...</p>
+                  )}
+                  {collections?.length === 0 && (
+                    <p className="px-3 py-2 text-sm" style={{ color: "#666" }}>No collections</p>
+                  )}
+                  {collections?.map((collection) => (
+                    <DropdownItem
+                      key={collection.id}
+                      label={`${collection.title} (${collection.itemCount.toLocaleString()})`}
+                      isSelected={filters.collections?.includes(collection.title) || false}
+                      onClick={() => toggleCollection(collection.title)}
+                    />
+                  ))}
+                </div>
+              </Dropdown>
+            )}
+          </div>
+
+          {/* Sort order - search results only, the browse canvas is shuffled */}
+          {isSearchMode && (
+            <div className="relative">
+              <FilterButton
+                label={sort ? SORT_LABELS[activeSort] : "Sort"}
+                isActive={activeDropdown === "sort" || sort !== null}
+                onClick={() => setActiveDropdown(activeDropdown === "sort" ? null : "sort")}
+                disabled={search.loading}
+              />
+              {activeDropdown === "sort" && !search.loading && (
+                <Dropdown>
+                  {SORTS.filter((option) => option !== "relevance" || query).map((option) => (
+                    <DropdownItem
+                      key={option}
+                      label={SORT_LABELS[option]}
+                      isSelected={activeSort === option}
+                      onClick={() => {
+                        setSort(option);
+                        setActiveDropdown(null);
+                      }}
+                    />
+                  ))}
+                </Dropdown>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Active filter pills with horizontal scroll */}
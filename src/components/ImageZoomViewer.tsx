@@ -0,0 +1,338 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useGesture } from "@use-gesture/react";
+import {
+  BASE_LAYER_WIDTH,
+  getScaledImageUrl,
+  getVisibleTiles,
+  parseImageServiceInfo,
+  type ImageServiceInfo,
+  type ImageView,
+} from "@/lib/iiif-image";
+import type { DocumentSource } from "@/lib/types";
+
+type Size = { width: number; height: number };
+
+type PinchStart = { view: ImageView; x: number; y: number };
+
+interface ImageZoomViewerProps {
+  source: DocumentSource;
+  title: string;
+  isMobile: boolean;
+}
+
+const PADDING = 16;
+const ZOOM_STEP = 1.5;
+const MAX_ZOOM = 2; // Twice full resolution
+
+/**
+ * Scale and position that fit the whole image in the viewport
+ */
+function getFitView(image: Size, viewport: Size): ImageView {
+  const scale = Math.min(
+    (viewport.width - PADDING * 2) / image.width,
+    (viewport.height - PADDING * 2) / image.height
+  );
+  return {
+    scale,
+    x: (viewport.width - image.width * scale) / 2,
+    y: (viewport.height - image.height * scale) / 2,
+  };
+}
+
+/**
+ * Keep the image covering the viewport, or centred on an axis where it is smaller
+ */
+function clampView(view: ImageView, image: Size, viewport: Size): ImageView {
+  const clampAxis = (position: number, imageSize: number, viewportSize: number) => {
+    const size = imageSize * view.scale;
+    if (size <= viewportSize) return (viewportSize - size) / 2;
+    return Math.min(0, Math.max(viewportSize - size, position));
+  };
+  return {
+    scale: view.scale,
+    x: clampAxis(view.x, image.width, viewport.width),
+    y: clampAxis(view.y, image.height, viewport.height),
+  };
+}
+
+/**
+ * Zoom to `scale` keeping the image point under (originX, originY) in place
+ */
+function zoomView(
+  view: ImageView,
+  scale: number,
+  originX: number,
+  originY: number,
+  image: Size,
+  viewport: Size
+): ImageView {
+  const fitScale = getFitView(image, viewport).scale;
+  const nextScale = Math.min(Math.max(scale, fitScale), Math.max(MAX_ZOOM, fitScale));
+  const ratio = nextScale / view.scale;
+  return clampView(
+    {
+      scale: nextScale,
+      x: originX - (originX - view.x) * ratio,
+      y: originY - (originY - view.y) * ratio,
+    },
+    image,
+    viewport
+  );
+}
+
+/**
+ * Pan and zoom viewer for a single image
+ * Images behind a IIIF Image API are drawn from tiles at the resolution the zoom needs;
+ * other images load once at full resolution
+ */
+export function ImageZoomViewer({ source, title, isMobile }: ImageZoomViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Size | null>(null);
+  const [info, setInfo] = useState<ImageServiceInfo | null>(null);
+  const [serviceFailed, setServiceFailed] = useState(false);
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+  const [userView, setUserView] = useState<ImageView | null>(null); // null while fitted
+  const [pixelRatio, setPixelRatio] = useState(1);
+
+  const service = source.imageService && !serviceFailed ? source.imageService : null;
+  const image = service ? info : naturalSize;
+  const loading = !imageFailed && (!image || !viewport);
+
+  // Load the image service description through the manifest proxy
+  useEffect(() => {
+    if (!source.imageService) return;
+    let cancelled = false;
+
+    const fetchInfo = async () => {
+      try {
+        const response = await fetch(
+          `/api/manifest?url=${encodeURIComponent(`${source.imageService}/info.json`)}`
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to load image info: ${response.status}`);
+        }
+        const parsed = parseImageServiceInfo(await response.json());
+        if (!parsed) {
+          throw new Error("Image info has no dimensions");
+        }
+        if (!cancelled) setInfo(parsed);
+      } catch (err) {
+        // Fall back to the plain image
+        console.error("Error loading image service:", err);
+        if (!cancelled) setServiceFailed(true);
+      }
+    };
+
+    fetchInfo();
+    return () => {
+      cancelled = true;
+    };
+  }, [source.imageService]);
+
+  // Track the viewport size; a fitted image refits on resize
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateSize = () => {
+      setViewport({ width: container.clientWidth, height: container.clientHeight });
+      setPixelRatio(window.devicePixelRatio || 1);
+    };
+    updateSize();
+
+    const observer = new ResizeObserver(updateSize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const view = useMemo(() => {
+    if (!image || !viewport) return null;
+    return userView ? clampView(userView, image, viewport) : getFitView(image, viewport);
+  }, [image, viewport, userView]);
+
+  const zoomAt = useCallback(
+    (factor: number, originX?: number, originY?: number) => {
+      if (!image || !viewport || !view) return;
+      setUserView(
+        zoomView(
+          view,
+          view.scale * factor,
+          originX ?? viewport.width / 2,
+          originY ?? viewport.height / 2,
+          image,
+          viewport
+        )
+      );
+    },
+    [image, viewport, view]
+  );
+
+  const toContainerPoint = (clientX: number, clientY: number): [number, number] => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return rect ? [clientX - rect.left, clientY - rect.top] : [clientX, clientY];
+  };
+
+  useGesture(
+    {
+      onDrag: ({ delta: [dx, dy], pinching, cancel }) => {
+        if (pinching) return cancel();
+        if (!image || !viewport || !view) return;
+        setUserView(clampView({ scale: view.scale, x: view.x + dx, y: view.y + dy }, image, viewport));
+      },
+      onPinch: ({ origin: [ox, oy], movement: [scaleRatio], first, memo }) => {
+        if (!image || !viewport || !view) return memo;
+        // Zoom relative to the view and origin the pinch started from
+        let start = memo as PinchStart | undefined;
+        if (first || !start) {
+          const [x, y] = toContainerPoint(ox, oy);
+          start = { view, x, y };
+        }
+        setUserView(zoomView(start.view, start.view.scale * scaleRatio, start.x, start.y, image, viewport));
+        return start;
+      },
+      onWheel: ({ event, delta: [, dy] }) => {
+        event.preventDefault();
+        const [x, y] = toContainerPoint(event.clientX, event.clientY);
+        zoomAt(Math.exp(-dy * 0.002), x, y);
+      },
+    },
+    {
+      target: containerRef,
+      eventOptions: { passive: false },
+      drag: { filterTaps: true },
+    }
+  );
+
+  // Keyboard zoom: + and - step, 0 fits
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "+" || e.key === "=") zoomAt(ZOOM_STEP);
+      else if (e.key === "-") zoomAt(1 / ZOOM_STEP);
+      else if (e.key === "0") setUserView(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [zoomAt]);
+
+  const tiles =
+    service && info && view && viewport
+      ? getVisibleTiles(service, info, view, viewport, pixelRatio)
+      : [];
+  const layerStyle = view && image
+    ? {
+        left: view.x,
+        top: view.y,
+        width: image.width * view.scale,
+        height: image.height * view.scale,
+      }
+    : undefined;
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 overflow-hidden touch-none select-none cursor-grab active:cursor-grabbing"
+      onDoubleClick={(e) => {
+        const [x, y] = toContainerPoint(e.clientX, e.clientY);
+        zoomAt(2, x, y);
+      }}
+    >
+      {/* Base layer: a scaled copy under the tiles, or the plain image itself */}
+      {service && info && layerStyle && (
+        <img
+          src={getScaledImageUrl(service, Math.min(info.width, BASE_LAYER_WIDTH))}
+          alt={title}
+          className="absolute max-w-none"
+          style={layerStyle}
+          draggable={false}
+        />
+      )}
+      {!service && !imageFailed && (
+        <img
+          src={source.url}
+          alt={title}
+          className={`absolute max-w-none ${layerStyle ? "" : "opacity-0"}`}
+          style={layerStyle}
+          onLoad={(e) =>
+            setNaturalSize({
+              width: e.currentTarget.naturalWidth,
+              height: e.currentTarget.naturalHeight,
+            })
+          }
+          onError={() => setImageFailed(true)}
+          draggable={false}
+        />
+      )}
+
+      {/* Full-resolution tiles for the visible region */}
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          className="absolute max-w-none"
+          style={{ left: tile.left, top: tile.top, width: tile.width, height: tile.height }}
+          draggable={false}
+        />
+      ))}
+
+      {loading && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div
+            className="w-8 h-8 rounded-full border-2 animate-spin"
+            style={{ borderColor: "rgba(255,255,255,0.1)", borderTopColor: "white" }}
+          />
+        </div>
+      )}
+
+      {imageFailed && (
+        <div className="absolute inset-0 flex items-center justify-center text-center p-8">
+          <p className="text-sm" style={{ color: "#666" }}>This image could not be loaded.</p>
+        </div>
+      )}
+
+      {/* Zoom controls */}
+      {view && image && (
+        <div
+          className={`absolute right-3 flex items-center rounded-lg ${isMobile ? "bottom-3 safe-area-bottom" : "bottom-4"}`}
+          style={{ background: "rgba(0,0,0,0.6)", border: "1px solid rgba(255,255,255,0.1)" }}
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={() => zoomAt(1 / ZOOM_STEP)}
+            className="w-9 h-9 flex items-center justify-center transition-colors hover:bg-white/10"
+            aria-label="Zoom out"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+            </svg>
+          </button>
+          <span className="w-14 text-center text-xs tabular-nums" style={{ color: "#999" }}>
+            {Math.round(view.scale * 100)}%
+          </span>
+          <button
+            onClick={() => zoomAt(ZOOM_STEP)}
+            className="w-9 h-9 flex items-center justify-center transition-colors hover:bg-white/10"
+            aria-label="Zoom in"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setUserView(null)}
+            className="h-9 px-3 text-xs border-l transition-colors hover:bg-white/10"
+            style={{ borderColor: "rgba(255,255,255,0.1)", color: "#999" }}
+            aria-label="Fit to screen"
+          >
+            Fit
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,35 +1,50 @@
 "use client";
 
 import { useEffect, useState, useCallback, useRef } from "react";
+import Link from "next/link";
 import { useDrag } from "@use-gesture/react";
 import { useCanvasStore } from "@/store/canvas-store";
 import { useViewerStore } from "@/store/viewer-store";
 import { useDeviceType } from "@/hooks/useDeviceType";
+import { getAuthorHref } from "@/lib/discover-links";
+import {
+  getDocumentSourceLabel,
+  getDocumentSources,
+  getOpenSourceLabel,
+  isPlayableSource,
+} from "@/lib/document-sources";
 import { preloadIIIFManifest } from "@/lib/preload";
-import type { ItemDetail } from "@/lib/types";
+import type { ArchiveItem, ItemDetail } from "@/lib/types";
 
 export function ItemDrawer() {
-  const { selectedItemId, setSelectedItem } = useCanvasStore();
+  const { selectedItemId, setSelectedItem, filters, setFilters, resetView } = useCanvasStore();
   const openViewer = useViewerStore((s) => s.openViewer);
   const { isMobile } = useDeviceType();
   const [item, setItem] = useState<ItemDetail | null>(null);
+  const [relatedItems, setRelatedItems] = useState<ArchiveItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [dragOffset, setDragOffset] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
+  // Chosen volume or format, remembered for the item it was picked on
+  const [pickedSource, setPickedSource] = useState<{ itemId: string; index: number } | null>(null);
   const drawerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
 
-  // Check if item has viewable content (IIIF manifest or PDF)
-  const hasViewableContent = !!item?.documentSource;
+  // Viewable volumes and formats (IIIF manifests, PDFs, recordings and images)
+  const documentSources = item ? getDocumentSources(item) : [];
+  const sourceIndex = item && pickedSource?.itemId === item.id ? pickedSource.index : 0;
+  const selectedSource = documentSources[sourceIndex] ?? null;
+  const hasViewableContent = selectedSource !== null;
+  const isPlayable = selectedSource !== null && isPlayableSource(selectedSource);
 
   // Open document viewer
   const handleReadDocument = useCallback(() => {
-    if (item?.documentSource) {
+    if (item && selectedSource) {
       openViewer(
-        item.documentSource, 
+        selectedSource,
         item.title, 
         item.sourceUrl,
         {
@@ -38,10 +53,11 @@ export function ItemDrawer() {
           publisher: item.publisher,
           itemId: item.id,
           itemType: item.type,
-        }
+        },
+        getDocumentSources(item)
       );
     }
-  }, [item, openViewer]);
+  }, [item, selectedSource, openViewer]);
 
   // Close drawer with animation
   const handleClose = useCallback(() => {
@@ -54,6 +70,13 @@ export function ItemDrawer() {
     }, 450);
   }, [setSelectedItem]);
 
+  // Switch the canvas to records sharing this subject
+  const handleSubjectClick = useCallback((subject: string) => {
+    resetView();
+    setFilters({ ...filters, subjects: [subject] });
+    handleClose();
+  }, [filters, setFilters, resetView, handleClose]);
+
   // Check if content is scrolled to top
   const isScrolledToTop = useCallback(() => {
     if (!contentRef.current) return true;
@@ -102,6 +125,30 @@ export function ItemDrawer() {
     }
   );
 
+  // Fetch "more like this" alongside the item; the rail stays hidden if none come back
+  useEffect(() => {
+    setRelatedItems([]);
+    if (!selectedItemId) return;
+
+    let cancelled = false;
+    fetch(`/api/item/${encodeURIComponent(selectedItemId)}/related`)
+      .then((response) => (response.ok ? response.json() : { items: [] }))
+      .then((data: { items?: ArchiveItem[] }) => {
+        if (!cancelled) setRelatedItems(data.items ?? []);
+      })
+      .catch((err) => console.error("Error fetching related items:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedItemId]);
+
+  // Open a related item in place of the current one
+  const handleRelatedClick = useCallback((id: string) => {
+    contentRef.current?.scrollTo({ top: 0 });
+    setSelectedItem(id);
+  }, [setSelectedItem]);
+
   // Fetch item details when selected
   useEffect(() => {
     if (!selectedItemId) {
@@ -115,7 +162,7 @@ export function ItemDrawer() {
       setImageLoaded(false);
 
       try {
-        const response = await fetch(`/api/item/${selectedItemId}`);
+        const response = await fetch(`/api/item/${encodeURIComponent(selectedItemId)}`);
         if (!response.ok) {
           if (response.status === 404) {
             setError("Item not found");
@@ -137,22 +184,24 @@ export function ItemDrawer() {
     fetchItem();
   }, [selectedItemId]);
 
-  // Preload first pages when item with viewable content is loaded
+  // Preload first pages of the selected source
+  const selectedSourceUrl = selectedSource?.url;
+  const selectedSourceType = selectedSource?.type;
   useEffect(() => {
-    if (!item?.documentSource) return;
+    if (!selectedSourceUrl) return;
 
     // Preload IIIF manifest and first 4 pages
-    if (item.documentSource.type === "iiif") {
+    if (selectedSourceType === "iiif") {
       // Small delay to not interfere with drawer animation
       const timer = setTimeout(() => {
-        preloadIIIFManifest(item.documentSource!.url, 4);
+        preloadIIIFManifest(selectedSourceUrl, 4);
       }, 500);
       return () => clearTimeout(timer);
     }
     
     // For PDFs, we can't easily preload pages without loading the whole PDF
     // The PDF viewer will handle its own preloading
-  }, [item?.documentSource]);
+  }, [selectedSourceUrl, selectedSourceType]);
 
   // Close on Escape key
   useEffect(() => {
@@ -300,11 +349,18 @@ export function ItemDrawer() {
 
                 {/* Meta row */}
                 <div className="flex flex-wrap gap-2 text-sm" style={{ color: "#666" }}>
-                  {item.year && <span>{item.year}</span>}
+                  {item.year && <span>{item.dateDisplay ?? item.year}</span>}
                   {item.year && item.type && <span>·</span>}
                   {item.type && <span className="capitalize">{item.type}</span>}
                   {(item.year || item.type) && item.language && <span>·</span>}
-                  {item.language && <span className="uppercase">{item.language}</span>}
+                  {item.language && (
+                    <span
+                      className="uppercase"
+                      title={item.languageInferred ? "Detected from the script, not catalogued" : undefined}
+                    >
+                      {item.language}
+                    </span>
+                  )}
                 </div>
 
                 {/* Authors */}
@@ -313,7 +369,19 @@ export function ItemDrawer() {
                     <p className="text-xs uppercase tracking-wider mb-1" style={{ color: "#444" }}>
                       Author
                     </p>
-                    <p style={{ color: "#999" }}>{item.authors.join(", ")}</p>
+                    <p style={{ color: "#999" }}>
+                      {item.authors.map((author, index) => (
+                        <span key={author}>
+                          {index > 0 && ", "}
+                          <Link
+                            href={getAuthorHref(author)}
+                            className="underline-offset-4 hover:underline hover:text-white"
+                          >
+                            {author}
+                          </Link>
+                        </span>
+                      ))}
+                    </p>
                   </div>
                 )}
 
@@ -327,6 +395,28 @@ export function ItemDrawer() {
                   </div>
                 )}
 
+                {/* Subjects */}
+                {item.subjects && item.subjects.length > 0 && (
+                  <div>
+                    <p className="text-xs uppercase tracking-wider mb-2" style={{ color: "#444" }}>
+                      Subjects
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {item.subjects.map((subject) => (
+                        <button
+                          key={subject}
+                          onClick={() => handleSubjectClick(subject)}
+                          className="px-2.5 py-1 rounded-full text-xs transition-colors hover:bg-white/10 hover:text-white"
+                          style={{ color: "#999", border: "1px solid rgba(255,255,255,0.1)" }}
+                          title={`Show records about ${subject}`}
+                        >
+                          {subject}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Description */}
                 {item.description && (
                   <div>
@@ -338,6 +428,45 @@ export function ItemDrawer() {
                     </p>
                   </div>
                 )}
+
+                {/* More like this */}
+                {relatedItems.length > 0 && (
+                  <div>
+                    <p className="text-xs uppercase tracking-wider mb-2" style={{ color: "#444" }}>
+                      More like this
+                    </p>
+                    <div className="flex gap-3 overflow-x-auto pb-2 -mx-6 px-6">
+                      {relatedItems.map((related) => (
+                        <button
+                          key={related.id}
+                          onClick={() => handleRelatedClick(related.id)}
+                          className="flex-shrink-0 w-24 text-left group"
+                          title={related.title}
+                        >
+                          <div
+                            className="w-24 h-32 rounded-lg overflow-hidden"
+                            style={{ background: "#1a1a1a" }}
+                          >
+                            {related.thumbnailUrl && (
+                              <img
+                                src={related.thumbnailUrl}
+                                alt={related.title}
+                                loading="lazy"
+                                className="w-full h-full object-cover transition-opacity group-hover:opacity-80"
+                              />
+                            )}
+                          </div>
+                          <p className="mt-1.5 text-xs leading-snug line-clamp-2" style={{ color: "#999" }}>
+                            {related.title}
+                          </p>
+                          {related.year && (
+                            <p className="text-xs" style={{ color: "#555" }}>{related.dateDisplay ?? related.year}</p>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </>
           )}
@@ -349,6 +478,34 @@ export function ItemDrawer() {
             className={`p-6 space-y-3 ${isMobile ? "pt-4 safe-area-bottom" : "pt-0"}`}
             style={isMobile ? { boxShadow: "0 -12px 24px -12px rgba(0,0,0,0.8)" } : undefined}
           >
+            {/* Volume / format picker */}
+            {item && documentSources.length > 1 && (
+              <div>
+                <p className="text-xs uppercase tracking-wider mb-2" style={{ color: "#444" }}>
+                  Volumes & formats
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {documentSources.map((source, index) => (
+                    <button
+                      key={source.url}
+                      onClick={() => setPickedSource({ itemId: item.id, index })}
+                      className={`px-2.5 py-1 rounded-full text-xs transition-colors ${
+                        index === sourceIndex ? "" : "hover:bg-white/10 hover:text-white"
+                      }`}
+                      style={
+                        index === sourceIndex
+                          ? { background: "white", color: "black", border: "1px solid white" }
+                          : { color: "#999", border: "1px solid rgba(255,255,255,0.1)" }
+                      }
+                      aria-pressed={index === sourceIndex}
+                    >
+                      {getDocumentSourceLabel(source)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Mobile: gpura.org first, then Read Document */}
             {isMobile ? (
               <>
@@ -377,10 +534,20 @@ export function ItemDrawer() {
                     className="flex items-center justify-center gap-2 w-full py-3.5 rounded-xl font-medium text-sm transition-all active:scale-[0.98]"
                     style={{ background: "white", color: "black" }}
                   >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                    </svg>
-                    <span>Read Document</span>
+                    {isPlayable ? (
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M8 5.14v13.72a1 1 0 001.52.85l11.03-6.86a1 1 0 000-1.7L9.52 4.29A1 1 0 008 5.14z" />
+                      </svg>
+                    ) : selectedSource?.type === "image" ? (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+                      </svg>
+                    ) : (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                      </svg>
+                    )}
+                    <span>{getOpenSourceLabel(selectedSource)}</span>
                   </button>
                 )}
               </>
@@ -393,10 +560,20 @@ export function ItemDrawer() {
                     className="flex items-center justify-center gap-2 w-full py-3 rounded-full font-medium text-sm transition-all hover:scale-[1.02] active:scale-[0.98]"
                     style={{ background: "white", color: "black" }}
                   >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                    </svg>
-                    <span>Read Document</span>
+                    {isPlayable ? (
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M8 5.14v13.72a1 1 0 001.52.85l11.03-6.86a1 1 0 000-1.7L9.52 4.29A1 1 0 008 5.14z" />
+                      </svg>
+                    ) : selectedSource?.type === "image" ? (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+                      </svg>
+                    ) : (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                      </svg>
+                    )}
+                    <span>{getOpenSourceLabel(selectedSource)}</span>
                   </button>
                 )}
 
@@ -0,0 +1,206 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { useViewerStore } from "@/store/viewer-store";
+import { getDocumentSourceLabel } from "@/lib/document-sources";
+import { formatTimestamp, getChapterIndex } from "@/lib/media-time";
+import type { DocumentSource } from "@/lib/types";
+
+interface MediaPlayerProps {
+  source: DocumentSource;
+  tracks: DocumentSource[]; // Every recording of the item, in order
+  title: string;
+  isMobile: boolean;
+  onSelectTrack: (source: DocumentSource) => void;
+}
+
+/**
+ * Audio and video player with the item's track list and the current track's chapters
+ */
+export function MediaPlayer({ source, tracks, title, isMobile, onSelectTrack }: MediaPlayerProps) {
+  const { currentTime, setCurrentTime } = useViewerStore();
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  // Remembered per URL, so switching tracks clears them without an effect
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const [autoPlayUrl, setAutoPlayUrl] = useState<string | null>(null);
+
+  const chapters = source.chapters ?? [];
+  const chapterIndex = getChapterIndex(chapters, currentTime);
+  const trackIndex = tracks.findIndex((track) => track.url === source.url);
+  const hasTrackList = tracks.length > 1;
+  const showSidebar = hasTrackList || chapters.length > 0;
+  const isVideo = source.type === "video";
+
+  const setMediaRef = useCallback((element: HTMLMediaElement | null) => {
+    mediaRef.current = element;
+  }, []);
+
+  // Start at a deep-linked timestamp once the duration is known
+  const handleLoadedMetadata = useCallback(() => {
+    const media = mediaRef.current;
+    const start = useViewerStore.getState().currentTime;
+    if (!media || start <= 0) return;
+    if (!Number.isFinite(media.duration) || start < media.duration) {
+      media.currentTime = start;
+    }
+  }, []);
+
+  const handleTimeUpdate = useCallback(() => {
+    if (mediaRef.current) {
+      setCurrentTime(mediaRef.current.currentTime);
+    }
+  }, [setCurrentTime]);
+
+  const selectTrack = useCallback(
+    (track: DocumentSource) => {
+      setAutoPlayUrl(track.url);
+      onSelectTrack(track);
+    },
+    [onSelectTrack]
+  );
+
+  // Continue with the next track, like a record side
+  const handleEnded = useCallback(() => {
+    const next = tracks[trackIndex + 1];
+    if (next) selectTrack(next);
+  }, [tracks, trackIndex, selectTrack]);
+
+  const seekTo = useCallback(
+    (seconds: number) => {
+      const media = mediaRef.current;
+      if (!media) return;
+      media.currentTime = seconds;
+      setCurrentTime(seconds);
+      media.play().catch(() => {
+        // Autoplay blocked; the position is still set
+      });
+    },
+    [setCurrentTime]
+  );
+
+  const mediaProps = {
+    key: source.url,
+    controls: true,
+    preload: "metadata",
+    autoPlay: autoPlayUrl === source.url,
+    onLoadedMetadata: handleLoadedMetadata,
+    onTimeUpdate: handleTimeUpdate,
+    onEnded: handleEnded,
+    onError: () => setFailedUrl(source.url),
+  } as const;
+
+  const sourceElement = <source src={source.url} type={source.mimeType || undefined} />;
+
+  return (
+    <div className={`absolute inset-0 flex ${isMobile ? "flex-col" : "flex-row"}`}>
+      {/* Player */}
+      <div className="flex-1 min-h-0 flex flex-col items-center justify-center gap-4 p-4 md:p-8">
+        {failedUrl === source.url ? (
+          <div className="flex flex-col items-center gap-2 text-center">
+            <p className="font-medium">Unable to play this recording</p>
+            <p className="text-sm" style={{ color: "#666" }}>
+              Your browser may not support its format. Try opening it on gpura.org.
+            </p>
+          </div>
+        ) : isVideo ? (
+          <video
+            {...mediaProps}
+            ref={setMediaRef}
+            poster={source.posterUrl || undefined}
+            playsInline
+            className="max-w-full max-h-full rounded-lg"
+            style={{ background: "#000" }}
+          >
+            {sourceElement}
+          </video>
+        ) : (
+          <>
+            {source.posterUrl ? (
+              <img
+                src={source.posterUrl}
+                alt={title}
+                className="max-w-full min-h-0 flex-1 object-contain rounded-lg"
+                style={{ maxHeight: isMobile ? "40vh" : "60vh" }}
+                draggable={false}
+              />
+            ) : (
+              <svg className="w-24 h-24" style={{ color: "#333" }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+              </svg>
+            )}
+            {hasTrackList && (
+              <p className="text-sm truncate max-w-full" style={{ color: "#999" }}>
+                {getDocumentSourceLabel(source)}
+              </p>
+            )}
+            <audio {...mediaProps} ref={setMediaRef} className="w-full max-w-xl shrink-0">
+              {sourceElement}
+            </audio>
+          </>
+        )}
+      </div>
+
+      {/* Tracks and chapters */}
+      {showSidebar && (
+        <aside
+          className={`shrink-0 overflow-y-auto ${
+            isMobile ? "max-h-[40%] border-t safe-area-bottom" : "w-72 border-l"
+          }`}
+          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+        >
+          {hasTrackList && (
+            <section className="p-4">
+              <p className="text-xs uppercase tracking-wider mb-2" style={{ color: "#444" }}>
+                Tracks
+              </p>
+              <ol className="space-y-0.5">
+                {tracks.map((track, index) => (
+                  <li key={track.url}>
+                    <button
+                      onClick={() => index !== trackIndex && selectTrack(track)}
+                      className={`w-full flex items-center gap-3 px-2 py-1.5 rounded-lg text-left text-sm transition-colors ${
+                        index === trackIndex ? "bg-white/10 text-white" : "text-white/60 hover:bg-white/5 hover:text-white/80"
+                      }`}
+                      aria-current={index === trackIndex}
+                    >
+                      <span className="w-5 shrink-0 text-xs tabular-nums" style={{ color: "#666" }}>
+                        {index + 1}
+                      </span>
+                      <span className="truncate">{getDocumentSourceLabel(track)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+
+          {chapters.length > 0 && (
+            <section className="p-4">
+              <p className="text-xs uppercase tracking-wider mb-2" style={{ color: "#444" }}>
+                Chapters
+              </p>
+              <ol className="space-y-0.5">
+                {chapters.map((chapter, index) => (
+                  <li key={`${chapter.start}-${chapter.title}`}>
+                    <button
+                      onClick={() => seekTo(chapter.start)}
+                      className={`w-full flex items-center gap-3 px-2 py-1.5 rounded-lg text-left text-sm transition-colors ${
+                        index === chapterIndex ? "bg-white/10 text-white" : "text-white/60 hover:bg-white/5 hover:text-white/80"
+                      }`}
+                      aria-current={index === chapterIndex}
+                    >
+                      <span className="shrink-0 text-xs tabular-nums" style={{ color: "#666" }}>
+                        {formatTimestamp(chapter.start)}
+                      </span>
+                      <span className="truncate">{chapter.title}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+        </aside>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import Link from "next/link";
 import type { ArchiveItem } from "@/lib/types";
 
 function itemMeta(item: ArchiveItem): string {
-  return [item.authors?.[0], item.year, item.type, item.language?.toUpperCase()]
+  return [item.authors?.[0], item.dateDisplay ?? item.year, item.type, item.language?.toUpperCase()]
     .filter(Boolean)
     .join(" · ");
 }
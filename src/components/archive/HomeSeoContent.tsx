@@ -15,7 +15,7 @@ const archiveStats = [
 ];
 
 function formatItemMeta(item: ArchiveItem): string {
-  return [item.authors?.[0], item.year, item.type, item.language?.toUpperCase()]
+  return [item.authors?.[0], item.dateDisplay ?? item.year, item.type, item.language?.toUpperCase()]
     .filter(Boolean)
     .join(" · ");
 }
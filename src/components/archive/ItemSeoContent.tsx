@@ -1,14 +1,33 @@
 import Link from "next/link";
 import { siteConfig } from "@/config/site";
-import type { ItemDetail } from "@/lib/types";
+import {
+  getAuthorHref,
+  getPublisherHref,
+  getSeriesHref,
+  getSubjectHref,
+} from "@/lib/discover-links";
+import { getDocumentSources } from "@/lib/document-sources";
+import { getSeriesId, parseIssueTitle } from "@/lib/series";
+import type { ArchiveItem, ItemDetail } from "@/lib/types";
+import { BrowseItemList } from "./BrowseItemList";
 
 function formatMeta(item: ItemDetail): string {
-  return [item.year, item.type, item.language?.toUpperCase()]
+  return [item.dateDisplay ?? item.year, item.type, item.language?.toUpperCase()]
     .filter(Boolean)
     .join(" · ");
 }
 
-export function ItemSeoContent({ item }: { item: ItemDetail }) {
+export function ItemSeoContent({
+  item,
+  relatedItems = [],
+}: {
+  item: ItemDetail;
+  relatedItems?: ArchiveItem[];
+}) {
+  const seriesId = getSeriesId(item.title, item.type);
+  const seriesTitle = seriesId ? parseIssueTitle(item.title)?.seriesTitle : null;
+  const hasViewer = getDocumentSources(item).length > 0;
+
   return (
     <article className="min-h-screen bg-[#0a0a0a] px-6 py-10 text-white md:px-10 md:py-14">
       <div className="mx-auto flex w-full max-w-6xl flex-col gap-10">
@@ -47,7 +66,7 @@ export function ItemSeoContent({ item }: { item: ItemDetail }) {
                 Granthappura Item
               </p>
               <p className="mt-3 text-sm leading-6 text-white/70">
-                {item.documentSource
+                {hasViewer
                   ? "This page opens the full-screen reader automatically for visitors, while keeping the archival description available in HTML for search engines, citations, and accessibility tools."
                   : "This item does not have a viewable document in the gallery reader yet, but its record and source link remain available here."}
               </p>
@@ -67,7 +86,16 @@ export function ItemSeoContent({ item }: { item: ItemDetail }) {
               {item.authors && item.authors.length > 0 && (
                 <section className="space-y-2">
                   <h2 className="text-xs uppercase tracking-[0.24em] text-white/45">Author</h2>
-                  <p className="text-sm leading-6 text-white/75">{item.authors.join(", ")}</p>
+                  <p className="text-sm leading-6 text-white/75">
+                    {item.authors.map((author, index) => (
+                      <span key={author}>
+                        {index > 0 && ", "}
+                        <Link href={getAuthorHref(author)} className="underline underline-offset-4">
+                          {author}
+                        </Link>
+                      </span>
+                    ))}
+                  </p>
                 </section>
               )}
 
@@ -78,10 +106,25 @@ export function ItemSeoContent({ item }: { item: ItemDetail }) {
                 </section>
               )}
 
+              {seriesId && seriesTitle && (
+                <section className="space-y-2">
+                  <h2 className="text-xs uppercase tracking-[0.24em] text-white/45">Series</h2>
+                  <p className="text-sm leading-6 text-white/75">
+                    <Link href={getSeriesHref(seriesId)} className="underline underline-offset-4">
+                      {seriesTitle}
+                    </Link>
+                  </p>
+                </section>
+              )}
+
               {item.publisher && (
                 <section className="space-y-2">
                   <h2 className="text-xs uppercase tracking-[0.24em] text-white/45">Publisher</h2>
-                  <p className="text-sm leading-6 text-white/75">{item.publisher}</p>
+                  <p className="text-sm leading-6 text-white/75">
+                    <Link href={getPublisherHref(item.publisher)} className="underline underline-offset-4">
+                      {item.publisher}
+                    </Link>
+                  </p>
                 </section>
               )}
 
@@ -105,11 +148,13 @@ export function ItemSeoContent({ item }: { item: ItemDetail }) {
                 <h2 className="text-xl font-semibold">Subjects</h2>
                 <ul className="flex flex-wrap gap-2">
                   {item.subjects.map((subject) => (
-                    <li
-                      key={subject}
-                      className="rounded-full border border-white/10 px-3 py-1.5 text-sm text-white/65"
-                    >
-                      {subject}
+                    <li key={subject}>
+                      <Link
+                        href={getSubjectHref(subject)}
+                        className="block rounded-full border border-white/10 px-3 py-1.5 text-sm text-white/65 transition-colors hover:bg-white/10 hover:text-white"
+                      >
+                        {subject}
+                      </Link>
                     </li>
                   ))}
                 </ul>
@@ -117,7 +162,7 @@ export function ItemSeoContent({ item }: { item: ItemDetail }) {
             )}
 
             <div className="flex flex-wrap gap-3">
-              {item.documentSource && (
+              {hasViewer && (
                 <span className="rounded-full bg-white px-4 py-2 text-sm font-medium text-black">
                   Reader opens automatically in JavaScript-enabled browsers
                 </span>
@@ -141,6 +186,10 @@ export function ItemSeoContent({ item }: { item: ItemDetail }) {
             </div>
           </div>
         </div>
+
+        {relatedItems.length > 0 && (
+          <BrowseItemList heading="More like this" items={relatedItems} />
+        )}
       </div>
     </article>
   );
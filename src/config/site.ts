@@ -3,6 +3,7 @@ export const siteConfig = {
   tagline: "Explore Kerala's digital archive",
   description: "Search through thousands of digitised books, periodicals, and artefacts from Granthappura.",
   organizationName: "Indic Digital Archive Foundation",
+  dataAdapter: "omeka", // Registered adapter name, overridden by DATA_ADAPTER
   links: {
     classicSite: "https://gpura.org",
     github: "https://github.com/laz-aslam/gpura-gallery",
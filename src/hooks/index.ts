@@ -1,5 +1,6 @@
 export { useDeviceType, useIsClient } from "./useDeviceType";
 export { usePageUrlSync } from "./usePageUrlSync";
+export { useSeriesNavigation } from "./useSeriesNavigation";
 
 
 
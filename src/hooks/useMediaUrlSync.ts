@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { usePathname } from "next/navigation";
+
+/**
+ * Syncs the playback position and track of a recording to the browser URL
+ * without triggering navigation, so a copied link resumes at the same moment.
+ * Both are removed when another track or a non-recording source is opened.
+ *
+ * @param currentTime - Playback position in whole seconds
+ * @param track - Current track number among the item's recordings (1-indexed)
+ * @param isActive - Whether the sync should be active (e.g., a recording is open)
+ */
+export function useMediaUrlSync(currentTime: number, track: number, isActive: boolean) {
+  const pathname = usePathname();
+  // Null until a recording is open, so its first position is written as it is
+  const lastRef = useRef<{ currentTime: number; track: number } | null>(null);
+
+  // Effects only run in the browser, so window is always available here
+  useEffect(() => {
+    const currentParams = new URLSearchParams(window.location.search);
+
+    if (!isActive) {
+      lastRef.current = null;
+      if (!currentParams.has("t") && !currentParams.has("track")) return;
+      currentParams.delete("t");
+      currentParams.delete("track");
+      const query = currentParams.toString();
+      window.history.replaceState(null, "", query ? `${pathname}?${query}` : pathname);
+      return;
+    }
+
+    const last = lastRef.current;
+    if (last && currentTime === last.currentTime && track === last.track) return;
+    lastRef.current = { currentTime, track };
+
+    // A position belongs to the track it was reached on
+    const trackChanged = last !== null && track !== last.track;
+    if (currentTime > 0 && !trackChanged) {
+      currentParams.set("t", String(currentTime));
+    } else {
+      currentParams.delete("t");
+    }
+    if (track > 1) {
+      currentParams.set("track", String(track));
+    } else {
+      currentParams.delete("track");
+    }
+
+    const newUrl = currentParams.toString()
+      ? `${pathname}?${currentParams.toString()}`
+      : pathname;
+
+    window.history.replaceState(null, "", newUrl);
+  }, [currentTime, track, isActive, pathname]);
+}
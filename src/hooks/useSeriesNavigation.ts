@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getSeriesId } from "@/lib/series";
+import type { PeriodicalSeries, SeriesIssue } from "@/lib/types";
+
+type SeriesNavigation = {
+  series: PeriodicalSeries | null;
+  previousIssue: SeriesIssue | null;
+  nextIssue: SeriesIssue | null;
+};
+
+const EMPTY: SeriesNavigation = { series: null, previousIssue: null, nextIssue: null };
+
+/**
+ * Neighbouring issues of a periodical item, for previous/next issue controls
+ *
+ * @param itemId - Gallery item ID of the issue being read
+ * @param title - Item title, which names the series
+ * @param itemType - Item type; only periodicals and newspapers belong to a series
+ */
+export function useSeriesNavigation(
+  itemId: string | undefined,
+  title: string,
+  itemType: string | null | undefined
+): SeriesNavigation {
+  // Keyed by item so a stale answer never shows for the next issue opened
+  const [loaded, setLoaded] = useState<{ itemId: string; navigation: SeriesNavigation } | null>(null);
+  const seriesId = itemId ? getSeriesId(title, itemType) : null;
+
+  useEffect(() => {
+    if (!seriesId || !itemId) return;
+
+    let cancelled = false;
+    fetch(`/api/series/${encodeURIComponent(seriesId)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((series: PeriodicalSeries | null) => {
+        if (cancelled || !series) return;
+        const position = series.issues.findIndex((issue) => issue.id === itemId);
+        if (position < 0) return;
+        setLoaded({
+          itemId,
+          navigation: {
+            series,
+            previousIssue: series.issues[position - 1] ?? null,
+            nextIssue: series.issues[position + 1] ?? null,
+          },
+        });
+      })
+      .catch((err) => console.error("Error fetching series:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, seriesId]);
+
+  return seriesId && loaded && loaded.itemId === itemId ? loaded.navigation : EMPTY;
+}
@@ -98,5 +98,8 @@ export const CACHE_HEADERS = {
 
   /** 7 days for static assets like PDFs (they never change) */
   STATIC: "public, max-age=604800",
+
+  /** Responses that improve once a background index is ready */
+  NONE: "no-store",
 } as const;
 
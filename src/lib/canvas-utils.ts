@@ -1,5 +1,5 @@
 import { canvasConfig } from "@/config/site";
-import type { ArchiveItem, CanvasItem, ViewportBounds } from "./types";
+import type { ArchiveItem, CanvasItem, SearchSort, ViewportBounds } from "./types";
 
 const {
   CARD_WIDTH,
@@ -194,6 +194,8 @@ export function hasActiveFilters(filters?: {
   languages?: string[];
   types?: string[];
   collections?: string[];
+  subjects?: string[];
+  publishers?: string[];
   periods?: string[];
   yearMin?: number;
   yearMax?: number;
@@ -204,6 +206,8 @@ export function hasActiveFilters(filters?: {
   if (Array.isArray(filters.languages) && filters.languages.length > 0) return true;
   if (Array.isArray(filters.types) && filters.types.length > 0) return true;
   if (Array.isArray(filters.collections) && filters.collections.length > 0) return true;
+  if (Array.isArray(filters.subjects) && filters.subjects.length > 0) return true;
+  if (Array.isArray(filters.publishers) && filters.publishers.length > 0) return true;
   if (Array.isArray(filters.periods) && filters.periods.length > 0) return true;
   if (typeof filters.yearMin === 'number') return true;
   if (typeof filters.yearMax === 'number') return true;
@@ -211,6 +215,15 @@ export function hasActiveFilters(filters?: {
   return false;
 }
 
+/**
+ * Sort to request for a search: the chosen sort, else best match for text
+ * queries and newest additions otherwise. Relevance needs a query
+ */
+export function resolveSearchSort(query: string, sort: SearchSort | null): SearchSort {
+  if (sort && (sort !== "relevance" || query)) return sort;
+  return query ? "relevance" : "newest";
+}
+
 /**
  * Repack canvas items into a dense grid layout.
  * Used when filters are active to eliminate gaps from empty tiles.
@@ -0,0 +1,26 @@
+import { toSlug } from "./slug";
+import type { ArchiveCollection } from "./types";
+
+/**
+ * Paths of the discover landing pages, shared by server pages and client components
+ */
+
+export function getCollectionHref(collection: ArchiveCollection): string {
+  return `/discover/collection/${encodeURIComponent(collection.id)}`;
+}
+
+export function getAuthorHref(name: string): string {
+  return `/discover/author/${encodeURIComponent(toSlug(name))}`;
+}
+
+export function getSubjectHref(name: string): string {
+  return `/discover/subject/${encodeURIComponent(toSlug(name))}`;
+}
+
+export function getPublisherHref(name: string): string {
+  return `/discover/publisher/${encodeURIComponent(toSlug(name))}`;
+}
+
+export function getSeriesHref(id: string): string {
+  return `/discover/series/${encodeURIComponent(id)}`;
+}
@@ -0,0 +1,115 @@
+import { getImageServiceUrl } from "@/lib/iiif-image";
+import type { DocumentSource, ItemDetail, MediaFile } from "@/lib/types";
+
+/**
+ * Viewable sources of an item: volumes of a multi-volume record, the same
+ * work as a PDF and as scanned pages, the tracks of a recording, or a single image
+ */
+
+const FORMAT_LABELS: Record<DocumentSource["type"], string> = {
+  iiif: "Scanned pages",
+  pdf: "PDF",
+  audio: "Audio",
+  video: "Video",
+  image: "Image",
+};
+
+// Numbered label for one of several unnamed sources of a format
+const PART_LABELS: Record<DocumentSource["type"], string> = {
+  iiif: "Volume",
+  pdf: "Volume",
+  audio: "Track",
+  video: "Part",
+  image: "Image",
+};
+
+/**
+ * Item types whose single image is worth opening on its own in the zoom viewer
+ */
+export const ZOOMABLE_TYPES = ["image", "map", "manuscript"];
+
+/**
+ * Every source of an item; records from older snapshots only carry `documentSource`,
+ * and images, maps and manuscripts with no document fall back to their full image
+ */
+export function getDocumentSources(
+  item: Pick<ItemDetail, "documentSource" | "documentSources" | "type" | "fullImageUrl">
+): DocumentSource[] {
+  if (item.documentSources?.length) return item.documentSources;
+  if (item.documentSource) return [item.documentSource];
+
+  if (item.fullImageUrl && item.type && ZOOMABLE_TYPES.includes(item.type)) {
+    return [
+      { type: "image", url: item.fullImageUrl, imageService: getImageServiceUrl(item.fullImageUrl) },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Audio and video sources play in the media player rather than the page reader
+ */
+export function isPlayableSource(source: DocumentSource): source is DocumentSource & {
+  type: "audio" | "video";
+} {
+  return source.type === "audio" || source.type === "video";
+}
+
+/**
+ * Playable source for an audio or video media file
+ */
+export function getPlayableSource(media: MediaFile): DocumentSource | null {
+  if (media.type !== "audio" && media.type !== "video") return null;
+  return {
+    type: media.type,
+    url: media.url,
+    label: media.title || null,
+    mimeType: media.mimeType || null,
+    posterUrl: media.thumbnailUrl || null,
+  };
+}
+
+/**
+ * Picker label for a source
+ */
+export function getDocumentSourceLabel(source: DocumentSource): string {
+  return source.label || FORMAT_LABELS[source.type];
+}
+
+/**
+ * Label of the button that opens a source
+ */
+export function getOpenSourceLabel(source: DocumentSource | null): string {
+  switch (source?.type) {
+    case "audio":
+      return "Play Recording";
+    case "video":
+      return "Play Video";
+    case "image":
+      return "View Image";
+    default:
+      return "Read Document";
+  }
+}
+
+/**
+ * Drop repeated URLs and label unnamed sources: "Volume n" or "Track n" when an item
+ * has several of one format, otherwise the format name
+ */
+export function labelDocumentSources(sources: DocumentSource[]): DocumentSource[] {
+  const unique = sources.filter(
+    (source, index) => sources.findIndex((other) => other.url === source.url) === index
+  );
+
+  return unique.map((source) => {
+    if (source.label) return source;
+    const sameFormat = unique.filter((other) => other.type === source.type);
+    return {
+      ...source,
+      label:
+        sameFormat.length > 1
+          ? `${PART_LABELS[source.type]} ${sameFormat.indexOf(source) + 1}`
+          : FORMAT_LABELS[source.type],
+    };
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * IIIF Image API: service detection, info.json parsing and tile requests
+ * Image requests look like {base}/{region}/{size}/{rotation}/{quality}.{format}
+ */
+
+export type ImageServiceInfo = {
+  width: number;
+  height: number;
+  tileWidth: number | null; // null when the service offers no tiles
+  tileHeight: number | null;
+  scaleFactors: number[]; // Ascending; 1 is full resolution
+};
+
+export type ImageTile = {
+  key: string;
+  url: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export type ImageView = {
+  scale: number; // Screen pixels per image pixel
+  x: number; // Screen position of the image's top-left corner
+  y: number;
+};
+
+const IMAGE_REQUEST_PATTERN =
+  /^(https?:\/\/.+?)\/(?:full|square|\d+,\d+,\d+,\d+|pct:[\d.]+,[\d.]+,[\d.]+,[\d.]+)\/(?:full|max|\^?!?\d*,\d*|\^?pct:[\d.]+|\^?max)\/!?\d+(?:\.\d+)?\/(?:default|color|gray|bitonal|native)\.\w+$/i;
+
+// Low-resolution layer drawn under the tiles while they load
+export const BASE_LAYER_WIDTH = 1024;
+
+/**
+ * Image service base URL from an info.json or image request URL, or null for plain images
+ */
+export function getImageServiceUrl(url?: string | null): string | null {
+  if (!url) return null;
+  const infoMatch = /^(https?:\/\/.+)\/info\.json$/i.exec(url);
+  if (infoMatch) return infoMatch[1];
+  return IMAGE_REQUEST_PATTERN.exec(url)?.[1] ?? null;
+}
+
+/**
+ * Dimensions and tiling of a version 2 or 3 info.json
+ */
+export function parseImageServiceInfo(info: unknown): ImageServiceInfo | null {
+  if (typeof info !== "object" || info === null) return null;
+  const { width, height, tiles } = info as {
+    width?: unknown;
+    height?: unknown;
+    tiles?: Array<{ width?: number; height?: number; scaleFactors?: number[] }>;
+  };
+  if (typeof width !== "number" || typeof height !== "number" || width <= 0 || height <= 0) {
+    return null;
+  }
+
+  const tile = Array.isArray(tiles) ? tiles.find((entry) => typeof entry?.width === "number") : undefined;
+  const scaleFactors = (tile?.scaleFactors ?? [1])
+    .filter((factor) => Number.isInteger(factor) && factor >= 1)
+    .sort((a, b) => a - b);
+
+  return {
+    width,
+    height,
+    tileWidth: tile?.width ?? null,
+    tileHeight: tile ? (tile.height ?? tile.width ?? null) : null,
+    scaleFactors: scaleFactors.length > 0 ? scaleFactors : [1],
+  };
+}
+
+/**
+ * Whole image at a given width
+ */
+export function getScaledImageUrl(service: string, width: number): string {
+  return `${service}/full/${Math.max(1, Math.round(width))},/0/default.jpg`;
+}
+
+/**
+ * Tiles covering the visible part of the image at the resolution the view needs
+ * Empty when the base layer is already sharp enough, or the service has no tiles
+ */
+export function getVisibleTiles(
+  service: string,
+  info: ImageServiceInfo,
+  view: ImageView,
+  viewport: { width: number; height: number },
+  pixelRatio = 1
+): ImageTile[] {
+  if (!info.tileWidth || !info.tileHeight) return [];
+
+  const displayedWidth = info.width * view.scale * pixelRatio;
+  if (displayedWidth <= Math.min(info.width, BASE_LAYER_WIDTH)) return [];
+
+  // Coarsest level that still gives one image pixel per device pixel
+  const target = 1 / (view.scale * pixelRatio);
+  const factor = info.scaleFactors.filter((candidate) => candidate <= target).pop() ?? info.scaleFactors[0];
+  const regionWidth = info.tileWidth * factor;
+  const regionHeight = info.tileHeight * factor;
+
+  const left = Math.max(0, -view.x / view.scale);
+  const top = Math.max(0, -view.y / view.scale);
+  const right = Math.min(info.width, (viewport.width - view.x) / view.scale);
+  const bottom = Math.min(info.height, (viewport.height - view.y) / view.scale);
+  if (right <= left || bottom <= top) return [];
+
+  const tiles: ImageTile[] = [];
+  for (let row = Math.floor(top / regionHeight); row * regionHeight < bottom; row++) {
+    for (let column = Math.floor(left / regionWidth); column * regionWidth < right; column++) {
+      const x = column * regionWidth;
+      const y = row * regionHeight;
+      const width = Math.min(regionWidth, info.width - x);
+      const height = Math.min(regionHeight, info.height - y);
+
+      tiles.push({
+        key: `${factor}/${column}/${row}`,
+        url: `${service}/${x},${y},${width},${height}/${Math.ceil(width / factor)},/0/default.jpg`,
+        left: view.x + x * view.scale,
+        top: view.y + y * view.scale,
+        width: width * view.scale,
+        height: height * view.scale,
+      });
+    }
+  }
+
+  return tiles;
+}
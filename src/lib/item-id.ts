@@ -0,0 +1,52 @@
+/**
+ * Item ID helpers
+ * Plain IDs ("1234") come from a single archive; federated IDs carry a
+ * source namespace ("gpura:1234") so items from several archives can share routes
+ */
+
+const ITEM_ID_PATTERN = /^(?:[a-z][a-z0-9-]*:)?\d+$/;
+
+export type ParsedItemId = {
+  namespace: string | null;
+  localId: string;
+};
+
+/**
+ * Check whether a route segment looks like an item ID
+ */
+export function isValidItemId(id: string): boolean {
+  return ITEM_ID_PATTERN.test(id);
+}
+
+/**
+ * Decode a dynamic route segment ("gpura%3A1234" -> "gpura:1234")
+ */
+export function decodeItemIdParam(id: string): string {
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+}
+
+/**
+ * Split a namespaced ID into its source namespace and the source's own ID
+ */
+export function parseItemId(id: string): ParsedItemId {
+  const separator = id.indexOf(":");
+  if (separator === -1) {
+    return { namespace: null, localId: id };
+  }
+
+  return {
+    namespace: id.slice(0, separator),
+    localId: id.slice(separator + 1),
+  };
+}
+
+/**
+ * Prefix a source's item ID with its namespace
+ */
+export function formatItemId(namespace: string, localId: string): string {
+  return `${namespace}:${localId}`;
+}
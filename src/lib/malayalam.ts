@@ -0,0 +1,91 @@
+/**
+ * Malayalam Unicode normalisation
+ * Catalogue metadata was typed over decades of input methods, so one title can be
+ * stored as old-style chillu (consonant + virama + ZWJ), atomic chillu, with stray
+ * joiners, or in traditional rather than reformed orthography. Index text and
+ * queries both go through normalizeMalayalam so every form compares equal.
+ */
+
+const VIRAMA = "\u0D4D";
+const ZWJ = "\u200D";
+
+/**
+ * Consonants whose virama + ZWJ form is a chillu, mapped to the atomic chillu (Unicode 5.1+)
+ */
+const CHILLU_BY_CONSONANT: Record<string, string> = {
+  "ണ": "ൺ",
+  "ന": "ൻ",
+  "ര": "ർ",
+  "ല": "ൽ",
+  "ള": "ൾ",
+  "ക": "ൿ",
+  "യ": "ൕ",
+  "ഴ": "ൖ",
+};
+
+const OLD_STYLE_CHILLU = new RegExp(
+  `([${Object.keys(CHILLU_BY_CONSONANT).join("")}])${VIRAMA}${ZWJ}`,
+  "g"
+);
+
+const ATOMIC_CHILLU = new RegExp(`[${Object.values(CHILLU_BY_CONSONANT).join("")}]`, "g");
+
+const CONSONANT_BY_CHILLU = Object.fromEntries(
+  Object.entries(CHILLU_BY_CONSONANT).map(([consonant, chillu]) => [chillu, consonant])
+);
+
+// Zero-width joiners and non-joiners, zero-width space, soft hyphen and BOM
+const INVISIBLE_CHARACTERS = /[\u200B-\u200D\u00AD\uFEFF]/g;
+
+const MALAYALAM_PATTERN = /[\u0D00-\u0D7F]/;
+
+/**
+ * Traditional-orthography spellings mapped to their reformed equivalents
+ */
+const ORTHOGRAPHY_REPLACEMENTS: Array<[RegExp, string]> = [
+  // Dot reph (കാൎത്തിക) is written as chillu rr in reformed script (കാർത്തിക)
+  [/ൎ/g, "ർ"],
+  // Old AU sign (ൌ) -> AU length mark (ൗ)
+  [/ൌ/g, "ൗ"],
+  // Word-final samvruthokaram written with the u sign (അവനു്) -> bare virama (അവന്);
+  // mid-word, as in compounds (അതു്കൊണ്ട്), the sequence is left as written
+  [/ു്(?![\u0D00-\u0D7F])/g, VIRAMA],
+  // Archaic vowel letter II
+  [/ൟ/g, "ഈ"],
+];
+
+/**
+ * Check whether text contains Malayalam script
+ */
+export function hasMalayalamText(text: string): boolean {
+  return MALAYALAM_PATTERN.test(text);
+}
+
+/**
+ * Normalise Malayalam text to NFC, atomic chillu, reformed orthography and no joiners
+ * Non-Malayalam text only goes through NFC
+ */
+export function normalizeMalayalam(text: string): string {
+  const composed = text.normalize("NFC");
+  if (!hasMalayalamText(composed)) {
+    return composed;
+  }
+
+  let normalized = composed.replace(
+    OLD_STYLE_CHILLU,
+    (_, consonant: string) => CHILLU_BY_CONSONANT[consonant]
+  );
+
+  for (const [pattern, replacement] of ORTHOGRAPHY_REPLACEMENTS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized.replace(INVISIBLE_CHARACTERS, "").normalize("NFC");
+}
+
+/**
+ * Rewrite atomic chillu as old-style sequences, for backends that store them that way
+ */
+export function toOldStyleChillu(text: string): string {
+  return text.replace(ATOMIC_CHILLU, (chillu) => `${CONSONANT_BY_CHILLU[chillu]}${VIRAMA}${ZWJ}`);
+}
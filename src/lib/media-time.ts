@@ -0,0 +1,76 @@
+import type { MediaChapter } from "@/lib/types";
+
+/**
+ * Timestamps for audio and video: deep-link values and chapter lists
+ */
+
+const CLOCK_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/;
+const UNITS_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s?)?$/i;
+
+// "00:00 Invocation", "[1:02:15] - Second act", "12:30 – Discussion"
+const CHAPTER_LINE_PATTERN = /^\s*[[(]?((?:\d+:)?\d{1,2}:\d{2})[\])]?\s*[-–—:.)|]?\s*(.+?)\s*$/u;
+
+/**
+ * Seconds from a deep-link value: "95", "95s", "1:35", "1:02:03" or "1h2m3s"
+ */
+export function parseTimestamp(value?: string | null): number | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  const clock = CLOCK_PATTERN.exec(text);
+  if (clock) {
+    const [, hours, minutes, seconds] = clock;
+    return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  const units = UNITS_PATTERN.exec(text);
+  if (units && (units[1] || units[2] || units[3])) {
+    const [, hours, minutes, seconds] = units;
+    return Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Math.floor(Number(seconds ?? 0));
+  }
+
+  return null;
+}
+
+/**
+ * "1:35", or "1:02:03" past the hour
+ */
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
+
+/**
+ * Chapters from a description or table of contents with one timestamped line per chapter
+ * Returns an empty list unless at least two lines give ascending timestamps
+ */
+export function parseChapters(text?: string | null): MediaChapter[] {
+  if (!text) return [];
+
+  const chapters: MediaChapter[] = [];
+  for (const line of text.split(/\r?\n|\s+(?=[[(]?(?:\d+:)?\d{1,2}:\d{2}[\])]?\s)/u)) {
+    const match = CHAPTER_LINE_PATTERN.exec(line);
+    if (!match) continue;
+
+    const start = parseTimestamp(match[1]);
+    const previous = chapters[chapters.length - 1];
+    if (start === null || (previous && start <= previous.start)) continue;
+    chapters.push({ title: match[2], start });
+  }
+
+  return chapters.length >= 2 ? chapters : [];
+}
+
+/**
+ * Index of the chapter playing at `time`, or -1 before the first
+ */
+export function getChapterIndex(chapters: MediaChapter[], time: number): number {
+  let index = -1;
+  for (let i = 0; i < chapters.length && chapters[i].start <= time; i++) {
+    index = i;
+  }
+  return index;
+}
@@ -0,0 +1,209 @@
+import { normalizeMalayalam } from "./malayalam";
+import { toSlug } from "./slug";
+
+/**
+ * Periodical series from issue titles
+ * Issues are catalogued as separate items titled "<series> <date> <volume> <issue>",
+ * e.g. "ഭാഷാപോഷിണി 1898 ജൂൺ പുസ്തകം 2 ലക്കം 3", "Kerala Review vol. 4 no. 12"
+ * or "Kerala Kaumudi 12-03-1925".
+ * Everything before the first issue marker is the series title.
+ */
+
+export type IssueMarkers = {
+  seriesTitle: string;
+  volume: number | null;
+  issue: number | null;
+  year: number | null;
+  month: number | null; // 1-12
+  day: number | null;
+};
+
+/**
+ * Item types catalogued one issue per item
+ */
+export const SERIES_TYPES = ["periodical", "newspaper"];
+
+const MALAYALAM_DIGITS = "൦൧൨൩൪൫൬൭൮൯";
+const NUMBER = `[0-9${MALAYALAM_DIGITS}]+`;
+
+const VOLUME_PATTERN = new RegExp(
+  `(?:പുസ്തകം|വാല്യം|വോള്യം|\\bvol(?:ume)?\\b\\.?|\\bbook\\b)\\s*[:.\\-]?\\s*(${NUMBER}|[ivxlc]+\\b)`,
+  "iu"
+);
+const ISSUE_PATTERN = new RegExp(
+  `(?:ലക്കം|\\bno\\b\\.?|\\bnumber\\b|\\bissue\\b)\\s*[:.\\-]?\\s*(${NUMBER})`,
+  "iu"
+);
+const YEAR_PATTERN = /(?<![0-9])(1[6-9][0-9]{2}|20[0-9]{2})(?![0-9])/u;
+// Numeric dates of daily issues: 1925-03-12, or day first as 12-03-1925, 12.03.1925 or 12/03/1925
+const ISO_DATE_PATTERN = /(?<![0-9])(1[6-9][0-9]{2}|20[0-9]{2})[-./]([0-9]{1,2})[-./]([0-9]{1,2})(?![0-9])/u;
+const DAY_FIRST_DATE_PATTERN =
+  /(?<![0-9])([0-9]{1,2})[-./]([0-9]{1,2})[-./](1[6-9][0-9]{2}|20[0-9]{2})(?![0-9])/u;
+
+// English names and abbreviations, then Malayalam spellings of the Gregorian months
+const MONTH_NAMES: string[][] = [
+  ["january", "jan", "ജനുവരി"],
+  ["february", "feb", "ഫെബ്രുവരി"],
+  ["march", "mar", "മാർച്ച്"],
+  ["april", "apr", "ഏപ്രിൽ"],
+  ["may", "മേയ്", "മെയ്"],
+  ["june", "jun", "ജൂൺ"],
+  ["july", "jul", "ജൂലൈ"],
+  ["august", "aug", "ഓഗസ്റ്റ്", "ആഗസ്റ്റ്"],
+  ["september", "sept", "sep", "സെപ്റ്റംബർ", "സെപ്തംബർ"],
+  ["october", "oct", "ഒക്ടോബർ"],
+  ["november", "nov", "നവംബർ"],
+  ["december", "dec", "ഡിസംബർ"],
+];
+
+const MONTH_BY_NAME = new Map(
+  MONTH_NAMES.flatMap((names, index) => names.map((name) => [name, index + 1] as const))
+);
+
+// Month names only count next to a day or year, so "Mar Thoma" stays in the title
+const MONTH_NAME = `(?<![\\p{L}\\p{M}])(${Array.from(MONTH_BY_NAME.keys())
+  .sort((a, b) => b.length - a.length)
+  .join("|")})\\.?(?![\\p{L}\\p{M}])`;
+const MONTH_PATTERN = new RegExp(
+  `(?<![0-9])(?:([0-9]{1,4})[\\s,]*)?${MONTH_NAME}(?:[\\s,]*([0-9]{1,4})(?![0-9]))?`,
+  "giu"
+);
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+
+function parseNumber(text: string): number | null {
+  const digits = Array.from(text, (char) => {
+    const malayalam = MALAYALAM_DIGITS.indexOf(char);
+    return malayalam >= 0 ? String(malayalam) : char;
+  }).join("");
+
+  if (/^[0-9]+$/.test(digits)) {
+    return Number.parseInt(digits, 10);
+  }
+
+  // Roman volume numbers: each symbol adds, or subtracts when a larger one follows
+  const values = Array.from(digits.toLowerCase(), (char) => ROMAN_VALUES[char]);
+  if (values.length === 0 || values.some((value) => value === undefined)) {
+    return null;
+  }
+  return values.reduce(
+    (total, value, index) => total + (value < (values[index + 1] ?? 0) ? -value : value),
+    0
+  );
+}
+
+/**
+ * First month name beside a number; a one- or two-digit neighbour is the day
+ */
+function findMonth(text: string): { index: number; month: number; day: number | null } | null {
+  for (const match of text.matchAll(MONTH_PATTERN)) {
+    const [, before, name, after] = match;
+    if (!before && !after) continue;
+
+    const day = [after, before].find((number) => number && number.length <= 2);
+    const dayNumber = day ? Number.parseInt(day, 10) : NaN;
+    return {
+      index: match.index,
+      month: MONTH_BY_NAME.get(name.toLowerCase()) ?? 1,
+      day: dayNumber >= 1 && dayNumber <= 31 ? dayNumber : null,
+    };
+  }
+  return null;
+}
+
+/**
+ * First all-numeric date, year first or day first
+ */
+function findNumericDate(
+  text: string
+): { index: number; year: number; month: number; day: number } | null {
+  const isoMatch = ISO_DATE_PATTERN.exec(text);
+  const dayFirstMatch = DAY_FIRST_DATE_PATTERN.exec(text);
+  const dates = [
+    isoMatch && { index: isoMatch.index, year: isoMatch[1], month: isoMatch[2], day: isoMatch[3] },
+    dayFirstMatch && {
+      index: dayFirstMatch.index,
+      year: dayFirstMatch[3],
+      month: dayFirstMatch[2],
+      day: dayFirstMatch[1],
+    },
+  ]
+    .filter((date) => date !== null)
+    .map((date) => ({
+      index: date.index,
+      year: Number.parseInt(date.year, 10),
+      month: Number.parseInt(date.month, 10),
+      day: Number.parseInt(date.day, 10),
+    }))
+    .filter((date) => date.month >= 1 && date.month <= 12 && date.day >= 1 && date.day <= 31)
+    .sort((a, b) => a.index - b.index);
+
+  return dates[0] ?? null;
+}
+
+/**
+ * Split an issue title into its series title and issue markers
+ * Returns null for titles with no date, volume or issue number
+ */
+export function parseIssueTitle(title: string): IssueMarkers | null {
+  const text = normalizeMalayalam(title);
+  const volumeMatch = VOLUME_PATTERN.exec(text);
+  const issueMatch = ISSUE_PATTERN.exec(text);
+  const yearMatch = YEAR_PATTERN.exec(text);
+  const monthMatch = findMonth(text);
+  const numericDate = findNumericDate(text);
+
+  const matches = [volumeMatch, issueMatch, yearMatch, monthMatch, numericDate].filter(
+    (match) => match !== null
+  );
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const start = Math.min(...matches.map((match) => match.index));
+  const seriesTitle = text.slice(0, start).replace(/[\s,.:;|()[\]\-–—]+$/u, "").trim();
+  if (!toSlug(seriesTitle)) {
+    return null;
+  }
+
+  return {
+    seriesTitle,
+    volume: volumeMatch ? parseNumber(volumeMatch[1]) : null,
+    issue: issueMatch ? parseNumber(issueMatch[1]) : null,
+    year: numericDate?.year ?? (yearMatch ? Number.parseInt(yearMatch[1], 10) : null),
+    month: numericDate?.month ?? monthMatch?.month ?? null,
+    day: numericDate?.day ?? monthMatch?.day ?? null,
+  };
+}
+
+/**
+ * Series ID for an item, or null when it is not an issue of a periodical
+ */
+export function getSeriesId(title: string, type?: string | null): string | null {
+  if (!type || !SERIES_TYPES.includes(type)) {
+    return null;
+  }
+  const markers = parseIssueTitle(title);
+  return markers ? toSlug(markers.seriesTitle) : null;
+}
+
+/**
+ * Short issue label, e.g. "Vol. 2 · No. 3 · June 1898"
+ */
+export function formatIssueLabel(markers: Omit<IssueMarkers, "seriesTitle">): string {
+  const date = [
+    markers.day,
+    markers.month ? MONTH_NAMES[markers.month - 1][0].replace(/^./, (c) => c.toUpperCase()) : null,
+    markers.year,
+  ]
+    .filter((part) => part != null)
+    .join(" ");
+
+  return [
+    markers.volume != null ? `Vol. ${markers.volume}` : null,
+    markers.issue != null ? `No. ${markers.issue}` : null,
+    date || null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
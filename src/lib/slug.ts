@@ -0,0 +1,13 @@
+import { normalizeMalayalam } from "./malayalam";
+
+/**
+ * URL slug for a name or title
+ * Keeps letters from any script so Malayalam names stay readable ("ചെമ്മീൻ" -> "ചെമ്മീൻ"),
+ * and collapses everything else to single hyphens ("Main Collection" -> "main-collection")
+ */
+export function toSlug(text: string): string {
+  return normalizeMalayalam(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -12,15 +12,40 @@
 export type ArchiveItem = {
   id: string; // gpura/Omeka item ID
   title: string;
-  year?: number | null;
+  year?: number | null; // First CE year of the date, used for sorting
+  yearStart?: number | null; // CE span the date covers; ranges, decades and era years span several
+  yearEnd?: number | null;
+  dateDisplay?: string | null; // e.g. "c. 1920", "1920s", "ME 1100 (1924–1925)"
+  dateCertainty?: DateCertainty | null;
   language?: string | null; // e.g. "ml", "en", "ta"
+  languageInferred?: boolean; // Detected from the title or description script, not dcterms:language
   type?: string | null; // book, periodical, image, audio, etc.
+  typeSource?: TypeSource | null; // Where `type` came from
+  typeConfidence?: number | null; // 0-1, how far `type` can be trusted
   collection?: string | null; // e.g. "Main collection", "Original collection"
+  collections?: string[]; // Every collection the item belongs to, first is `collection`
   authors?: string[];
   thumbnailUrl?: string | null; // URL of cover / first page image
   sourceUrl: string; // gpura item URL
 };
 
+/**
+ * Where an item's type was read from, most reliable first
+ * - resource-class: the Omeka resource class
+ * - metadata: a type value such as dcterms:type
+ * - heuristic: keywords in the title, subjects or other descriptive fields
+ * - fallback: a generic class such as bibo:Book or dctype:Text
+ */
+export type TypeSource = "resource-class" | "metadata" | "heuristic" | "fallback";
+
+/**
+ * How firmly a record states its date
+ * - exact: a year, range or era year as written
+ * - circa: marked c., ca., circa or ഏകദേശം, or only a decade or century
+ * - uncertain: questioned ("1920?") or supplied in brackets ("[1920]")
+ */
+export type DateCertainty = "exact" | "circa" | "uncertain";
+
 /**
  * Extended item with canvas positioning
  */
@@ -71,14 +96,28 @@ export type IIIFManifest = {
  * Document source info for viewer
  */
 export type DocumentSource = {
-  type: "iiif" | "pdf";
+  type: "iiif" | "pdf" | "audio" | "video" | "image";
   url: string;
+  label?: string | null; // Volume, format or track name shown in the source picker
+  mimeType?: string | null; // Audio and video only, so the browser can skip formats it cannot play
+  posterUrl?: string | null; // Audio and video only: still shown before and during playback
+  chapters?: MediaChapter[]; // Audio and video only
+  imageService?: string | null; // Images only: IIIF Image API base URL, for tiled zooming
+};
+
+/**
+ * Named point in a recording
+ */
+export type MediaChapter = {
+  title: string;
+  start: number; // Seconds from the start of the recording
 };
 
 /**
  * Full item details for the drawer view
  */
 export type ItemDetail = ArchiveItem & {
+  alternativeTitles?: string[];
   description?: string | null;
   subjects?: string[];
   publisher?: string | null;
@@ -86,7 +125,44 @@ export type ItemDetail = ArchiveItem & {
   fullImageUrl?: string | null; // Full resolution image for detail view
   media?: MediaFile[]; // All media files (PDFs, images, etc.)
   documentSource?: DocumentSource | null; // IIIF manifest or PDF URL for viewing
+  documentSources?: DocumentSource[]; // Every viewable volume or format, first is `documentSource`
   raw?: unknown; // Optional raw Omeka payload for debugging
+  resourceClassId?: number | null; // Omeka resource class, kept in the item index for type queries
+};
+
+/**
+ * Collection (Omeka item set) with its item count
+ */
+export type ArchiveCollection = {
+  id: string; // Item set ID, or a slug of the title for catalogue-backed adapters
+  title: string; // Matches ArchiveItem.collection and SearchFilters.collections
+  description?: string | null;
+  itemCount: number;
+  thumbnailUrl?: string | null;
+  sourceUrl?: string | null;
+};
+
+/**
+ * One issue of a periodical series
+ */
+export type SeriesIssue = ArchiveItem & {
+  volume: number | null;
+  issue: number | null;
+  issueLabel: string; // "Vol. 2 · No. 3 · June 1898"
+};
+
+/**
+ * Issues of a periodical or newspaper grouped under their shared title
+ */
+export type PeriodicalSeries = {
+  id: string; // Slug of the series title, see getSeriesId
+  title: string;
+  type: string;
+  issueCount: number;
+  firstYear: number | null;
+  lastYear: number | null;
+  issues: SeriesIssue[]; // Publication order, first issue first
+  complete: boolean; // False when built from a search while the item index loads
 };
 
 // ============================================
@@ -102,9 +178,31 @@ export type SearchFilters = {
   periods?: string[]; // Array of period labels for multi-select
   languages?: string[];
   types?: string[];
-  collections?: string[];
+  collections?: string[]; // Collection titles
+  subjects?: string[];
+  publishers?: string[];
 };
 
+/**
+ * Browsable name field on item records
+ */
+export type NameField = "subjects" | "publishers";
+
+/**
+ * A subject or publisher with the number of items carrying it
+ */
+export type NameCount = {
+  slug: string;
+  name: string; // Most common spelling among those sharing the slug
+  count: number;
+};
+
+/**
+ * Result ordering: newest additions, publication year either way, title A–Z,
+ * or best text match first
+ */
+export type SearchSort = "newest" | "year-desc" | "year-asc" | "title" | "relevance";
+
 /**
  * Search request parameters
  */
@@ -114,6 +212,7 @@ export type SearchRequest = {
   page?: number;
   pageSize?: number;
   scanFilters?: boolean;
+  sort?: SearchSort; // Defaults to "newest"; "relevance" needs a query
 };
 
 /**
@@ -121,6 +220,7 @@ export type SearchRequest = {
  */
 export type Facets = {
   languages?: Record<string, number>;
+  inferredLanguages?: Record<string, number>; // Part of the languages counts detected from script
   types?: Record<string, number>;
   collections?: Record<string, number>;
   years?: { min: number | null; max: number | null };
@@ -133,6 +233,8 @@ export type SearchResponse = {
   items: ArchiveItem[];
   total: number;
   facets?: Facets;
+  transliteratedQuery?: string | null; // Malayalam form a Manglish query matched, e.g. "ചെമ്മീൻ"
+  provisional?: boolean; // Unranked or upstream-sorted stand-in while the item index builds; not cached
 };
 
 // ============================================
@@ -224,6 +326,14 @@ export const TYPE_LABELS: Record<string, string> = {
   newspaper: "Newspaper",
 };
 
+export const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: "Best match",
+  newest: "Newest added",
+  "year-desc": "Year: newest first",
+  "year-asc": "Year: oldest first",
+  title: "Title A–Z",
+};
+
 export const TIME_RANGES = [
   { label: "Before 1900", min: undefined, max: 1899 },
   { label: "1900–1947", min: 1900, max: 1947 },
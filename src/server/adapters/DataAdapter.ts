@@ -1,14 +1,56 @@
 import type {
+  ArchiveCollection,
   ArchiveItem,
   ItemDetail,
+  NameCount,
+  NameField,
   SearchRequest,
   SearchResponse,
   TileRequest,
 } from "@/lib/types";
+import { siteConfig } from "@/config/site";
+import type { UpstreamStatus } from "@/server/upstream-client";
+
+/**
+ * Result of an adapter health check
+ */
+export type AdapterHealth = {
+  ok: boolean;
+  adapter: string;
+  latencyMs?: number;
+  message?: string;
+  upstream?: UpstreamStatus; // Circuit breaker and request queue of an adapter behind a remote API
+};
+
+/**
+ * Build status of an adapter's full item index
+ */
+export type ItemIndexStatus = {
+  adapter: string;
+  state: "empty" | "building" | "refreshing" | "ready" | "error";
+  itemCount: number;
+  loadedFrom: "disk" | "network" | null;
+  builtAt: string | null;
+  syncedAt: string | null;
+  persistedPath: string | null;
+  progress: { done: number; total: number } | null;
+  lastRefresh: {
+    mode: "full" | "incremental";
+    changed: number;
+    durationMs: number;
+  } | null;
+  error: string | null;
+};
 
 /**
  * Abstract data adapter interface
  * Implement this for different archive backends (Omeka S, custom APIs, etc.)
+ *
+ * Lifecycle:
+ * 1. The registry constructs the adapter once per process via its factory
+ * 2. `init()` is awaited before the instance is handed out
+ * 3. `healthCheck()` may be called at any time to probe the backend
+ * 4. `dispose()` is awaited when the adapter is swapped out or reset
  */
 export interface DataAdapter {
   /**
@@ -25,22 +67,195 @@ export interface DataAdapter {
    * Get detailed information for a single item
    */
   getItem(id: string): Promise<ItemDetail | null>;
+
+  /**
+   * List collections with their item counts, largest first
+   */
+  listCollections(): Promise<ArchiveCollection[]>;
+
+  /**
+   * Enumerate every item the backend serves
+   * Optional - used by the catalog exporter and whole-archive features
+   */
+  getFullItemIndex?(): Promise<ArchiveItem[]>;
+
+  /**
+   * Report how far the full item index has been built or refreshed
+   */
+  getIndexStatus?(): ItemIndexStatus;
+
+  /**
+   * Subjects or publishers with their item counts, most used first
+   * Optional - backs the subject and publisher browse pages
+   */
+  listNames?(field: NameField): Promise<NameCount[]>;
+
+  /**
+   * Items sharing authors, subjects or collections with an item, best match first
+   * Optional - backs the "more like this" rail
+   */
+  getRelatedItems?(id: string, limit?: number): Promise<ArchiveItem[]>;
+
+  /**
+   * Prepare connections, indexes or warm caches before first use
+   */
+  init?(): Promise<void>;
+
+  /**
+   * Report whether the backend is reachable and serving data
+   */
+  healthCheck?(): Promise<AdapterHealth>;
+
+  /**
+   * Release timers, handles and caches held by the adapter
+   */
+  dispose?(): Promise<void>;
 }
 
 /**
- * Get the singleton data adapter instance
- * Currently returns OmekaAdapter, but can be swapped for other implementations
+ * Environment variables an adapter reads its configuration from
  */
-export async function getDataAdapter(): Promise<DataAdapter> {
-  // Dynamic import to keep server-only code out of client bundle
+export type AdapterEnv = Record<string, string | undefined>;
+
+/**
+ * Factory that builds an adapter instance from its configuration
+ * Factories use dynamic imports to keep server-only code out of client bundles
+ */
+export type DataAdapterFactory = (env: AdapterEnv) => Promise<DataAdapter>;
+
+const DEFAULT_ADAPTER = "omeka";
+
+const adapterFactories = new Map<string, DataAdapterFactory>();
+let activeAdapter: { name: string; promise: Promise<DataAdapter> } | null = null;
+
+/**
+ * Register an adapter factory under a name
+ * Re-registering a name replaces the previous factory
+ */
+export function registerDataAdapter(name: string, factory: DataAdapterFactory): void {
+  adapterFactories.set(name.toLowerCase(), factory);
+}
+
+/**
+ * List the names of all registered adapters
+ */
+export function getRegisteredAdapterNames(): string[] {
+  return Array.from(adapterFactories.keys());
+}
+
+/**
+ * Resolve the configured adapter name
+ * DATA_ADAPTER env variable wins over site config
+ */
+export function getConfiguredAdapterName(): string {
+  const configured = process.env.DATA_ADAPTER || siteConfig.dataAdapter || DEFAULT_ADAPTER;
+  return configured.trim().toLowerCase();
+}
+
+/**
+ * Integer setting, or undefined so the adapter's default applies
+ */
+function readIntSetting(env: AdapterEnv, key: string): number | undefined {
+  const value = Number.parseInt(env[key] ?? "", 10);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+registerDataAdapter("omeka", async (env) => {
   const { OmekaAdapter } = await import("./OmekaAdapter");
-  return new OmekaAdapter();
+  return new OmekaAdapter(env);
+});
+
+registerDataAdapter("static", async (env) => {
+  const { StaticAdapter } = await import("./StaticAdapter");
+  return new StaticAdapter(env.STATIC_CATALOG_PATH || undefined);
+});
+
+registerDataAdapter("iiif", async (env) => {
+  const { IIIFCollectionAdapter } = await import("./IIIFCollectionAdapter");
+  return new IIIFCollectionAdapter(
+    env.IIIF_COLLECTION_URL || undefined,
+    readIntSetting(env, "IIIF_MAX_MANIFESTS")
+  );
+});
+
+registerDataAdapter("oai-pmh", async (env) => {
+  const { OAIPMHAdapter } = await import("./OAIPMHAdapter");
+  return new OAIPMHAdapter(
+    env.OAI_BASE_URL || undefined,
+    env.OAI_SET || undefined,
+    readIntSetting(env, "OAI_MAX_RECORDS")
+  );
+});
+
+registerDataAdapter("federated", async (env) => {
+  const { FederatedAdapter, parseFederatedSources } = await import("./FederatedAdapter");
+  return new FederatedAdapter(parseFederatedSources(env.FEDERATED_SOURCES || "gpura=omeka"), env);
+});
+
+/**
+ * Build and initialise a fresh adapter by name, outside the singleton
+ * Composite adapters use this to construct their sources with their own settings
+ */
+export async function createDataAdapter(
+  name: string,
+  env: AdapterEnv = process.env
+): Promise<DataAdapter> {
+  const factory = adapterFactories.get(name.toLowerCase());
+  if (!factory) {
+    throw new Error(
+      `Unknown data adapter "${name}". Registered adapters: ${getRegisteredAdapterNames().join(", ")}`
+    );
+  }
+
+  const adapter = await factory(env);
+  await adapter.init?.();
+  return adapter;
 }
 
+/**
+ * Get the singleton data adapter instance
+ * The adapter is chosen by name from the registry and initialised once per process
+ */
+export async function getDataAdapter(): Promise<DataAdapter> {
+  const name = getConfiguredAdapterName();
+
+  if (activeAdapter && activeAdapter.name === name) {
+    return activeAdapter.promise;
+  }
 
+  if (activeAdapter) {
+    await disposeDataAdapter();
+  }
 
+  const promise = createDataAdapter(name);
 
+  activeAdapter = { name, promise };
 
+  // Allow a retry on the next call if construction or init failed
+  promise.catch(() => {
+    if (activeAdapter?.promise === promise) {
+      activeAdapter = null;
+    }
+  });
 
+  return promise;
+}
 
+/**
+ * Dispose the active adapter so the next getDataAdapter() call builds a fresh one
+ */
+export async function disposeDataAdapter(): Promise<void> {
+  const current = activeAdapter;
+  activeAdapter = null;
 
+  if (!current) {
+    return;
+  }
+
+  try {
+    const adapter = await current.promise;
+    await adapter.dispose?.();
+  } catch (error) {
+    console.error(`Error disposing data adapter "${current.name}":`, error);
+  }
+}
@@ -0,0 +1,580 @@
+import type {
+  ArchiveCollection,
+  ArchiveItem,
+  Facets,
+  ItemDetail,
+  NameCount,
+  NameField,
+  SearchRequest,
+  SearchResponse,
+  TileRequest,
+} from "@/lib/types";
+import { getCache } from "@/lib/cache";
+import { formatItemId, parseItemId } from "@/lib/item-id";
+import { mergeNameCounts } from "@/server/name-index";
+import { sortItems } from "./adapter-utils";
+import {
+  createDataAdapter,
+  type AdapterEnv,
+  type AdapterHealth,
+  type DataAdapter,
+  type ItemIndexStatus,
+} from "./DataAdapter";
+
+// Environment configuration
+// Comma-separated namespace=adapter pairs, e.g. "gpura=omeka,kda=iiif"
+const FEDERATED_SOURCES = process.env.FEDERATED_SOURCES || "gpura=omeka";
+
+export type FederatedSource = {
+  namespace: string;
+  adapterName: string;
+};
+
+type ConnectedSource = FederatedSource & { adapter: DataAdapter };
+
+type FailedSource = FederatedSource & { message: string };
+
+/**
+ * A source's place in a merged search: fetched items not yet merged, and the next page to read
+ */
+type SourceCursor = {
+  source: ConnectedSource;
+  buffer: ArchiveItem[];
+  nextPage: number;
+  done: boolean;
+};
+
+/**
+ * Merge state for one query, kept so the next page continues from the cursors
+ */
+type MergedSearch = {
+  cursors: SourceCursor[];
+  pages: ArchiveItem[][];
+  turn: number; // Source whose turn is next when sources take turns
+  total: number;
+  facets: Facets;
+  transliteratedQuery: string | null;
+  provisional: boolean;
+  queue: Promise<ArchiveItem[]>;
+};
+
+// Long enough to page through a result list, short enough not to pin results in memory
+const MERGED_SEARCH_TTL_MS = 30 * 60 * 1000;
+
+const mergedSearchCache = getCache<MergedSearch>("federated-search");
+
+// Index states from least to most ready; the combined status takes the least ready source's
+const INDEX_STATE_ORDER: ItemIndexStatus["state"][] = ["empty", "building", "error", "refreshing", "ready"];
+
+type MergedItemIndex = {
+  sourceIndexes: ArchiveItem[][];
+  items: ArchiveItem[];
+};
+
+/**
+ * Parse FEDERATED_SOURCES into namespace/adapter pairs
+ */
+export function parseFederatedSources(value: string): FederatedSource[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [namespace, adapterName] = entry.split("=").map((part) => part.trim().toLowerCase());
+      return { namespace, adapterName: adapterName || namespace };
+    })
+    .filter((source) => /^[a-z][a-z0-9-]*$/.test(source.namespace));
+}
+
+/**
+ * Settings for one source: variables prefixed with its namespace ("KDA_OMEKA_BASE_URL"
+ * for namespace "kda") override the shared ones, so two sources can use the same adapter
+ * against different archives
+ */
+export function getSourceEnv(namespace: string, env: AdapterEnv): AdapterEnv {
+  const prefix = `${namespace.toUpperCase().replace(/-/g, "_")}_`;
+  const overrides = Object.entries(env)
+    .filter(([key]) => key.startsWith(prefix) && key.length > prefix.length)
+    .map(([key, value]) => [key.slice(prefix.length), value]);
+
+  return { ...env, ...Object.fromEntries(overrides) };
+}
+
+/**
+ * FederatedAdapter: Fans requests out to several adapters and merges the results
+ * Item IDs are namespaced by source ("gpura:1234"); un-namespaced IDs resolve
+ * against the first source so existing links keep working
+ */
+export class FederatedAdapter implements DataAdapter {
+  private sourceConfig: FederatedSource[];
+  private env: AdapterEnv;
+  private sources: ConnectedSource[] = [];
+  // Sources whose adapter failed to build or initialise, left out until the adapter is rebuilt
+  private failedSources: FailedSource[] = [];
+  // Kept while every source returns the same index, so indexes derived from it stay cached
+  private mergedIndex: MergedItemIndex | null = null;
+
+  constructor(sources = parseFederatedSources(FEDERATED_SOURCES), env: AdapterEnv = process.env) {
+    this.sourceConfig = sources;
+    this.env = env;
+  }
+
+  /**
+   * Round-robin merge so every source gets an equal share of the front of the list
+   */
+  private interleave<T>(lists: T[][]): T[] {
+    const merged: T[] = [];
+    const longest = Math.max(0, ...lists.map((list) => list.length));
+
+    for (let index = 0; index < longest; index += 1) {
+      for (const list of lists) {
+        if (index < list.length) {
+          merged.push(list[index]);
+        }
+      }
+    }
+
+    return merged;
+  }
+
+  private namespaceItem<T extends ArchiveItem>(source: ConnectedSource, item: T): T {
+    return { ...item, id: formatItemId(source.namespace, item.id) };
+  }
+
+  /**
+   * Sum facet counts across sources and widen the year range
+   */
+  private mergeFacets(facetsList: Array<Facets | undefined>): Facets {
+    const merged: Required<Facets> = {
+      languages: {},
+      inferredLanguages: {},
+      types: {},
+      collections: {},
+      years: { min: null, max: null },
+    };
+
+    for (const facets of facetsList) {
+      if (!facets) continue;
+
+      for (const key of ["languages", "inferredLanguages", "types", "collections"] as const) {
+        for (const [value, count] of Object.entries(facets[key] ?? {})) {
+          merged[key][value] = (merged[key][value] || 0) + count;
+        }
+      }
+
+      const { min, max } = facets.years ?? { min: null, max: null };
+      if (min !== null && (merged.years.min === null || min < merged.years.min)) {
+        merged.years.min = min;
+      }
+      if (max !== null && (merged.years.max === null || max > merged.years.max)) {
+        merged.years.max = max;
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * The started source for a namespace; plain IDs belong to the first configured
+   * source, and resolve to nothing while it is down
+   */
+  private findSource(namespace: string | null): ConnectedSource | undefined {
+    const target = namespace ?? this.sourceConfig[0]?.namespace;
+    return this.sources.find((source) => source.namespace === target);
+  }
+
+  /**
+   * Run a request against every source, skipping sources that fail
+   */
+  private async fanOut<T>(
+    label: string,
+    run: (source: ConnectedSource) => Promise<T>
+  ): Promise<Array<{ source: ConnectedSource; value: T }>> {
+    const results = await Promise.allSettled(this.sources.map((source) => run(source)));
+
+    return results.flatMap((result, index) => {
+      const source = this.sources[index];
+      if (result.status === "rejected") {
+        console.error(`Federated ${label} failed for "${source.namespace}":`, result.reason);
+        return [];
+      }
+      return [{ source, value: result.value }];
+    });
+  }
+
+  /**
+   * Build and initialise every source adapter
+   * A source that fails to start is left out and reported as down; the adapter
+   * only fails when no source starts
+   */
+  async init(): Promise<void> {
+    if (this.sourceConfig.length === 0) {
+      throw new Error("FEDERATED_SOURCES does not list any sources");
+    }
+
+    if (this.sourceConfig.some((source) => source.adapterName === "federated")) {
+      throw new Error("FEDERATED_SOURCES cannot include the federated adapter itself");
+    }
+
+    const results = await Promise.allSettled(
+      this.sourceConfig.map((source) =>
+        createDataAdapter(source.adapterName, getSourceEnv(source.namespace, this.env))
+      )
+    );
+
+    this.sources = [];
+    this.failedSources = [];
+    results.forEach((result, index) => {
+      const source = this.sourceConfig[index];
+      if (result.status === "fulfilled") {
+        this.sources.push({ ...source, adapter: result.value });
+        return;
+      }
+      console.error(`Federated source "${source.namespace}" failed to start:`, result.reason);
+      this.failedSources.push({
+        ...source,
+        message: result.reason instanceof Error ? result.reason.message : "Failed to start",
+      });
+    });
+
+    if (this.sources.length === 0) {
+      throw new Error(
+        `No federated source started: ${this.failedSources
+          .map((source) => `${source.namespace}: ${source.message}`)
+          .join("; ")}`
+      );
+    }
+  }
+
+  /**
+   * Healthy while at least one source is healthy
+   * Sources that failed to start or whose check throws are reported as down
+   */
+  async healthCheck(): Promise<AdapterHealth> {
+    const startedAt = Date.now();
+    const results = await Promise.allSettled(
+      this.sources.map((source) =>
+        source.adapter.healthCheck
+          ? source.adapter.healthCheck()
+          : Promise.resolve<AdapterHealth>({ ok: true, adapter: source.adapterName })
+      )
+    );
+    const checked = results.map((result, index) => ({
+      namespace: this.sources[index].namespace,
+      health:
+        result.status === "fulfilled"
+          ? result.value
+          : {
+              ok: false,
+              adapter: this.sources[index].adapterName,
+              message: result.reason instanceof Error ? result.reason.message : "Health check failed",
+            },
+    }));
+    const failed = this.failedSources.map((source) => ({
+      namespace: source.namespace,
+      health: { ok: false, adapter: source.adapterName, message: `failed to start: ${source.message}` },
+    }));
+    const reports = [...checked, ...failed];
+
+    return {
+      ok: checked.some(({ health }) => health.ok),
+      adapter: "federated",
+      latencyMs: Date.now() - startedAt,
+      message: reports
+        .map(({ namespace, health }) => `${namespace}: ${health.ok ? "ok" : health.message || "down"}`)
+        .join("; "),
+    };
+  }
+
+  /**
+   * Dispose every source adapter
+   */
+  async dispose(): Promise<void> {
+    await Promise.all(this.sources.map((source) => source.adapter.dispose?.()));
+    this.sources = [];
+    this.failedSources = [];
+    this.mergedIndex = null;
+  }
+
+  /**
+   * Combined index status of the sources that report one
+   * The least ready source sets the state, so a source still crawling keeps index-backed
+   * pages on their fallbacks instead of waiting for it
+   */
+  getIndexStatus(): ItemIndexStatus {
+    const reported = this.sources.flatMap((source) =>
+      source.adapter.getIndexStatus ? [{ source, status: source.adapter.getIndexStatus() }] : []
+    );
+    const statuses = reported.map(({ status }) => status);
+    const progress = statuses.filter((status) => status.progress);
+    const oldest = (values: Array<string | null>) =>
+      values.some((value) => value === null) ? null : values.sort()[0] ?? null;
+    const errors = [
+      ...reported
+        .filter(({ status }) => status.error)
+        .map(({ source, status }) => `${source.namespace}: ${status.error}`),
+      ...this.failedSources.map((source) => `${source.namespace}: failed to start: ${source.message}`),
+    ];
+
+    return {
+      adapter: "federated",
+      state: statuses.reduce<ItemIndexStatus["state"]>(
+        (state, status) =>
+          INDEX_STATE_ORDER.indexOf(status.state) < INDEX_STATE_ORDER.indexOf(state) ? status.state : state,
+        "ready"
+      ),
+      itemCount: statuses.reduce((sum, status) => sum + status.itemCount, 0),
+      loadedFrom: null,
+      builtAt: oldest(statuses.map((status) => status.builtAt)),
+      syncedAt: oldest(statuses.map((status) => status.syncedAt)),
+      persistedPath: null,
+      progress:
+        progress.length > 0
+          ? {
+              done: progress.reduce((sum, status) => sum + status.progress!.done, 0),
+              total: progress.reduce((sum, status) => sum + status.progress!.total, 0),
+            }
+          : null,
+      lastRefresh: null,
+      error: errors.length > 0 ? errors.join("; ") : null,
+    };
+  }
+
+  /**
+   * Enumerate items from every source that supports it
+   * The merged array is rebuilt only when a source's index changes
+   */
+  async getFullItemIndex(): Promise<ArchiveItem[]> {
+    const results = await this.fanOut("index", async (source) =>
+      source.adapter.getFullItemIndex ? source.adapter.getFullItemIndex() : []
+    );
+    const sourceIndexes = results.map(({ value }) => value);
+
+    const merged = this.mergedIndex;
+    if (
+      merged &&
+      merged.sourceIndexes.length === sourceIndexes.length &&
+      merged.sourceIndexes.every((index, position) => index === sourceIndexes[position])
+    ) {
+      return merged.items;
+    }
+
+    const items = results.flatMap(({ source, value }) =>
+      value.map((item) => this.namespaceItem(source, item))
+    );
+    this.mergedIndex = { sourceIndexes, items };
+    return items;
+  }
+
+  /**
+   * Search every source and merge their result lists into one ordering
+   * Each source is read through a cursor over its own pages, so later pages continue
+   * where the previous one stopped. Year and title orders are comparable across
+   * sources and merge by value; newest and relevance are not, so sources take turns
+   */
+  async search(req: SearchRequest): Promise<SearchResponse> {
+    const pageSize = req.pageSize || 40;
+    const page = Math.max(1, req.page || 1);
+    const key = JSON.stringify([
+      this.sources.map((source) => source.namespace),
+      req.q ?? "",
+      req.filters ?? {},
+      req.scanFilters ?? false,
+      req.sort ?? "newest",
+      pageSize,
+    ]);
+
+    const merge = mergedSearchCache.get(key, MERGED_SEARCH_TTL_MS) ?? (await this.startMergedSearch(req, pageSize));
+    if (!merge.provisional) {
+      mergedSearchCache.set(key, merge);
+      mergedSearchCache.cleanup(MERGED_SEARCH_TTL_MS, 50);
+    }
+
+    // One request at a time moves a merge's cursors forward
+    const items = await (merge.queue = merge.queue.catch(() => []).then(async () => {
+      while (merge.pages.length < page && !this.isMergeExhausted(merge)) {
+        merge.pages.push(await this.takeMergedPage(merge, req, pageSize));
+      }
+      return merge.pages[page - 1] ?? [];
+    }));
+
+    return {
+      items,
+      total: merge.total,
+      facets: merge.facets,
+      transliteratedQuery: merge.transliteratedQuery,
+      ...(merge.provisional ? { provisional: true } : {}),
+    };
+  }
+
+  /**
+   * Read the first page of every source; totals and facets come from these
+   */
+  private async startMergedSearch(req: SearchRequest, pageSize: number): Promise<MergedSearch> {
+    const results = await this.fanOut("search", (source) =>
+      source.adapter.search({ ...req, page: 1, pageSize })
+    );
+
+    return {
+      cursors: results.map(({ source, value }) => ({
+        source,
+        buffer: value.items,
+        nextPage: 2,
+        done: value.items.length < pageSize || (value.total >= 0 && value.total <= pageSize),
+      })),
+      pages: [],
+      turn: 0,
+      // Any source with an unknown total makes the merged total unknown
+      total: results.some(({ value }) => value.total < 0)
+        ? -1
+        : results.reduce((sum, { value }) => sum + value.total, 0),
+      facets: this.mergeFacets(results.map(({ value }) => value.facets)),
+      transliteratedQuery:
+        results.find(({ value }) => value.transliteratedQuery)?.value.transliteratedQuery ?? null,
+      provisional: results.some(({ value }) => value.provisional),
+      queue: Promise.resolve([]),
+    };
+  }
+
+  private isMergeExhausted(merge: MergedSearch): boolean {
+    return merge.cursors.every((cursor) => cursor.done && cursor.buffer.length === 0);
+  }
+
+  /**
+   * Fetch the next page of every source whose buffered items ran out
+   * A source that fails is treated as finished, so the merge carries on without it
+   */
+  private async refillCursors(merge: MergedSearch, req: SearchRequest, pageSize: number): Promise<void> {
+    const empty = merge.cursors.filter((cursor) => cursor.buffer.length === 0 && !cursor.done);
+    const results = await Promise.allSettled(
+      empty.map((cursor) => cursor.source.adapter.search({ ...req, page: cursor.nextPage, pageSize }))
+    );
+
+    results.forEach((result, index) => {
+      const cursor = empty[index];
+      if (result.status === "rejected") {
+        console.error(`Federated search failed for "${cursor.source.namespace}":`, result.reason);
+        cursor.done = true;
+        return;
+      }
+
+      const { items, total } = result.value;
+      cursor.buffer = items;
+      cursor.done = items.length < pageSize || (total >= 0 && total <= cursor.nextPage * pageSize);
+      cursor.nextPage += 1;
+    });
+  }
+
+  /**
+   * Take the next page of merged results off the source cursors
+   */
+  private async takeMergedPage(
+    merge: MergedSearch,
+    req: SearchRequest,
+    pageSize: number
+  ): Promise<ArchiveItem[]> {
+    const sort = req.sort ?? "newest";
+    const comparable = sort === "year-desc" || sort === "year-asc" || sort === "title";
+    const items: ArchiveItem[] = [];
+
+    while (items.length < pageSize) {
+      // Every source needs its next item at hand before the merge can pick one
+      if (merge.cursors.some((cursor) => cursor.buffer.length === 0 && !cursor.done)) {
+        await this.refillCursors(merge, req, pageSize);
+      }
+
+      const ready = merge.cursors.filter((cursor) => cursor.buffer.length > 0);
+      if (ready.length === 0) break;
+
+      let cursor: SourceCursor;
+      if (comparable) {
+        const next = sortItems(
+          ready.map((candidate) => candidate.buffer[0]),
+          sort
+        )[0];
+        cursor = ready.find((candidate) => candidate.buffer[0] === next)!;
+      } else {
+        const count = merge.cursors.length;
+        const offset = Array.from({ length: count }, (_, step) => (merge.turn + step) % count).find(
+          (position) => merge.cursors[position].buffer.length > 0
+        )!;
+        cursor = merge.cursors[offset];
+        merge.turn = (offset + 1) % count;
+      }
+
+      items.push(this.namespaceItem(cursor.source, cursor.buffer.shift()!));
+    }
+
+    return items;
+  }
+
+  /**
+   * Fetch the same tile from every source and interleave the results
+   */
+  async fetchTile(req: TileRequest): Promise<ArchiveItem[]> {
+    const results = await this.fanOut("tile", (source) => source.adapter.fetchTile(req));
+
+    return this.interleave(
+      results.map(({ source, value }) =>
+        value.map((item) => this.namespaceItem(source, item))
+      )
+    ).slice(0, req.limit);
+  }
+
+  /**
+   * Resolve a namespaced ID against its source
+   */
+  async getItem(id: string): Promise<ItemDetail | null> {
+    const { namespace, localId } = parseItemId(id);
+    const source = this.findSource(namespace);
+
+    if (!source) {
+      return null;
+    }
+
+    const item = await source.adapter.getItem(localId);
+    return item ? this.namespaceItem(source, item) : null;
+  }
+
+  /**
+   * Related items come from the item's own source
+   */
+  async getRelatedItems(id: string, limit?: number): Promise<ArchiveItem[]> {
+    const { namespace, localId } = parseItemId(id);
+    const source = this.findSource(namespace);
+
+    if (!source?.adapter.getRelatedItems) {
+      return [];
+    }
+
+    const items = await source.adapter.getRelatedItems(localId, limit);
+    return items.map((item) => this.namespaceItem(source, item));
+  }
+
+  /**
+   * List every source's collections, namespacing their IDs like item IDs
+   */
+  async listCollections(): Promise<ArchiveCollection[]> {
+    const results = await this.fanOut("collections", (source) => source.adapter.listCollections());
+
+    return results
+      .flatMap(({ source, value }) =>
+        value.map((collection) => ({
+          ...collection,
+          id: formatItemId(source.namespace, collection.id),
+        }))
+      )
+      .sort((a, b) => b.itemCount - a.itemCount);
+  }
+
+  /**
+   * Merge subject or publisher counts across sources, adding up shared names
+   */
+  async listNames(field: NameField): Promise<NameCount[]> {
+    const results = await this.fanOut("names", async (source) =>
+      source.adapter.listNames ? source.adapter.listNames(field) : []
+    );
+
+    return mergeNameCounts(results.map(({ value }) => value));
+  }
+}
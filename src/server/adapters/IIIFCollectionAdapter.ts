@@ -0,0 +1,344 @@
+import type {
+  ArchiveCollection,
+  ArchiveItem,
+  ItemDetail,
+  NameCount,
+  NameField,
+  SearchRequest,
+  SearchResponse,
+  TileRequest,
+} from "@/lib/types";
+import type { AdapterHealth, DataAdapter, ItemIndexStatus } from "./DataAdapter";
+import { toNumericItemId } from "./adapter-utils";
+import { CatalogIndex } from "./catalog-index";
+import { getHarvestedIndex, type HarvestedIndex } from "./harvested-index";
+import {
+  getCollectionMembers,
+  getDeclaredThumbnail,
+  getFirstCanvasThumbnail,
+  getLanguageValue,
+  getMetadataEntries,
+  getResourceId,
+  type IIIFResource,
+} from "./iiif";
+import { getDateFields } from "./dates";
+import { resolveCanonicalType, resolveLanguage } from "./normalization";
+
+// Environment configuration
+const IIIF_COLLECTION_URL = process.env.IIIF_COLLECTION_URL || "";
+const IIIF_MAX_MANIFESTS = Number.parseInt(process.env.IIIF_MAX_MANIFESTS || "5000", 10);
+
+// A stalled manifest is skipped rather than holding up the harvest
+const REQUEST_TIMEOUT_MS = 20_000;
+
+/**
+ * Metadata labels (lowercased) mapped onto ItemDetail fields
+ * Archives label their fields freely, so each field accepts several spellings
+ */
+const METADATA_LABELS = {
+  authors: ["author", "authors", "creator", "creators", "contributor"],
+  date: ["date", "year", "date of publication", "publication date", "issued", "created"],
+  language: ["language", "languages"],
+  type: ["type", "format", "genre", "object type", "resource type"],
+  subjects: ["subject", "subjects", "keywords", "topic"],
+  publisher: ["publisher", "published by"],
+  description: ["description", "summary", "abstract"],
+  collection: ["collection", "part of"],
+  rights: ["rights", "license", "licence", "copyright"],
+} as const;
+
+type ManifestRef = {
+  url: string;
+  label: string | null;
+  thumbnailUrl: string | null;
+  collection: string | null;
+};
+
+/**
+ * IIIFCollectionAdapter: Harvests a IIIF Presentation Collection (v2 or v3)
+ * and serves the manifests it lists from an in-memory catalog
+ */
+export class IIIFCollectionAdapter implements DataAdapter {
+  private collectionUrl: string;
+  private maxManifests: number;
+  private harvested: HarvestedIndex;
+
+  constructor(collectionUrl = IIIF_COLLECTION_URL, maxManifests = IIIF_MAX_MANIFESTS) {
+    this.collectionUrl = collectionUrl;
+    this.maxManifests = maxManifests;
+    this.harvested = getHarvestedIndex(`iiif|${collectionUrl}`, "iiif", () => this.harvestIndex());
+  }
+
+  private async fetchResource(url: string): Promise<IIIFResource> {
+    const response = await fetch(url, {
+      headers: { Accept: "application/ld+json, application/json" },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`IIIF request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Walk the collection tree breadth-first and collect manifest references
+   */
+  private async collectManifestRefs(): Promise<ManifestRef[]> {
+    const refs: ManifestRef[] = [];
+    const seenManifests = new Set<string>();
+    const visitedCollections = new Set<string>();
+    const queue: string[] = [this.collectionUrl];
+
+    while (queue.length > 0 && refs.length < this.maxManifests) {
+      const collectionUrl = queue.shift()!;
+      if (visitedCollections.has(collectionUrl)) continue;
+      visitedCollections.add(collectionUrl);
+
+      let collection: IIIFResource;
+      try {
+        collection = await this.fetchResource(collectionUrl);
+      } catch (error) {
+        // The root collection must load; skip broken sub-collections
+        if (collectionUrl === this.collectionUrl) throw error;
+        console.error(`Error harvesting IIIF collection ${collectionUrl}:`, error);
+        continue;
+      }
+
+      const collectionLabel = getLanguageValue(collection.label);
+      const { manifests, collections } = getCollectionMembers(collection);
+
+      for (const manifest of manifests) {
+        const url = getResourceId(manifest);
+        if (!url || seenManifests.has(url)) continue;
+        seenManifests.add(url);
+
+        refs.push({
+          url,
+          label: getLanguageValue(manifest.label),
+          thumbnailUrl: getDeclaredThumbnail(manifest),
+          collection: collectionLabel,
+        });
+
+        if (refs.length >= this.maxManifests) break;
+      }
+
+      for (const child of collections) {
+        const url = getResourceId(child);
+        if (url) queue.push(url);
+      }
+    }
+
+    return refs;
+  }
+
+  /**
+   * Map a manifest onto ItemDetail using its label, metadata and thumbnail
+   */
+  private transformManifest(ref: ManifestRef, manifest: IIIFResource | null): ItemDetail {
+    const entries = manifest ? getMetadataEntries(manifest) : [];
+    const valuesFor = (labels: readonly string[]) =>
+      entries
+        .filter((entry) => labels.includes(entry.label))
+        .flatMap((entry) => entry.values);
+
+    const title = getLanguageValue(manifest?.label) || ref.label || "Untitled";
+    const subjects = valuesFor(METADATA_LABELS.subjects);
+    const typeValues = valuesFor(METADATA_LABELS.type);
+    const authors = valuesFor(METADATA_LABELS.authors);
+
+    const dateValue =
+      valuesFor(METADATA_LABELS.date)[0] ??
+      (typeof manifest?.navDate === "string" ? manifest.navDate : undefined);
+
+    const { type, typeSource, typeConfidence } = resolveCanonicalType(typeValues, { title, subjects });
+
+    const description =
+      getLanguageValue(manifest?.summary) ??
+      getLanguageValue(manifest?.description) ??
+      valuesFor(METADATA_LABELS.description)[0] ??
+      null;
+    const { language, languageInferred } = resolveLanguage(
+      valuesFor(METADATA_LABELS.language)[0],
+      [title, description]
+    );
+
+    const rights =
+      (typeof manifest?.rights === "string" ? manifest.rights : null) ??
+      (typeof manifest?.license === "string" ? manifest.license : null) ??
+      getLanguageValue((manifest?.requiredStatement as IIIFResource | undefined)?.value) ??
+      getLanguageValue(manifest?.attribution) ??
+      valuesFor(METADATA_LABELS.rights)[0] ??
+      null;
+
+    const homepage = manifest?.homepage ?? manifest?.related;
+    const sourceUrl =
+      getResourceId((Array.isArray(homepage) ? homepage[0] : homepage) as IIIFResource | string) ??
+      ref.url;
+
+    const thumbnailUrl =
+      (manifest ? getDeclaredThumbnail(manifest) ?? getFirstCanvasThumbnail(manifest) : null) ??
+      ref.thumbnailUrl;
+
+    return {
+      id: toNumericItemId(ref.url),
+      title,
+      ...getDateFields(dateValue),
+      language,
+      languageInferred,
+      type,
+      typeSource,
+      typeConfidence,
+      collection: valuesFor(METADATA_LABELS.collection)[0] ?? ref.collection,
+      authors: authors.length > 0 ? authors : undefined,
+      thumbnailUrl,
+      sourceUrl,
+      description,
+      subjects: subjects.length > 0 ? subjects : undefined,
+      publisher: valuesFor(METADATA_LABELS.publisher)[0] ?? null,
+      rights,
+      fullImageUrl: thumbnailUrl,
+      documentSource: { type: "iiif", url: ref.url },
+    };
+  }
+
+  /**
+   * Harvest every manifest in the collection into a catalog
+   */
+  private async harvestIndex(): Promise<CatalogIndex> {
+    if (!this.collectionUrl) {
+      throw new Error("IIIF_COLLECTION_URL is not configured");
+    }
+
+    const refs = await this.collectManifestRefs();
+    const records: ItemDetail[] = [];
+
+    const BATCH_SIZE = 4;
+    for (let start = 0; start < refs.length; start += BATCH_SIZE) {
+      const batch = refs.slice(start, start + BATCH_SIZE);
+      const results = await Promise.all(
+        batch.map(async (ref) => {
+          try {
+            return this.transformManifest(ref, await this.fetchResource(ref.url));
+          } catch (error) {
+            console.error(`Error harvesting IIIF manifest ${ref.url}:`, error);
+            return this.transformManifest(ref, null);
+          }
+        })
+      );
+      records.push(...results);
+    }
+
+    return new CatalogIndex(records);
+  }
+
+  /**
+   * The harvested catalog, re-harvested in the background once it is CACHE_TTL.DEFAULT old
+   */
+  private loadIndex(): Promise<CatalogIndex> {
+    return this.harvested.load();
+  }
+
+  /**
+   * Start harvesting the collection; requests wait for the first harvest only
+   */
+  async init(): Promise<void> {
+    this.loadIndex().catch(() => {
+      // Reported through getIndexStatus and retried by the next request
+    });
+  }
+
+  /**
+   * Progress of the collection harvest
+   */
+  getIndexStatus(): ItemIndexStatus {
+    return this.harvested.getStatus();
+  }
+
+  /**
+   * Probe the root collection
+   */
+  async healthCheck(): Promise<AdapterHealth> {
+    const startedAt = Date.now();
+
+    try {
+      const collection = await this.fetchResource(this.collectionUrl);
+      const { manifests, collections } = getCollectionMembers(collection);
+      return {
+        ok: true,
+        adapter: "iiif",
+        latencyMs: Date.now() - startedAt,
+        message: `${manifests.length} manifests and ${collections.length} sub-collections at the root`,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        adapter: "iiif",
+        latencyMs: Date.now() - startedAt,
+        message: error instanceof Error ? error.message : "IIIF collection unavailable",
+      };
+    }
+  }
+
+  /**
+   * Enumerate every harvested manifest
+   */
+  async getFullItemIndex(): Promise<ArchiveItem[]> {
+    const index = await this.loadIndex();
+    return index.listItems();
+  }
+
+  /**
+   * Search harvested labels and metadata
+   */
+  async search(req: SearchRequest): Promise<SearchResponse> {
+    const index = await this.loadIndex();
+    return index.search(req);
+  }
+
+  /**
+   * Fetch items for a specific tile
+   */
+  async fetchTile(req: TileRequest): Promise<ArchiveItem[]> {
+    try {
+      const index = await this.loadIndex();
+      return index.fetchTile(req);
+    } catch (error) {
+      console.error("Error fetching tile items:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get detailed information for a single item
+   */
+  async getItem(id: string): Promise<ItemDetail | null> {
+    const index = await this.loadIndex();
+    return index.getItem(id);
+  }
+
+  /**
+   * List collections from harvested manifest metadata
+   */
+  async listCollections(): Promise<ArchiveCollection[]> {
+    const index = await this.loadIndex();
+    return index.listCollections();
+  }
+
+  /**
+   * Count subjects or publishers across the harvested manifests
+   */
+  async listNames(field: NameField): Promise<NameCount[]> {
+    const index = await this.loadIndex();
+    return index.listNames(field);
+  }
+
+  /**
+   * Items related to an item by shared authors, subjects or collections
+   */
+  async getRelatedItems(id: string, limit?: number): Promise<ArchiveItem[]> {
+    const index = await this.loadIndex();
+    return index.getRelatedItems(id, limit);
+  }
+}
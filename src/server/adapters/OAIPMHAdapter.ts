@@ -0,0 +1,347 @@
+import type {
+  ArchiveCollection,
+  ArchiveItem,
+  DocumentSource,
+  ItemDetail,
+  NameCount,
+  NameField,
+  SearchRequest,
+  SearchResponse,
+  TileRequest,
+} from "@/lib/types";
+import { isPlayableSource, labelDocumentSources } from "@/lib/document-sources";
+import type { AdapterHealth, DataAdapter, ItemIndexStatus } from "./DataAdapter";
+import { toNumericItemId } from "./adapter-utils";
+import { CatalogIndex } from "./catalog-index";
+import { getHarvestedIndex, type HarvestedIndex } from "./harvested-index";
+import { getDateFields } from "./dates";
+import { resolveCanonicalType, resolveLanguage } from "./normalization";
+import { parseListRecords, parseListSets, type OAIRecord } from "./oai-pmh";
+
+// Environment configuration
+const OAI_BASE_URL = process.env.OAI_BASE_URL || "";
+const OAI_SET = process.env.OAI_SET || "";
+const OAI_MAX_RECORDS = Number.parseInt(process.env.OAI_MAX_RECORDS || "20000", 10);
+
+// A stalled response is retried rather than holding up the harvest
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * OAIPMHAdapter: Harvests an OAI-PMH endpoint (ListRecords, oai_dc) into a
+ * local index and serves the DataAdapter methods from it
+ */
+export class OAIPMHAdapter implements DataAdapter {
+  private baseUrl: string;
+  private set: string;
+  private maxRecords: number;
+  private harvested: HarvestedIndex;
+
+  constructor(baseUrl = OAI_BASE_URL, set = OAI_SET, maxRecords = OAI_MAX_RECORDS) {
+    this.baseUrl = baseUrl;
+    this.set = set;
+    this.maxRecords = maxRecords;
+    this.harvested = getHarvestedIndex(`oai-pmh|${baseUrl}|${set}`, "oai-pmh", () => this.harvestIndex());
+  }
+
+  private async fetchXml(params: URLSearchParams, attempts = 3): Promise<string> {
+    const url = `${this.baseUrl}?${params.toString()}`;
+    let lastError: unknown = null;
+
+    for (let attempt = 1; attempt <= attempts; attempt += 1) {
+      try {
+        const response = await fetch(url, {
+          headers: { Accept: "text/xml, application/xml" },
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          throw new Error(`OAI-PMH request failed: ${response.status} ${response.statusText}`);
+        }
+
+        return await response.text();
+      } catch (error) {
+        lastError = error;
+
+        if (attempt === attempts) {
+          break;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, attempt * 400));
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error("OAI-PMH request failed");
+  }
+
+  /**
+   * Map setSpec values to set names for collection labels
+   * Repositories without set support simply yield an empty map
+   */
+  private async fetchSetNames(): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    let params = new URLSearchParams({ verb: "ListSets" });
+
+    try {
+      while (true) {
+        const page = parseListSets(await this.fetchXml(params));
+        for (const set of page.entries) {
+          names.set(set.setSpec, set.setName || set.setSpec);
+        }
+
+        if (!page.resumptionToken) break;
+        params = new URLSearchParams({ verb: "ListSets", resumptionToken: page.resumptionToken });
+      }
+    } catch (error) {
+      console.error("Error listing OAI-PMH sets:", error);
+    }
+
+    return names;
+  }
+
+  /**
+   * Page through ListRecords following resumption tokens
+   */
+  private async harvestRecords(): Promise<OAIRecord[]> {
+    const records = new Map<string, OAIRecord>();
+    let params = new URLSearchParams({ verb: "ListRecords", metadataPrefix: "oai_dc" });
+    if (this.set) {
+      params.set("set", this.set);
+    }
+
+    while (records.size < this.maxRecords) {
+      const page = parseListRecords(await this.fetchXml(params));
+
+      for (const record of page.entries) {
+        // Later pages win so updated and deleted records replace earlier copies
+        if (record.deleted) {
+          records.delete(record.identifier);
+        } else {
+          records.set(record.identifier, record);
+        }
+      }
+
+      if (!page.resumptionToken) break;
+      params = new URLSearchParams({ verb: "ListRecords", resumptionToken: page.resumptionToken });
+    }
+
+    return Array.from(records.values()).slice(0, this.maxRecords);
+  }
+
+  /**
+   * Pick viewable documents and thumbnails out of dc:identifier and dc:relation links
+   */
+  private classifyLinks(links: string[]): {
+    sourceUrl: string | null;
+    thumbnailUrl: string | null;
+    documentSources: DocumentSource[];
+  } {
+    const urls = links.filter((link) => /^https?:\/\//i.test(link));
+    const isImage = (url: string) => /\.(jpe?g|png|gif|webp)(\?|$)/i.test(url) || /thumbnail/i.test(url);
+    const isPdf = (url: string) => /\.pdf(\?|$)/i.test(url);
+    const isManifest = (url: string) => /manifest/i.test(url);
+    const isAudio = (url: string) => /\.(mp3|m4a|wav|ogg|oga|flac)(\?|$)/i.test(url);
+    const isVideo = (url: string) => /\.(mp4|m4v|webm|ogv|mov)(\?|$)/i.test(url);
+    const isViewable = (url: string) => isPdf(url) || isManifest(url) || isAudio(url) || isVideo(url);
+
+    // Manifests first; the first source is the one the reader opens by default
+    const documentSources: DocumentSource[] = [
+      ...urls.filter(isManifest).map((url) => ({ type: "iiif" as const, url })),
+      ...urls
+        .filter((url) => isPdf(url) && !isManifest(url))
+        .map((url) => ({ type: "pdf" as const, url })),
+      ...urls.filter(isAudio).map((url) => ({ type: "audio" as const, url })),
+      ...urls.filter(isVideo).map((url) => ({ type: "video" as const, url })),
+    ];
+
+    return {
+      sourceUrl: urls.find((url) => !isImage(url) && !isViewable(url)) ?? null,
+      thumbnailUrl: urls.find(isImage) ?? null,
+      documentSources: labelDocumentSources(documentSources),
+    };
+  }
+
+  /**
+   * Map an oai_dc record onto ItemDetail
+   */
+  private transformRecord(record: OAIRecord, setNames: Map<string, string>): ItemDetail {
+    const dc = record.dc;
+    const title = dc.title?.[0] || "Untitled";
+    const subjects = dc.subject ?? [];
+    const identifiers = dc.identifier ?? [];
+    const links = this.classifyLinks([...identifiers, ...(dc.relation ?? [])]);
+
+    const { language, languageInferred } = resolveLanguage(dc.language?.[0], [
+      title,
+      dc.description?.[0],
+    ]);
+    const { type, typeSource, typeConfidence } = resolveCanonicalType(dc.type ?? [], {
+      title,
+      subjects,
+      identifiers,
+      mediums: dc.format,
+    });
+
+    // Recordings show the record's thumbnail as their poster
+    const documentSources = links.documentSources.map((source) =>
+      isPlayableSource(source) ? { ...source, posterUrl: links.thumbnailUrl } : source
+    );
+
+    const collections = record.setSpecs
+      .map((spec) => setNames.get(spec) ?? spec)
+      .filter(Boolean);
+
+    const getRecordUrl = `${this.baseUrl}?${new URLSearchParams({
+      verb: "GetRecord",
+      metadataPrefix: "oai_dc",
+      identifier: record.identifier,
+    }).toString()}`;
+
+    return {
+      id: toNumericItemId(record.identifier),
+      title,
+      ...getDateFields(dc.date?.[0]),
+      language,
+      languageInferred,
+      type,
+      typeSource,
+      typeConfidence,
+      collection: collections[0] ?? null,
+      collections: collections.length > 0 ? collections : undefined,
+      authors: dc.creator && dc.creator.length > 0 ? dc.creator : undefined,
+      thumbnailUrl: links.thumbnailUrl,
+      sourceUrl: links.sourceUrl ?? getRecordUrl,
+      description: dc.description?.[0] ?? null,
+      subjects: subjects.length > 0 ? subjects : undefined,
+      publisher: dc.publisher?.[0] ?? null,
+      rights: dc.rights?.[0] ?? null,
+      fullImageUrl: links.thumbnailUrl,
+      documentSource: documentSources[0] ?? null,
+      documentSources: documentSources.length > 0 ? documentSources : undefined,
+    };
+  }
+
+  /**
+   * Harvest every record from the endpoint into a catalog
+   */
+  private async harvestIndex(): Promise<CatalogIndex> {
+    if (!this.baseUrl) {
+      throw new Error("OAI_BASE_URL is not configured");
+    }
+
+    const [setNames, records] = await Promise.all([
+      this.fetchSetNames(),
+      this.harvestRecords(),
+    ]);
+
+    return new CatalogIndex(records.map((record) => this.transformRecord(record, setNames)));
+  }
+
+  /**
+   * The harvested catalog, re-harvested in the background once it is CACHE_TTL.DEFAULT old
+   */
+  private loadIndex(): Promise<CatalogIndex> {
+    return this.harvested.load();
+  }
+
+  /**
+   * Start harvesting the endpoint; requests wait for the first harvest only
+   */
+  async init(): Promise<void> {
+    this.loadIndex().catch(() => {
+      // Reported through getIndexStatus and retried by the next request
+    });
+  }
+
+  /**
+   * Progress of the endpoint harvest
+   */
+  getIndexStatus(): ItemIndexStatus {
+    return this.harvested.getStatus();
+  }
+
+  /**
+   * Probe the endpoint with an Identify request
+   */
+  async healthCheck(): Promise<AdapterHealth> {
+    const startedAt = Date.now();
+
+    try {
+      const xml = await this.fetchXml(new URLSearchParams({ verb: "Identify" }), 1);
+      const repositoryName = xml.match(/<repositoryName>([\s\S]*?)<\/repositoryName>/)?.[1];
+      return {
+        ok: true,
+        adapter: "oai-pmh",
+        latencyMs: Date.now() - startedAt,
+        message: repositoryName?.trim(),
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        adapter: "oai-pmh",
+        latencyMs: Date.now() - startedAt,
+        message: error instanceof Error ? error.message : "OAI-PMH endpoint unavailable",
+      };
+    }
+  }
+
+  /**
+   * Enumerate every harvested record
+   */
+  async getFullItemIndex(): Promise<ArchiveItem[]> {
+    const index = await this.loadIndex();
+    return index.listItems();
+  }
+
+  /**
+   * Search harvested records with query and filters
+   */
+  async search(req: SearchRequest): Promise<SearchResponse> {
+    const index = await this.loadIndex();
+    return index.search(req);
+  }
+
+  /**
+   * Fetch items for a specific tile
+   */
+  async fetchTile(req: TileRequest): Promise<ArchiveItem[]> {
+    try {
+      const index = await this.loadIndex();
+      return index.fetchTile(req);
+    } catch (error) {
+      console.error("Error fetching tile items:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get detailed information for a single item
+   */
+  async getItem(id: string): Promise<ItemDetail | null> {
+    const index = await this.loadIndex();
+    return index.getItem(id);
+  }
+
+  /**
+   * List collections from the sets of harvested records
+   */
+  async listCollections(): Promise<ArchiveCollection[]> {
+    const index = await this.loadIndex();
+    return index.listCollections();
+  }
+
+  /**
+   * Count subjects or publishers across the harvested records
+   */
+  async listNames(field: NameField): Promise<NameCount[]> {
+    const index = await this.loadIndex();
+    return index.listNames(field);
+  }
+
+  /**
+   * Items related to an item by shared authors, subjects or collections
+   */
+  async getRelatedItems(id: string, limit?: number): Promise<ArchiveItem[]> {
+    const index = await this.loadIndex();
+    return index.getRelatedItems(id, limit);
+  }
+}
@@ -1,21 +1,95 @@
 import type {
+  ArchiveCollection,
   ArchiveItem,
   ItemDetail,
   MediaFile,
   DocumentSource,
+  NameCount,
+  NameField,
   SearchRequest,
   SearchResponse,
-  SearchFilters,
+  SearchSort,
   TileRequest,
-  Facets,
 } from "@/lib/types";
-import { TIME_RANGES } from "@/lib/types";
+import path from "node:path";
 import { getCache, CACHE_TTL } from "@/lib/cache";
-import type { DataAdapter } from "./DataAdapter";
+import {
+  getPlayableSource,
+  isPlayableSource,
+  labelDocumentSources,
+  ZOOMABLE_TYPES,
+} from "@/lib/document-sources";
+import { getImageServiceUrl, getScaledImageUrl } from "@/lib/iiif-image";
+import { parseChapters } from "@/lib/media-time";
+import { normalizeMalayalam, toOldStyleChillu } from "@/lib/malayalam";
+import { FullTextIndex, toFullTextDocument } from "@/server/full-text-index";
+import { countNames, getNameSpellings } from "@/server/name-index";
+import { findRelatedItems } from "@/server/related-items";
+import {
+  laterTimestamp,
+  readItemIndex,
+  writeItemIndex,
+  ITEM_INDEX_FORMAT_VERSION,
+  type PersistedItemIndex,
+} from "@/server/item-index-store";
+import { ThumbnailStore } from "@/server/thumbnail-store";
+import { UpstreamClient, type UpstreamRequestOptions } from "@/server/upstream-client";
+import type { AdapterEnv, AdapterHealth, DataAdapter, ItemIndexStatus } from "./DataAdapter";
+import {
+  applySearchFilters,
+  computeFacets,
+  getTilePlacement,
+  hasActiveFilters,
+  shuffleWithSeed,
+  sortItems,
+  TILE_PAGE_SIZE,
+} from "./adapter-utils";
+import { toArchiveItem } from "./catalog-index";
+import { getDateFields } from "./dates";
+import {
+  resolveCanonicalType,
+  resolveLanguage,
+} from "./normalization";
+import { getFirstCanvasThumbnail, type IIIFResource } from "./iiif";
+import { buildOmekaFilterQuery, type OmekaFilterQuery } from "./omeka-query";
+
+// Default configuration; federated sources can override any of it per namespace
+const OMEKA_BASE_URL = "https://gpura.org";
+const OMEKA_ITEMS_ENDPOINT = "/api/items";
+const OMEKA_ITEM_SETS_ENDPOINT = "/api/item_sets";
+const OMEKA_INDEX_PATH = "data/index/omeka-items.json";
+const OMEKA_THUMBNAIL_PATH = "data/index/omeka-thumbnails.json";
+
+type OmekaConfig = {
+  baseUrl: string;
+  itemsEndpoint: string;
+  itemSetsEndpoint: string;
+  indexPath: string | null; // null keeps the full item index in memory only
+  indexRefreshMinutes: number;
+  thumbnailPath: string | null; // Covers resolved from media; null keeps them in memory only
+  maxConcurrency: number; // Requests to Omeka in flight at once
+  timeoutMs: number; // How long each request may take
+};
 
-// Environment configuration
-const OMEKA_BASE_URL = process.env.OMEKA_BASE_URL || "https://gpura.org";
-const OMEKA_ITEMS_ENDPOINT = process.env.OMEKA_ITEMS_ENDPOINT || "/api/items";
+/**
+ * Read the Omeka settings from environment variables
+ * Empty OMEKA_INDEX_PATH or OMEKA_THUMBNAIL_PATH keeps that data in memory only
+ */
+function readOmekaConfig(env: AdapterEnv): OmekaConfig {
+  const indexPath = env.OMEKA_INDEX_PATH ?? OMEKA_INDEX_PATH;
+  const thumbnailPath = env.OMEKA_THUMBNAIL_PATH ?? OMEKA_THUMBNAIL_PATH;
+
+  return {
+    baseUrl: env.OMEKA_BASE_URL || OMEKA_BASE_URL,
+    itemsEndpoint: env.OMEKA_ITEMS_ENDPOINT || OMEKA_ITEMS_ENDPOINT,
+    itemSetsEndpoint: env.OMEKA_ITEM_SETS_ENDPOINT || OMEKA_ITEM_SETS_ENDPOINT,
+    indexPath: indexPath ? path.resolve(process.cwd(), indexPath) : null,
+    indexRefreshMinutes: Number.parseInt(env.OMEKA_INDEX_REFRESH_MINUTES || "60", 10),
+    thumbnailPath: thumbnailPath ? path.resolve(process.cwd(), thumbnailPath) : null,
+    maxConcurrency: Number.parseInt(env.OMEKA_MAX_CONCURRENCY || "8", 10),
+    timeoutMs: Number.parseInt(env.OMEKA_TIMEOUT_MS || "10000", 10),
+  };
+}
 
 /**
  * Property mappings for Omeka S Dublin Core fields
@@ -35,58 +109,110 @@ const PROPERTY_MAP = {
   medium: "dcterms:medium",
   publisher: "dcterms:publisher",
   rights: "dcterms:rights",
+  tableOfContents: "dcterms:tableOfContents",
 } as const;
 
 const PRODUCER_PROPERTY = "bibo:producer";
-const fullItemIndexCache = getCache<ArchiveItem[]>("omeka-full-item-index");
-let fullItemIndexPromise: Promise<ArchiveItem[]> | null = null;
 
 /**
- * Language code mappings for Omeka values
+ * Omeka sort_by and sort_order for each search sort; property terms sort by value
  */
-const LANGUAGE_MAP: Record<string, string> = {
-  malayalam: "ml",
-  english: "en",
-  tamil: "ta",
-  sanskrit: "sa",
-  hindi: "hi",
-  kannada: "kn",
-  telugu: "te",
-  arabic: "ar",
-  portuguese: "pt",
-  dutch: "nl",
-  german: "de",
-  french: "fr",
-  latin: "la",
-  punjabi: "pa",
-  // ISO codes map to themselves
-  ml: "ml",
-  en: "en",
-  ta: "ta",
-  sa: "sa",
-  hi: "hi",
+const OMEKA_SORT_PARAMS: Record<SearchSort, [string, "asc" | "desc"]> = {
+  newest: ["created", "desc"],
+  "year-desc": [PROPERTY_MAP.issued, "desc"],
+  "year-asc": [PROPERTY_MAP.issued, "asc"],
+  title: ["title", "asc"],
+  // Only used while the full-text index is still being built
+  relevance: ["created", "desc"],
 };
 
 /**
- * Type mappings for Omeka resource types
+ * Sorts Omeka compares as raw strings; served from the item index once it is loaded
  */
-const TYPE_MAP: Record<string, string> = {
-  book: "book",
-  books: "book",
-  periodical: "periodical",
-  periodicals: "periodical",
-  image: "image",
-  "still image": "image",
-  audio: "audio",
-  sound: "audio",
-  video: "video",
-  "moving image": "video",
-  manuscript: "manuscript",
-  text: "book",
-  map: "map",
-  newspaper: "newspaper",
+const INDEX_SORTS = new Set<SearchSort>(["year-desc", "year-asc", "title"]);
+
+/**
+ * Index, thumbnails and request client of one Omeka archive, shared by every adapter
+ * instance pointing at it
+ */
+type OmekaArchiveState = {
+  index: PersistedItemIndex | null;
+  indexPromise: Promise<PersistedItemIndex> | null;
+  refreshPromise: Promise<void> | null;
+  status: ItemIndexStatus;
+  thumbnails: ThumbnailStore;
+  // Every request to the archive goes through one client, so a struggling upstream is paced and paused as a whole
+  upstream: UpstreamClient;
+  // Item set titles by ID, for item payloads whose item set references carry no title
+  itemSetTitles: Map<number, string>;
 };
 
+const archiveStates = new Map<string, OmekaArchiveState>();
+
+function getArchiveState(config: OmekaConfig): OmekaArchiveState {
+  let state = archiveStates.get(config.baseUrl);
+  if (!state) {
+    state = {
+      index: null,
+      indexPromise: null,
+      refreshPromise: null,
+      status: {
+        adapter: "omeka",
+        state: "empty",
+        itemCount: 0,
+        loadedFrom: null,
+        builtAt: null,
+        syncedAt: null,
+        persistedPath: null,
+        progress: null,
+        lastRefresh: null,
+        error: null,
+      },
+      thumbnails: new ThumbnailStore(config.thumbnailPath, "omeka"),
+      upstream: new UpstreamClient(`Omeka (${config.baseUrl})`, {
+        concurrency: config.maxConcurrency,
+        timeoutMs: config.timeoutMs,
+      }),
+      itemSetTitles: new Map(),
+    };
+    archiveStates.set(config.baseUrl, state);
+  }
+  return state;
+}
+
+// IIIF manifests can live on other hosts; each gets its own client, so their failures
+// neither open the archive's circuit nor take its request slots
+const manifestClients = new Map<string, UpstreamClient>();
+
+function getManifestClient(manifestUrl: string, config: OmekaConfig, archive: OmekaArchiveState): UpstreamClient {
+  const host = new URL(manifestUrl).host;
+  if (host === new URL(config.baseUrl).host) return archive.upstream;
+
+  let client = manifestClients.get(host);
+  if (!client) {
+    client = new UpstreamClient(`IIIF (${host})`, { timeoutMs: config.timeoutMs });
+    manifestClients.set(host, client);
+  }
+  return client;
+}
+
+// List views and text indexes derived from each index version
+const fullItemIndexViews = new WeakMap<
+  PersistedItemIndex,
+  {
+    items: ArchiveItem[];
+    itemsById: Map<string, ArchiveItem>;
+    recordsById: Map<string, ItemDetail>;
+    textIndex: FullTextIndex | null;
+    classlessTypes: Map<string, number[] | null>;
+    inferredLanguages: Set<string>;
+    yearSpans: Array<[number, number]>;
+    nameSpellings: Record<NameField, Map<string, string[]>>;
+  }
+>();
+const itemSetCache = getCache<OmekaItemSet[]>("omeka-item-sets");
+const collectionCache = getCache<ArchiveCollection[]>("omeka-collections");
+
 const RESOURCE_CLASS_TYPE_MAP: Record<number, string> = {
   26: "image",
   30: "audio",
@@ -101,140 +227,326 @@ const RESOURCE_CLASS_TYPE_MAP: Record<number, string> = {
   100: "image",
 };
 
+// Statuses that mean media or a manifest is gone, rather than failing for now
+const MISSING_STATUSES = new Set([404, 410]);
+// How long a tile waits for covers before leaving their items out
+const TILE_THUMBNAIL_DEADLINE_MS = 4000;
+
+/**
+ * Resource classes of the items typed other than by their class, by type;
+ * null for a type once one of its items has no class
+ */
+function getClasslessTypes(items: ItemDetail[]): Map<string, number[] | null> {
+  const classIds = new Map<string, Set<number> | null>();
+
+  for (const item of items) {
+    if (!item.type || item.typeSource === "resource-class") continue;
+
+    const ids = classIds.get(item.type);
+    if (ids === null) continue;
+    classIds.set(
+      item.type,
+      item.resourceClassId == null ? null : (ids ?? new Set<number>()).add(item.resourceClassId)
+    );
+  }
+
+  return new Map(
+    Array.from(classIds, ([type, ids]) => [type, ids ? Array.from(ids) : null] as const)
+  );
+}
+
+/**
+ * Distinct spans of the item dates that cover more than one year
+ */
+function getYearSpans(items: ItemDetail[]): Array<[number, number]> {
+  const spans = new Map<string, [number, number]>();
+
+  for (const { yearStart, yearEnd } of items) {
+    if (yearStart == null || yearEnd == null || yearEnd <= yearStart) continue;
+    spans.set(`${yearStart}-${yearEnd}`, [yearStart, yearEnd]);
+  }
+
+  return Array.from(spans.values());
+}
+
+/**
+ * Settle with `fallback` if the promise has not settled within `ms`
+ */
+function withDeadline<T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<T>((resolve) => {
+    timer = setTimeout(() => resolve(fallback), ms);
+  });
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
 /**
  * OmekaAdapter: Fetches and transforms data from gpura.org (Omeka S)
  */
 export class OmekaAdapter implements DataAdapter {
+  private config: OmekaConfig;
+  private archive: OmekaArchiveState;
   private baseUrl: string;
   private itemsEndpoint: string;
-
-  constructor() {
-    this.baseUrl = OMEKA_BASE_URL;
-    this.itemsEndpoint = OMEKA_ITEMS_ENDPOINT;
+  private itemSetsEndpoint: string;
+
+  constructor(env: AdapterEnv = process.env) {
+    this.config = readOmekaConfig(env);
+    this.archive = getArchiveState(this.config);
+    this.baseUrl = this.config.baseUrl;
+    this.itemsEndpoint = this.config.itemsEndpoint;
+    this.itemSetsEndpoint = this.config.itemSetsEndpoint;
   }
 
-  private hasActiveFilters(filters?: SearchFilters): boolean {
-    if (!filters) return false;
+  private get indexPath(): string | null {
+    return this.config.indexPath;
+  }
 
-    return (
-      (filters.languages?.length ?? 0) > 0 ||
-      (filters.types?.length ?? 0) > 0 ||
-      (filters.collections?.length ?? 0) > 0 ||
-      (filters.periods?.length ?? 0) > 0 ||
-      filters.yearMin !== undefined ||
-      filters.yearMax !== undefined
-    );
+  private setIndexStatus(update: Partial<ItemIndexStatus>): void {
+    this.archive.status = { ...this.archive.status, ...update };
   }
 
-  private applyClientSideFilters(
-    items: ArchiveItem[],
-    filters?: SearchFilters
-  ): ArchiveItem[] {
-    if (!filters) {
-      return items;
-    }
+  /**
+   * Swap in a new index and persist it, keeping the in-memory copy if the write fails
+   * Subject and publisher counts are recomputed from the items
+   */
+  private async storeItemIndex(
+    update: Omit<PersistedItemIndex, "names">
+  ): Promise<PersistedItemIndex> {
+    // Covers resolved while the index was being crawled
+    const items = update.items.map((item) => this.withStoredThumbnail(item));
+    const index: PersistedItemIndex = {
+      ...update,
+      items,
+      names: {
+        subjects: countNames(items, "subjects"),
+        publishers: countNames(items, "publishers"),
+      },
+    };
+    this.archive.index = index;
+    this.setIndexStatus({
+      itemCount: index.items.length,
+      builtAt: index.builtAt,
+      syncedAt: index.syncedAt,
+    });
 
-    let filteredItems = items;
+    const indexPath = this.indexPath;
+    if (!indexPath) return index;
 
-    if (filters.languages && filters.languages.length > 0) {
-      filteredItems = filteredItems.filter(
-        (item) => item.language && filters.languages!.includes(item.language)
-      );
+    try {
+      await writeItemIndex(indexPath, index);
+    } catch (error) {
+      console.error(`Error writing item index to ${indexPath}:`, error);
     }
+    return index;
+  }
 
-    if (filters.types && filters.types.length > 0) {
-      filteredItems = filteredItems.filter(
-        (item) => item.type && filters.types!.includes(item.type)
-      );
+  /**
+   * Created and modified timestamps of a raw Omeka item
+   */
+  private getItemTimestamp(item: OmekaItem, field: "o:created" | "o:modified"): string | null {
+    const value = item[field];
+    if (value && typeof value === "object" && "@value" in value) {
+      return String((value as { "@value": unknown })["@value"]);
     }
+    return typeof value === "string" ? value : null;
+  }
 
-    if (filters.yearMin !== undefined) {
-      filteredItems = filteredItems.filter(
-        (item) => item.year != null && item.year >= filters.yearMin!
-      );
+  /**
+   * Load the persisted index and thumbnails from disk without touching the network
+   */
+  async init(): Promise<void> {
+    await this.archive.thumbnails.load();
+
+    const indexPath = this.indexPath;
+    this.setIndexStatus({ persistedPath: indexPath });
+
+    if (this.archive.index || !indexPath) return;
+
+    const persisted = await readItemIndex(indexPath, "omeka");
+    if (persisted) {
+      this.archive.index = persisted;
+      this.setIndexStatus({
+        state: "ready",
+        itemCount: persisted.items.length,
+        loadedFrom: "disk",
+        builtAt: persisted.builtAt,
+        syncedAt: persisted.syncedAt,
+      });
     }
+  }
 
-    if (filters.yearMax !== undefined) {
-      filteredItems = filteredItems.filter(
-        (item) => item.year != null && item.year <= filters.yearMax!
-      );
-    }
+  /**
+   * Write thumbnails resolved since the last save
+   */
+  async dispose(): Promise<void> {
+    await this.archive.thumbnails.flush();
+  }
 
-    if (filters.periods && filters.periods.length > 0) {
-      const selectedRanges: Array<{ label: string; min?: number; max?: number }> = [];
+  /**
+   * Report how far the full item index has been built or refreshed
+   */
+  getIndexStatus(): ItemIndexStatus {
+    return this.archive.status;
+  }
 
-      for (const label of filters.periods) {
-          const predefined = TIME_RANGES.find((range) => range.label === label);
-          if (predefined) {
-            selectedRanges.push({
-              label: predefined.label,
-              min: predefined.min,
-              max: predefined.max,
-            });
-            continue;
-          }
+  /**
+   * Enumerate every item in the archive
+   * Served from memory or disk while stale copies refresh in the background
+   */
+  async getFullItemIndex(): Promise<ArchiveItem[]> {
+    return this.getIndexView(await this.loadFullItemIndex()).items;
+  }
 
-          const rangeMatch = label.match(/^(\d{3,4})\s*[–-]\s*(\d{3,4})$/);
-          if (rangeMatch) {
-            const min = parseInt(rangeMatch[1], 10);
-            const max = parseInt(rangeMatch[2], 10);
-            selectedRanges.push({ label, min, max });
-            continue;
-          }
+  /**
+   * Subject or publisher counts stored with the full item index
+   */
+  async listNames(field: NameField): Promise<NameCount[]> {
+    return (await this.loadFullItemIndex()).names[field];
+  }
 
-          const yearMatch = label.match(/^(\d{3,4})$/);
-          if (yearMatch) {
-            const year = parseInt(yearMatch[1], 10);
-            selectedRanges.push({ label, min: year, max: year });
-          }
-        }
+  /**
+   * Related items scored over the full item index
+   * Empty until the index has been built once, like relevance search
+   */
+  async getRelatedItems(id: string, limit?: number): Promise<ArchiveItem[]> {
+    if (!this.archive.index) {
+      this.buildFullItemIndex().catch((error) => {
+        console.error("Error building item index:", error);
+      });
+      return [];
+    }
 
-      if (selectedRanges.length > 0) {
-        filteredItems = filteredItems.filter((item) => {
-          if (item.year == null) return false;
-          const itemYear = item.year;
+    const index = await this.loadFullItemIndex();
+    const view = this.getIndexView(index);
+    // Items created since the last sync are not indexed yet
+    const target = view.recordsById.get(id) ?? (await this.getItem(id));
+    if (!target) {
+      return [];
+    }
 
-          return selectedRanges.some((range) => {
-            const min = range.min ?? -Infinity;
-            const max = range.max ?? Infinity;
-            return itemYear >= min && itemYear <= max;
-          });
-        });
-      }
+    return findRelatedItems(target, index.items, limit).map(
+      (record) => view.itemsById.get(record.id)!
+    );
+  }
+
+  private async loadFullItemIndex(): Promise<PersistedItemIndex> {
+    const index = this.archive.index ?? (await this.buildFullItemIndex());
+
+    const refreshAfter = this.config.indexRefreshMinutes * 60 * 1000;
+    if (Date.now() - Date.parse(index.syncedAt) > refreshAfter) {
+      void this.refreshFullItemIndex();
     }
 
-    if (filters.collections && filters.collections.length > 0) {
-      filteredItems = filteredItems.filter(
-        (item) =>
-          item.collection &&
-          filters.collections!.includes(item.collection)
-      );
+    return index;
+  }
+
+  private getIndexView(index: PersistedItemIndex) {
+    let view = fullItemIndexViews.get(index);
+    if (!view) {
+      const items = index.items.map((item) => toArchiveItem(item));
+      view = {
+        items,
+        itemsById: new Map(items.map((item) => [item.id, item])),
+        recordsById: new Map(index.items.map((item) => [item.id, item])),
+        textIndex: null,
+        classlessTypes: getClasslessTypes(index.items),
+        inferredLanguages: new Set(
+          index.items
+            .filter((item) => item.language && item.languageInferred)
+            .map((item) => item.language!)
+        ),
+        yearSpans: getYearSpans(index.items),
+        nameSpellings: {
+          subjects: getNameSpellings(index.items, "subjects"),
+          publishers: getNameSpellings(index.items, "publishers"),
+        },
+      };
+      fullItemIndexViews.set(index, view);
     }
+    return view;
+  }
 
-    return filteredItems;
+  /**
+   * Filter and sort index records, returning the requested page as list items
+   */
+  private pageIndexRecords(
+    view: ReturnType<OmekaAdapter["getIndexView"]>,
+    records: ItemDetail[],
+    req: SearchRequest
+  ): { items: ArchiveItem[]; total: number } {
+    const page = req.page || 1;
+    const pageSize = req.pageSize || 40;
+    const filteredRecords = applySearchFilters(records, req.filters);
+    const sortedRecords =
+      req.sort === "relevance" ? filteredRecords : sortItems(filteredRecords, req.sort);
+    const offset = (page - 1) * pageSize;
+
+    return {
+      items: sortedRecords
+        .slice(offset, offset + pageSize)
+        .map((record) => view.itemsById.get(record.id)!),
+      total: sortedRecords.length,
+    };
   }
 
-  private async getFullItemIndex(): Promise<ArchiveItem[]> {
-    const CACHE_KEY = "all-items-v2";
-    const cached = fullItemIndexCache.get(CACHE_KEY, CACHE_TTL.DEFAULT);
-    if (cached) {
-      return cached;
+  /**
+   * Match the query against the full item index, ranked or in the requested sort,
+   * falling back to Omeka's unranked search while the index is still being built
+   */
+  private async searchByTextIndex(req: SearchRequest): Promise<SearchResponse | null> {
+    if (!this.archive.index) {
+      this.buildFullItemIndex().catch((error) => {
+        console.error("Error building item index:", error);
+      });
+      return null;
     }
 
-    if (fullItemIndexPromise) {
-      return fullItemIndexPromise;
+    const index = await this.loadFullItemIndex();
+    const view = this.getIndexView(index);
+    view.textIndex ??= new FullTextIndex(index.items.map((item) => toFullTextDocument(item)));
+
+    const { matches, transliteratedQuery } = view.textIndex.search(req.q ?? "");
+    const matchingRecords = matches
+      .map((match) => view.recordsById.get(match.id))
+      .filter((item): item is ItemDetail => Boolean(item));
+
+    return {
+      ...this.pageIndexRecords(view, matchingRecords, req),
+      facets: computeFacets(matchingRecords),
+      transliteratedQuery,
+    };
+  }
+
+  /**
+   * Crawl every item page, 2 pages of 100 at a time
+   */
+  private buildFullItemIndex(): Promise<PersistedItemIndex> {
+    if (this.archive.indexPromise) {
+      return this.archive.indexPromise;
     }
 
-    fullItemIndexPromise = (async () => {
+    const startedAt = Date.now();
+    this.setIndexStatus({ state: this.archive.index ? "refreshing" : "building", error: null });
+
+    this.archive.indexPromise = (async () => {
+      // Item references carry only IDs; collection names come from the item set titles
+      await this.getItemSets();
+
       const perPage = 100;
       const firstBatch = await this.fetchIndexPage(1, perPage);
       const totalPages = Math.max(1, Math.ceil(firstBatch.totalResults / perPage));
       const seenIds = new Set<string>();
-      const collected: ArchiveItem[] = [];
+      const collected: ItemDetail[] = [];
+      const watermarks: PersistedItemIndex["watermarks"] = { created: null, modified: null };
+      let donePages = 1;
 
       const collectItems = (rawItems: OmekaItem[]) => {
         for (const item of rawItems) {
-          const transformed = this.transformItem(item);
+          watermarks.created = laterTimestamp(watermarks.created, this.getItemTimestamp(item, "o:created"));
+          watermarks.modified = laterTimestamp(watermarks.modified, this.getItemTimestamp(item, "o:modified"));
+
+          const transformed = this.transformListItem(item);
           if (seenIds.has(transformed.id)) {
             continue;
           }
@@ -245,6 +557,7 @@ export class OmekaAdapter implements DataAdapter {
       };
 
       collectItems(firstBatch.items);
+      this.setIndexStatus({ progress: { done: donePages, total: totalPages } });
 
       const BATCH_SIZE = 2;
       for (let startPage = 2; startPage <= totalPages; startPage += BATCH_SIZE) {
@@ -267,40 +580,149 @@ export class OmekaAdapter implements DataAdapter {
         for (const batch of batchResults) {
           collectItems(batch.items);
         }
+
+        donePages += pages.length;
+        this.setIndexStatus({ progress: { done: donePages, total: totalPages } });
       }
 
-      fullItemIndexCache.set(CACHE_KEY, collected);
-      fullItemIndexCache.cleanup(CACHE_TTL.DEFAULT, 4);
+      const now = new Date().toISOString();
+      const index = await this.storeItemIndex({
+        formatVersion: ITEM_INDEX_FORMAT_VERSION,
+        adapter: "omeka",
+        builtAt: now,
+        syncedAt: now,
+        watermarks,
+        items: collected,
+      });
+      this.setIndexStatus({
+        state: "ready",
+        loadedFrom: "network",
+        progress: null,
+        lastRefresh: { mode: "full", changed: collected.length, durationMs: Date.now() - startedAt },
+      });
 
-      return collected;
-    })().finally(() => {
-      fullItemIndexPromise = null;
-    });
+      return index;
+    })()
+      .catch((error) => {
+        this.setIndexStatus({
+          state: this.archive.index ? "ready" : "error",
+          progress: null,
+          error: error instanceof Error ? error.message : "Item index build failed",
+        });
+        throw error;
+      })
+      .finally(() => {
+        this.archive.indexPromise = null;
+      });
 
-    return fullItemIndexPromise;
+    return this.archive.indexPromise;
   }
 
-  private async fetchItemsWithRetry(
-    params: URLSearchParams,
-    attempts = 3
+  /**
+   * Fetch items created or modified since the last sync, newest first,
+   * stopping at the first page that reaches the watermark
+   */
+  private async fetchChangedItems(
+    field: "created" | "modified",
+    watermark: string | null
   ): Promise<{ items: OmekaItem[]; totalResults: number }> {
-    let lastError: unknown = null;
+    const perPage = 100;
+    const changed: OmekaItem[] = [];
+    const since = watermark ? Date.parse(watermark) : -Infinity;
+    let totalResults = 0;
+
+    for (let page = 1; ; page += 1) {
+      const params = new URLSearchParams({
+        per_page: String(perPage),
+        sort_by: field,
+        sort_order: "desc",
+        page: String(page),
+      });
 
-    for (let attempt = 1; attempt <= attempts; attempt += 1) {
-      try {
-        return await this.fetchItems(params);
-      } catch (error) {
-        lastError = error;
+      const batch = await this.fetchItems(params, { keepStale: false });
+      totalResults = batch.totalResults;
 
-        if (attempt === attempts) {
-          break;
+      for (const item of batch.items) {
+        const timestamp = this.getItemTimestamp(item, `o:${field}`);
+        // Items never modified sort last with no timestamp
+        if (!timestamp || Date.parse(timestamp) < since) {
+          return { items: changed, totalResults };
         }
+        changed.push(item);
+      }
 
-        await new Promise((resolve) => setTimeout(resolve, attempt * 400));
+      if (batch.items.length < perPage) {
+        return { items: changed, totalResults };
       }
     }
+  }
+
+  /**
+   * Merge items created or modified since the last sync into the index
+   * Deletions only show up as a count mismatch, which triggers a full rebuild
+   */
+  private refreshFullItemIndex(): Promise<void> {
+    const current = this.archive.index;
+    if (!current || this.archive.refreshPromise || this.archive.indexPromise) {
+      return this.archive.refreshPromise ?? Promise.resolve();
+    }
 
-    throw lastError instanceof Error ? lastError : new Error("Omeka API request failed");
+    const startedAt = Date.now();
+    this.setIndexStatus({ state: "refreshing", error: null });
+
+    this.archive.refreshPromise = (async () => {
+      await this.getItemSets();
+      const created = await this.fetchChangedItems("created", current.watermarks.created);
+      const modified = await this.fetchChangedItems("modified", current.watermarks.modified);
+
+      const itemsById = new Map(current.items.map((item) => [item.id, item]));
+      const watermarks = { ...current.watermarks };
+      const changedIds = new Set<string>();
+
+      for (const item of [...created.items, ...modified.items]) {
+        watermarks.created = laterTimestamp(watermarks.created, this.getItemTimestamp(item, "o:created"));
+        watermarks.modified = laterTimestamp(watermarks.modified, this.getItemTimestamp(item, "o:modified"));
+
+        // Items stamped exactly at the watermark come back on every refresh
+        const transformed = this.transformListItem(item);
+        const existing = itemsById.get(transformed.id);
+        if (!existing || JSON.stringify(existing) !== JSON.stringify(transformed)) {
+          changedIds.add(transformed.id);
+        }
+        itemsById.set(transformed.id, transformed);
+      }
+
+      if (itemsById.size !== created.totalResults) {
+        console.warn(
+          `Item index has ${itemsById.size} items but Omeka reports ${created.totalResults}; rebuilding`
+        );
+        await this.buildFullItemIndex();
+        return;
+      }
+
+      await this.storeItemIndex({
+        ...current,
+        syncedAt: new Date().toISOString(),
+        watermarks,
+        items: Array.from(itemsById.values()),
+      });
+      this.setIndexStatus({
+        state: "ready",
+        lastRefresh: { mode: "incremental", changed: changedIds.size, durationMs: Date.now() - startedAt },
+      });
+    })()
+      .catch((error) => {
+        console.error("Error refreshing item index:", error);
+        this.setIndexStatus({
+          state: "ready",
+          error: error instanceof Error ? error.message : "Item index refresh failed",
+        });
+      })
+      .finally(() => {
+        this.archive.refreshPromise = null;
+      });
+
+    return this.archive.refreshPromise;
   }
 
   private async fetchIndexPage(
@@ -315,7 +737,8 @@ export class OmekaAdapter implements DataAdapter {
     });
 
     try {
-      return await this.fetchItemsWithRetry(params);
+      // Index pages are too large to keep for serving stale
+      return await this.fetchItems(params, { keepStale: false });
     } catch (error) {
       if (perPage <= 25) {
         throw error;
@@ -339,29 +762,185 @@ export class OmekaAdapter implements DataAdapter {
     }
   }
 
-  private async searchByFilterScan(req: SearchRequest): Promise<SearchResponse> {
-    const page = req.page || 1;
-    const pageSize = req.pageSize || 40;
-    const allItems = await this.getFullItemIndex();
-    const filteredItems = this.applyClientSideFilters(allItems, req.filters);
-    const sortedItems = [...filteredItems].sort((a, b) => {
-      const idA = Number.parseInt(a.id, 10);
-      const idB = Number.parseInt(b.id, 10);
-
-      if (Number.isFinite(idA) && Number.isFinite(idB) && idA !== idB) {
-        return idB - idA;
+  /**
+   * Fetch every item set, cached for CACHE_TTL.DEFAULT
+   * Also records their titles, which item payloads only reference by ID
+   */
+  private async getItemSets(): Promise<OmekaItemSet[]> {
+    const cached = itemSetCache.get(this.baseUrl, CACHE_TTL.DEFAULT);
+    if (cached) {
+      return cached;
+    }
+
+    const itemSets: OmekaItemSet[] = [];
+    const perPage = 100;
+
+    for (let page = 1; ; page += 1) {
+      const params = new URLSearchParams({ per_page: String(perPage), page: String(page) });
+      const response = await this.archive.upstream.getJson<OmekaItemSet[]>(
+        `${this.baseUrl}${this.itemSetsEndpoint}?${params.toString()}`,
+        { revalidate: 300 }
+      );
+
+      if (!response.data) {
+        throw new Error(`Omeka API error: ${response.status}`);
       }
 
-      const yearA = a.year ?? -Infinity;
-      const yearB = b.year ?? -Infinity;
-      return yearB - yearA;
+      const batch = response.data;
+      itemSets.push(...batch);
+      if (batch.length < perPage) break;
+    }
+
+    for (const itemSet of itemSets) {
+      const title = itemSet["o:title"]?.trim();
+      if (title && itemSet["o:id"] !== undefined) {
+        this.archive.itemSetTitles.set(itemSet["o:id"], title);
+      }
+    }
+
+    itemSetCache.set(this.baseUrl, itemSets);
+    return itemSets;
+  }
+
+  /**
+   * Map item set titles to IDs for item_set_id queries
+   */
+  private async getItemSetIds(): Promise<Map<string, number[]>> {
+    const itemSetIds = new Map<string, number[]>();
+
+    for (const itemSet of await this.getItemSets()) {
+      const title = itemSet["o:title"]?.trim().toLowerCase();
+      if (!title || itemSet["o:id"] === undefined) continue;
+      itemSetIds.set(title, [...(itemSetIds.get(title) ?? []), itemSet["o:id"]]);
+    }
+
+    return itemSetIds;
+  }
+
+  /**
+   * List item sets with their item counts, largest first, cached for CACHE_TTL.DEFAULT
+   * Counts come from one single-item query per set, 4 sets at a time
+   */
+  async listCollections(): Promise<ArchiveCollection[]> {
+    const cached = collectionCache.get(this.baseUrl, CACHE_TTL.DEFAULT);
+    if (cached) {
+      return cached;
+    }
+
+    const itemSets = (await this.getItemSets()).filter(
+      (itemSet) => itemSet["o:id"] !== undefined && itemSet["o:title"]?.trim()
+    );
+    const collections: ArchiveCollection[] = [];
+    let countFailed = false;
+
+    const BATCH_SIZE = 4;
+    for (let start = 0; start < itemSets.length; start += BATCH_SIZE) {
+      const batch = await Promise.all(
+        itemSets.slice(start, start + BATCH_SIZE).map(async (itemSet) => {
+          const id = itemSet["o:id"]!;
+          // Item sets carry the same property and thumbnail fields as items
+          const record: OmekaItem = { ...itemSet, "o:id": id };
+          let itemCount = 0;
+          try {
+            const params = new URLSearchParams({ item_set_id: String(id), per_page: "1", page: "1" });
+            ({ totalResults: itemCount } = await this.fetchItems(params));
+          } catch (error) {
+            console.error(`Error counting items in item set ${id}:`, error);
+            countFailed = true;
+          }
+
+          return {
+            id: String(id),
+            title: itemSet["o:title"]!.trim(),
+            description: this.getPropertyValue(record, PROPERTY_MAP.description) ?? null,
+            itemCount,
+            thumbnailUrl: this.getThumbnailUrl(record),
+            sourceUrl: `${this.baseUrl}/item-set/${id}`,
+          };
+        })
+      );
+      collections.push(...batch);
+    }
+
+    const sorted = collections
+      .filter((collection) => collection.itemCount > 0)
+      .sort((a, b) => b.itemCount - a.itemCount || a.title.localeCompare(b.title));
+    // A set whose count failed is missing from the list, so only a full list is kept
+    if (!countFailed) {
+      collectionCache.set(this.baseUrl, sorted);
+    }
+    return sorted;
+  }
+
+  /**
+   * Translate filters into Omeka query parameters
+   */
+  private async buildFilterQuery(req: SearchRequest | TileRequest): Promise<OmekaFilterQuery> {
+    if (!hasActiveFilters(req.filters)) {
+      return { params: [], complete: true, exact: true };
+    }
+
+    let itemSetIds = new Map<string, number[]>();
+    if (req.filters?.collections?.length) {
+      try {
+        itemSetIds = await this.getItemSetIds();
+      } catch (error) {
+        console.error("Error fetching Omeka item sets:", error);
+      }
+    }
+
+    // Which types items get without a resource class, which languages are detected
+    // from script, which dates span several years, and every spelling of a name are
+    // only known from the loaded index
+    const view = this.archive.index ? this.getIndexView(this.archive.index) : null;
+    return buildOmekaFilterQuery(req.filters, {
+      resourceClassTypes: RESOURCE_CLASS_TYPE_MAP,
+      classlessTypes: view?.classlessTypes ?? null,
+      inferredLanguages: view?.inferredLanguages ?? null,
+      yearSpans: view?.yearSpans ?? null,
+      nameSpellings: view?.nameSpellings ?? null,
+      itemSetIds,
+      languageProperty: PROPERTY_MAP.language,
+      subjectProperty: PROPERTY_MAP.subject,
+      publisherProperty: PROPERTY_MAP.publisher,
+      dateProperties: [PROPERTY_MAP.issued, PROPERTY_MAP.date],
     });
-    const offset = (page - 1) * pageSize;
+  }
+
+  /**
+   * Fetch items with filter parameters, retrying without them if Omeka rejects the query
+   */
+  private async fetchFilteredItems(
+    params: URLSearchParams,
+    filterQuery: OmekaFilterQuery
+  ): Promise<{ items: OmekaItem[]; totalResults: number; filterQuery: OmekaFilterQuery }> {
+    if (filterQuery.params.length === 0) {
+      return { ...(await this.fetchItems(params)), filterQuery };
+    }
+
+    const filteredParams = new URLSearchParams(params);
+    for (const [key, value] of filterQuery.params) {
+      filteredParams.append(key, value);
+    }
+
+    try {
+      return { ...(await this.fetchItems(filteredParams)), filterQuery };
+    } catch (error) {
+      console.error("Omeka filter query failed, filtering client-side:", error);
+      return {
+        ...(await this.fetchItems(params)),
+        filterQuery: { params: [], complete: false, exact: false },
+      };
+    }
+  }
+
+  private async searchByFilterScan(req: SearchRequest): Promise<SearchResponse> {
+    const index = await this.loadFullItemIndex();
+    const view = this.getIndexView(index);
 
     return {
-      items: sortedItems.slice(offset, offset + pageSize),
-      total: sortedItems.length,
-      facets: this.computeFacets(allItems),
+      ...this.pageIndexRecords(view, index.items, req),
+      facets: computeFacets(view.items),
     };
   }
 
@@ -415,60 +994,7 @@ export class OmekaAdapter implements DataAdapter {
       .filter((v): v is string => v !== null);
   }
 
-  /**
-   * Extract year from date string
-   */
-  private extractYear(dateStr?: string): number | null {
-    if (!dateStr) return null;
-
-    // Try to extract a 4-digit year
-    const match = dateStr.match(/\b(1[0-9]{3}|20[0-2][0-9])\b/);
-    if (match) {
-      return parseInt(match[1], 10);
-    }
-
-    return null;
-  }
-
-  /**
-   * Normalize language value to ISO code
-   */
-  private normalizeLanguage(lang?: string): string | null {
-    if (!lang) return null;
-    const lower = lang.toLowerCase().trim();
-    return LANGUAGE_MAP[lower] || lower.substring(0, 2);
-  }
-
-  /**
-   * Normalize type value
-   */
-  private normalizeType(type?: string): string | null {
-    if (!type) return null;
-    const lower = type.toLowerCase().trim();
-    return TYPE_MAP[lower] || lower;
-  }
-
-  private detectCanonicalType(value?: string): string | null {
-    const normalized = this.normalizeType(value);
-    if (!normalized) return null;
-
-    if (TYPE_MAP[normalized]) {
-      return TYPE_MAP[normalized];
-    }
-
-    if (/\bnewspapers?\b/.test(normalized)) return "newspaper";
-    if (/\b(periodical|periodicals|journal|journals|magazine|magazines|serial|serials)\b/.test(normalized)) return "periodical";
-    if (/\b(manuscript|manuscripts)\b/.test(normalized)) return "manuscript";
-    if (/\b(image|images|photograph|photographs|photo|photos|poster|posters)\b/.test(normalized)) return "image";
-    if (/\b(audio|sound|recording|recordings|song|songs|music)\b/.test(normalized)) return "audio";
-    if (/\b(video|videos|moving image|film|films)\b/.test(normalized)) return "video";
-    if (/\b(map|maps|atlas|atlases)\b/.test(normalized)) return "map";
-    if (/\b(book|books|text ?book|text ?books|textbook|textbooks|reader|readers|primer|primers)\b/.test(normalized)) return "book";
-
-    return null;
-  }
-
-  private getResourceClassType(item: OmekaItem): string | null {
+  private getResourceClassId(item: OmekaItem): number | null {
     const resourceClass = item["o:resource_class"];
     if (!resourceClass || typeof resourceClass !== "object") {
       return null;
@@ -476,154 +1002,12 @@ export class OmekaAdapter implements DataAdapter {
 
     const rawId = (resourceClass as Record<string, unknown>)["o:id"];
     const id = typeof rawId === "number" ? rawId : Number.parseInt(String(rawId ?? ""), 10);
-    if (!Number.isFinite(id)) {
-      return null;
-    }
-
-    return RESOURCE_CLASS_TYPE_MAP[id] || null;
+    return Number.isFinite(id) ? id : null;
   }
 
-  private inferTypeFromMetadata({
-    title,
-    subjects = [],
-    identifiers = [],
-    alternatives = [],
-    producers = [],
-    mediums = [],
-  }: {
-    title?: string;
-    subjects?: string[];
-    identifiers?: string[];
-    alternatives?: string[];
-    producers?: string[];
-    mediums?: string[];
-  }): string | null {
-    const signals = [
-      title,
-      ...subjects,
-      ...identifiers,
-      ...alternatives,
-      ...producers,
-      ...mediums,
-    ]
-      .filter((value): value is string => Boolean(value))
-      .map((value) => value.toLowerCase().trim());
-
-    if (signals.length === 0) {
-      return null;
-    }
-
-    const combined = signals.join(" | ");
-    const hasSerialMarker =
-      combined.includes("ലക്കം") ||
-      combined.includes("പുസ്തകം") ||
-      combined.includes("വോള്യം") ||
-      combined.includes("വാല്യം") ||
-      /\b(issue|volume|number|no\.?|vol\.?)\b/.test(combined);
-    const hasManuscriptSignal =
-      combined.includes("കൈയെഴുത്ത്") ||
-      combined.includes("താളിയോല") ||
-      /\b(manuscript|palm leaves?|palm leaf)\b/.test(combined);
-
-    if (hasManuscriptSignal) {
-      return "manuscript";
-    }
-
-    const hasMapSignal =
-      /\b(map|atlas)\b/.test(combined) ||
-      combined.includes("district map") ||
-      combined.includes("survey map") ||
-      combined.includes("route map");
-
-    if (hasMapSignal) {
-      return "map";
-    }
-
-    const hasAudioSignal =
-      combined.includes("ഓഡിയോ") ||
-      /\b(audio|audio file|sound recording|sound track|soundtrack)\b/.test(combined);
-
-    if (hasAudioSignal) {
-      return "audio";
-    }
-
-    const hasVideoSignal =
-      /\b(video|film|motion picture|moving image)\b/.test(combined);
-
-    if (hasVideoSignal) {
-      return "video";
-    }
-
-    const hasNewspaperSignal =
-      combined.includes("പ്രതിപക്ഷപത്രം") ||
-      combined.includes("ദിനപത്ര") ||
-      combined.includes("വാർത്താപത്ര") ||
-      /\bgazette\b/.test(combined) ||
-      (/\b(news[- ]?paper|daily)\b/.test(combined) && hasSerialMarker) ||
-      ((combined.includes("പത്രം") || /\bpathram\b/.test(combined)) && hasSerialMarker);
-
-    if (hasNewspaperSignal) {
-      return "newspaper";
-    }
-
-    const hasPeriodicalSignal =
-      combined.includes("ആഴ്ചപ്പതിപ്പ്") ||
-      combined.includes("മാസിക") ||
-      combined.includes("വാരിക") ||
-      combined.includes("പത്രിക") ||
-      /\b(pathrika|periodical|periodicals|journal|magazine|monthly|montly|weekly|review|annual|souvenir|bulletin)\b/.test(combined);
-
-    if (hasPeriodicalSignal) {
-      return "periodical";
-    }
-
-    const hasImageSignal =
-      /\b(photo|photograph|poster|portrait|drawing|illustration|painting|still image)\b/.test(combined);
-
-    if (hasImageSignal) {
-      return "image";
-    }
-
-    return null;
-  }
-
-  private resolveCanonicalType(
-    typeValues: string[],
-    resourceClassType: string | null,
-    metadata: {
-      title?: string;
-      subjects?: string[];
-      identifiers?: string[];
-      alternatives?: string[];
-      producers?: string[];
-      mediums?: string[];
-    }
-  ): string | null {
-    if (resourceClassType) {
-      return resourceClassType;
-    }
-
-    for (const value of typeValues) {
-      const canonicalType = this.detectCanonicalType(value);
-      if (canonicalType) {
-        return canonicalType;
-      }
-    }
-
-    const inferredType = this.inferTypeFromMetadata(metadata);
-    if (inferredType) {
-      return inferredType;
-    }
-
-    if (typeValues.some((value) => value.toLowerCase().includes("bibo:book"))) {
-      return "book";
-    }
-
-    if (typeValues.some((value) => value.toLowerCase().includes("dctype:text"))) {
-      return "book";
-    }
-
-    return null;
+  private getResourceClassType(item: OmekaItem): string | null {
+    const id = this.getResourceClassId(item);
+    return id === null ? null : RESOURCE_CLASS_TYPE_MAP[id] || null;
   }
 
   /**
@@ -643,72 +1027,108 @@ export class OmekaAdapter implements DataAdapter {
   }
 
   /**
-   * Fetch actual thumbnail from media details (first page of PDF/IIIF)
+   * First real cover among an item's media
+   * Null only when every media was read and none had a cover; if any lookup failed
+   * and no cover was found, its error is thrown so the result is not stored
    */
-  private async fetchMediaThumbnail(mediaRef: OmekaMediaRef): Promise<string | null> {
-    if (!mediaRef["@id"]) return null;
+  private async resolveMediaThumbnail(mediaUrls: string[]): Promise<string | null> {
+    let firstError: unknown = null;
+    for (const mediaUrl of mediaUrls) {
+      try {
+        const thumbnail = await this.fetchMediaThumbnail(mediaUrl);
+        if (thumbnail) return thumbnail;
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+    if (firstError) throw firstError;
+    return null;
+  }
 
-    try {
-      const response = await fetch(mediaRef["@id"], {
-        headers: { Accept: "application/json" },
-      });
+  /**
+   * Real cover for an item without one in its payload, from the thumbnail store or its media
+   * `priority` is for items about to be shown; others wait behind them
+   */
+  private async resolveItemThumbnail(item: OmekaItem, priority: boolean): Promise<string | null> {
+    // Only the media URLs are kept for the queued job, not the raw item
+    const mediaUrls = ((item["o:media"] ?? []) as OmekaMediaRef[])
+      .map((mediaRef) => mediaRef["@id"])
+      .filter((url): url is string => Boolean(url));
+    if (mediaUrls.length === 0) return null;
+
+    const id = String(item["o:id"]);
+    const thumbnail = await this.archive.thumbnails.resolve(
+      id,
+      () => this.resolveMediaThumbnail(mediaUrls),
+      { priority }
+    );
+    if (thumbnail) {
+      this.patchIndexThumbnail(id, thumbnail);
+    }
+    return thumbnail;
+  }
 
-      if (!response.ok) return null;
+  /**
+   * Fill in a resolved cover on the loaded index, in place so derived views stay valid
+   */
+  private patchIndexThumbnail(id: string, thumbnailUrl: string): void {
+    if (!this.archive.index) return;
+    const view = this.getIndexView(this.archive.index);
+    for (const item of [view.recordsById.get(id), view.itemsById.get(id)]) {
+      if (item && !item.thumbnailUrl) item.thumbnailUrl = thumbnailUrl;
+    }
+  }
 
-      const mediaDetail = await response.json();
+  private withStoredThumbnail<T extends ArchiveItem>(item: T): T {
+    if (item.thumbnailUrl) return item;
+    const thumbnailUrl = this.archive.thumbnails.get(item.id);
+    return thumbnailUrl ? { ...item, thumbnailUrl } : item;
+  }
 
-      // Check for thumbnail URLs in media detail
-      if (mediaDetail["o:thumbnail_urls"]) {
-        const urls = mediaDetail["o:thumbnail_urls"];
-        const thumb = urls["large"] || urls["medium"] || urls["square"];
-        if (thumb && !this.isPlaceholderThumbnail(thumb)) {
-          return thumb;
-        }
-      }
+  /**
+   * Fetch actual thumbnail from media details (first page of PDF/IIIF)
+   * Null when the media or its manifest is gone or has no cover; request failures
+   * and unexpected statuses are thrown
+   */
+  private async fetchMediaThumbnail(mediaUrl: string): Promise<string | null> {
+    const { status, data: mediaDetail } = await this.archive.upstream.getJson<
+      Record<string, unknown> & OmekaMedia
+    >(mediaUrl, { retries: 1 });
+    if (MISSING_STATUSES.has(status)) return null;
+    if (!mediaDetail) {
+      throw new Error(`Omeka media ${mediaUrl} returned ${status}`);
+    }
 
-      // For IIIF items, try to construct thumbnail from manifest
-      if (mediaDetail["o:ingester"] === "iiif" && mediaDetail["o:source"]) {
-        const manifestUrl = mediaDetail["o:source"];
-        try {
-          const manifestResp = await fetch(manifestUrl, {
-            headers: { Accept: "application/json" },
-          });
-          if (manifestResp.ok) {
-            const manifest = await manifestResp.json();
-            // IIIF Presentation 3.0
-            if (manifest.items && manifest.items[0]) {
-              const canvas = manifest.items[0];
-              if (canvas.thumbnail && canvas.thumbnail[0]?.id) {
-                return canvas.thumbnail[0].id;
-              }
-              // Try to get from annotation
-              if (canvas.items?.[0]?.items?.[0]?.body?.id) {
-                const imageId = canvas.items[0].items[0].body.id;
-                // Convert to thumbnail size
-                return imageId.replace(/\/full\/.*$/, "/full/400,/0/default.jpg");
-              }
-            }
-            // IIIF Presentation 2.0
-            if (manifest.sequences?.[0]?.canvases?.[0]) {
-              const canvas = manifest.sequences[0].canvases[0];
-              if (canvas.thumbnail?.["@id"]) {
-                return canvas.thumbnail["@id"];
-              }
-              if (canvas.images?.[0]?.resource?.["@id"]) {
-                const imageId = canvas.images[0].resource["@id"];
-                return imageId.replace(/\/full\/.*$/, "/full/400,/0/default.jpg");
-              }
-            }
-          }
-        } catch {
-          // Ignore IIIF fetch errors
-        }
+    // Check for thumbnail URLs in media detail
+    if (mediaDetail["o:thumbnail_urls"]) {
+      const urls = mediaDetail["o:thumbnail_urls"];
+      const thumb = urls["large"] || urls["medium"] || urls["square"];
+      if (thumb && !this.isPlaceholderThumbnail(thumb)) {
+        return thumb;
       }
+    }
 
-      return null;
-    } catch {
-      return null;
+    // For IIIF items, try to construct thumbnail from manifest
+    if (
+      mediaDetail["o:ingester"] === "iiif" &&
+      typeof mediaDetail["o:source"] === "string" &&
+      URL.canParse(mediaDetail["o:source"])
+    ) {
+      const manifestUrl = mediaDetail["o:source"];
+      const { status: manifestStatus, data: manifest } =
+        await getManifestClient(manifestUrl, this.config, this.archive).getJson<IIIFResource>(manifestUrl, {
+          retries: 0,
+          keepStale: false,
+        });
+      if (manifest) {
+        return getFirstCanvasThumbnail(manifest);
+      }
+      if (!MISSING_STATUSES.has(manifestStatus)) {
+        throw new Error(`IIIF manifest ${manifestUrl} returned ${manifestStatus}`);
+      }
     }
+
+    return null;
   }
 
   /**
@@ -814,16 +1234,16 @@ export class OmekaAdapter implements DataAdapter {
   }
 
   /**
-   * Get collection name from item set
+   * Get collection names from item sets, falling back to fetched item set titles
    */
-  private getCollectionName(item: OmekaItem): string | null {
-    if (item["o:item_set"] && item["o:item_set"].length > 0) {
-      const itemSet = item["o:item_set"][0];
-      if (typeof itemSet === "object" && itemSet !== null) {
-        return itemSet["o:title"] || null;
-      }
-    }
-    return null;
+  private getCollectionNames(item: OmekaItem): string[] {
+    return (item["o:item_set"] ?? [])
+      .map((itemSet) => {
+        if (typeof itemSet !== "object" || itemSet === null) return null;
+        const id = itemSet["o:id"];
+        return itemSet["o:title"] || (id !== undefined ? this.archive.itemSetTitles.get(id) : undefined) || null;
+      })
+      .filter((title): title is string => Boolean(title));
   }
 
   /**
@@ -862,11 +1282,18 @@ export class OmekaAdapter implements DataAdapter {
     for (const media of item["o:media"]) {
       if (typeof media !== "object" || media === null) continue;
       
-      const originalUrl = media["o:original_url"] as string | undefined;
-      if (!originalUrl) continue;
-      
       const mimeType = media["o:media_type"] as string | undefined;
-      const mediaType = this.getMediaType(mimeType, originalUrl);
+      const linkedUrl =
+        typeof media["o:source"] === "string" && /^https?:\/\//i.test(media["o:source"])
+          ? media["o:source"]
+          : undefined;
+
+      // Audio and video can be linked streams with no stored original
+      const mediaType = this.getMediaType(mimeType, media["o:original_url"] ?? linkedUrl);
+      const originalUrl =
+        media["o:original_url"] ??
+        (mediaType === "audio" || mediaType === "video" ? linkedUrl : undefined);
+      if (!originalUrl) continue;
       
       // Get thumbnail URL
       let thumbnailUrl: string | null = null;
@@ -906,10 +1333,11 @@ export class OmekaAdapter implements DataAdapter {
     const dateStr = 
       this.getPropertyValue(item, PROPERTY_MAP.issued) ||
       this.getPropertyValue(item, PROPERTY_MAP.date);
-    const year = this.extractYear(dateStr);
 
-    const langValue = this.getPropertyValue(item, PROPERTY_MAP.language);
-    const language = this.normalizeLanguage(langValue);
+    const { language, languageInferred } = resolveLanguage(
+      this.getPropertyValue(item, PROPERTY_MAP.language),
+      [title, this.getPropertyValue(item, PROPERTY_MAP.description)]
+    );
 
     const typeValues = [
       ...this.getAllPropertyValues(item, PROPERTY_MAP.type),
@@ -925,30 +1353,60 @@ export class OmekaAdapter implements DataAdapter {
     const producers = this.getAllPropertyValues(item, PRODUCER_PROPERTY);
     const mediums = this.getAllPropertyValues(item, PROPERTY_MAP.medium);
     const resourceClassType = this.getResourceClassType(item);
-    const type = this.resolveCanonicalType(typeValues, resourceClassType, {
-      title,
-      subjects,
-      identifiers,
-      alternatives,
-      producers,
-      mediums,
-    });
+    const { type, typeSource, typeConfidence } = resolveCanonicalType(
+      typeValues,
+      { title, subjects, identifiers, alternatives, producers, mediums },
+      resourceClassType
+    );
 
     const authors = this.getAllPropertyValues(item, PROPERTY_MAP.creator);
+    const collections = this.getCollectionNames(item);
 
     return {
       id: String(item["o:id"]),
       title,
-      year,
+      ...getDateFields(dateStr),
       language,
+      languageInferred,
       type,
-      collection: this.getCollectionName(item),
+      typeSource,
+      typeConfidence,
+      collection: collections[0] ?? null,
+      collections: collections.length > 0 ? collections : undefined,
       authors: authors.length > 0 ? authors : undefined,
       thumbnailUrl: this.getThumbnailUrl(item),
       sourceUrl: `${this.baseUrl}/item/${item["o:id"]}`,
     };
   }
 
+  /**
+   * Transform Omeka item to the full item index record: list fields plus searchable text
+   */
+  private transformIndexItem(item: OmekaItem): ItemDetail {
+    const alternativeTitles = this.getAllPropertyValues(item, PROPERTY_MAP.alternative);
+    const subjects = this.getAllPropertyValues(item, PROPERTY_MAP.subject);
+
+    return {
+      ...this.transformItem(item),
+      resourceClassId: this.getResourceClassId(item),
+      alternativeTitles: alternativeTitles.length > 0 ? alternativeTitles : undefined,
+      subjects: subjects.length > 0 ? subjects : undefined,
+      publisher: this.getPropertyValue(item, PROPERTY_MAP.publisher) || null,
+      description: this.getPropertyValue(item, PROPERTY_MAP.description) || null,
+    };
+  }
+
+  /**
+   * Index record with its stored cover; unknown covers are resolved in the background
+   */
+  private transformListItem(item: OmekaItem): ItemDetail {
+    const transformed = this.withStoredThumbnail(this.transformIndexItem(item));
+    if (!transformed.thumbnailUrl && this.archive.thumbnails.get(transformed.id) === undefined) {
+      void this.resolveItemThumbnail(item, false);
+    }
+    return transformed;
+  }
+
   /**
    * Transform Omeka item to ItemDetail (sync version without IIIF)
    */
@@ -956,6 +1414,7 @@ export class OmekaAdapter implements DataAdapter {
     const base = this.transformItem(item);
 
     const description = this.getPropertyValue(item, PROPERTY_MAP.description);
+    const alternativeTitles = this.getAllPropertyValues(item, PROPERTY_MAP.alternative);
     const subjects = this.getAllPropertyValues(item, PROPERTY_MAP.subject);
     const publisher = this.getPropertyValue(item, PROPERTY_MAP.publisher);
     const rights = this.getPropertyValue(item, PROPERTY_MAP.rights);
@@ -964,6 +1423,7 @@ export class OmekaAdapter implements DataAdapter {
 
     return {
       ...base,
+      alternativeTitles: alternativeTitles.length > 0 ? alternativeTitles : undefined,
       description: description || null,
       subjects: subjects.length > 0 ? subjects : undefined,
       publisher: publisher || null,
@@ -975,66 +1435,155 @@ export class OmekaAdapter implements DataAdapter {
   }
 
   /**
-   * Fetch document source (IIIF manifest or PDF) from media details
+   * Viewable document (IIIF manifest or PDF), playable recording or zoomable image
+   * described by a media record, if any
    */
-  private async fetchDocumentSource(mediaRefs: OmekaMediaRef[]): Promise<DocumentSource | null> {
-    // Try each media reference until we find viewable content
-    for (const ref of mediaRefs) {
-      if (!ref["@id"]) continue;
-      
-      try {
-        const response = await fetch(ref["@id"], {
-          headers: { Accept: "application/json" },
-        });
-        
-        if (!response.ok) continue;
-        
-        const mediaDetail = await response.json();
-        
-        // Check for IIIF manifest in o:source (common for IIIF ingesters)
-        if (mediaDetail["o:source"] && 
-            typeof mediaDetail["o:source"] === "string" &&
-            mediaDetail["o:source"].includes("manifest")) {
-          return { type: "iiif", url: mediaDetail["o:source"] };
-        }
-        
-        // Check for IIIF ingester type
-        if (mediaDetail["o:ingester"] === "iiif" && mediaDetail["o:source"]) {
-          return { type: "iiif", url: mediaDetail["o:source"] };
-        }
-        
-        // Check for direct PDF
-        if (mediaDetail["o:media_type"] === "application/pdf") {
-          // Prefer o:original_url, fallback to o:source
-          const pdfUrl = mediaDetail["o:original_url"] || mediaDetail["o:source"];
-          if (pdfUrl && typeof pdfUrl === "string") {
-            return { type: "pdf", url: pdfUrl };
-          }
-        }
-      } catch {
-        // Continue to next media
-        continue;
+  private getMediaDocumentSource(mediaDetail: Record<string, unknown>): DocumentSource | null {
+    const source = typeof mediaDetail["o:source"] === "string" ? mediaDetail["o:source"] : null;
+    const label = typeof mediaDetail["o:title"] === "string" ? mediaDetail["o:title"].trim() : "";
+    const thumbnails = mediaDetail["o:thumbnail_urls"] as Record<string, string> | undefined;
+
+    // IIIF image service (an info.json in o:source), zoomed through its tiles
+    const imageService = getImageServiceUrl(source);
+    if (imageService) {
+      return {
+        type: "image",
+        url: thumbnails?.["large"] || getScaledImageUrl(imageService, 2048),
+        label: label || null,
+        imageService,
+      };
+    }
+
+    // IIIF ingester, or a manifest URL in o:source
+    if (source && (mediaDetail["o:ingester"] === "iiif" || source.includes("manifest"))) {
+      return { type: "iiif", url: source, label: label || null };
+    }
+
+    // Direct PDF: prefer o:original_url, fallback to o:source
+    if (mediaDetail["o:media_type"] === "application/pdf") {
+      const pdfUrl = mediaDetail["o:original_url"] || source;
+      if (pdfUrl && typeof pdfUrl === "string") {
+        return { type: "pdf", url: pdfUrl, label: label || null };
       }
     }
-    
+
+    // Audio or video: the stored file, or a linked stream
+    const mimeType = typeof mediaDetail["o:media_type"] === "string" ? mediaDetail["o:media_type"] : undefined;
+    const playableUrl =
+      typeof mediaDetail["o:original_url"] === "string"
+        ? mediaDetail["o:original_url"]
+        : source && /^https?:\/\//i.test(source)
+          ? source
+          : null;
+    const mediaType = playableUrl ? this.getMediaType(mimeType, playableUrl) : "other";
+    if (playableUrl && (mediaType === "audio" || mediaType === "video")) {
+      const poster = thumbnails?.["large"] || thumbnails?.["medium"] || null;
+      const media = mediaDetail as OmekaItem;
+      const chapters = parseChapters(
+        this.getPropertyValue(media, PROPERTY_MAP.tableOfContents) ??
+          this.getPropertyValue(media, PROPERTY_MAP.description)
+      );
+
+      return {
+        type: mediaType,
+        url: playableUrl,
+        label: label || null,
+        mimeType: mimeType || null,
+        posterUrl: poster && !this.isPlaceholderThumbnail(poster) ? poster : null,
+        chapters: chapters.length > 0 ? chapters : undefined,
+      };
+    }
+
+    // Image: the full-resolution original, or the large derivative of a TIFF browsers cannot show
+    if (playableUrl && mediaType === "image") {
+      const url = /tiff?$/i.test(mimeType ?? playableUrl) ? thumbnails?.["large"] : playableUrl;
+      if (url) {
+        return { type: "image", url, label: label || null, imageService: getImageServiceUrl(playableUrl) };
+      }
+    }
+
     return null;
   }
 
+  /**
+   * Fetch document sources (IIIF manifests, PDFs, recordings and images) from media details, in media order
+   * Items scanned page by page carry hundreds of image media, so every source among the
+   * first MAX_DOCUMENT_MEDIA is kept, and later media are read only until a document turns up
+   */
+  private async fetchDocumentSources(mediaRefs: OmekaMediaRef[]): Promise<DocumentSource[]> {
+    const MAX_DOCUMENT_MEDIA = 24;
+    const BATCH_SIZE = 6;
+    const refs = mediaRefs.filter((ref) => ref["@id"]);
+    const sources: DocumentSource[] = [];
+
+    for (let start = 0; start < refs.length; start += BATCH_SIZE) {
+      const pastLimit = start >= MAX_DOCUMENT_MEDIA;
+      if (pastLimit && sources.some((source) => source.type !== "image")) break;
+
+      const batch = await Promise.all(
+        refs.slice(start, start + BATCH_SIZE).map(async (ref) => {
+          try {
+            const { data } = await this.archive.upstream.getJson<Record<string, unknown>>(ref["@id"]!, {
+              retries: 1,
+            });
+            return data ? this.getMediaDocumentSource(data) : null;
+          } catch {
+            // Skip media that cannot be read
+            return null;
+          }
+        })
+      );
+      const found = batch.filter((source): source is DocumentSource => source !== null);
+      // Past the limit only documents are wanted, not more page images
+      sources.push(...(pastLimit ? found.filter((source) => source.type !== "image") : found));
+    }
+
+    return sources;
+  }
+
   /**
    * Transform Omeka item to ItemDetail with document source support
    */
   private async transformItemDetail(item: OmekaItem): Promise<ItemDetail> {
     const base = this.transformItemDetailSync(item);
-    
-    // Try to get document source (IIIF manifest or PDF) from media
-    let documentSource: DocumentSource | null = null;
-    if (item["o:media"] && item["o:media"].length > 0) {
-      documentSource = await this.fetchDocumentSource(item["o:media"] as OmekaMediaRef[]);
+    const mediaRefs = (item["o:media"] ?? []) as OmekaMediaRef[];
+
+    // List responses can carry placeholder thumbnails - resolve a real one from media
+    if (!base.thumbnailUrl) {
+      const realThumb = await this.resolveItemThumbnail(item, true);
+      if (realThumb) {
+        base.thumbnailUrl = realThumb;
+        base.fullImageUrl = base.fullImageUrl || realThumb;
+      }
     }
 
+    // Every document source from media details, then recordings embedded in the item payload;
+    // recordings without a still of their own show the item's cover
+    const fetchedSources = mediaRefs.length > 0 ? await this.fetchDocumentSources(mediaRefs) : [];
+    const embeddedSources = (base.media ?? [])
+      .map(getPlayableSource)
+      .filter((source): source is DocumentSource => source !== null);
+    const sources = [...fetchedSources, ...embeddedSources];
+
+    // Page images belong to their manifest or PDF; an image, map or manuscript with
+    // no document opens its first image in the zoom viewer
+    const documents = sources.filter((source) => source.type !== "image");
+    const viewable =
+      documents.length > 0 || !base.type || !ZOOMABLE_TYPES.includes(base.type)
+        ? documents
+        : sources.slice(0, 1);
+
+    const documentSources = labelDocumentSources(viewable).map(
+      (source) =>
+        isPlayableSource(source) && !source.posterUrl
+          ? { ...source, posterUrl: base.thumbnailUrl }
+          : source
+    );
+
     return {
       ...base,
-      documentSource,
+      documentSource: documentSources[0] ?? null,
+      documentSources: documentSources.length > 0 ? documentSources : undefined,
     };
   }
 
@@ -1055,9 +1604,10 @@ export class OmekaAdapter implements DataAdapter {
     params.set("page", String(page));
     params.set("per_page", String(perPage));
 
-    // Sort by date descending by default
-    params.set("sort_by", "created");
-    params.set("sort_order", "desc");
+    // Newest additions first unless another sort was requested
+    const [sortBy, sortOrder] = OMEKA_SORT_PARAMS[req.sort ?? "newest"];
+    params.set("sort_by", sortBy);
+    params.set("sort_order", sortOrder);
 
     return params;
   }
@@ -1065,92 +1615,92 @@ export class OmekaAdapter implements DataAdapter {
   /**
    * Fetch items from Omeka API
    */
-  private async fetchItems(params: URLSearchParams): Promise<{
+  private async fetchItems(
+    params: URLSearchParams,
+    request: UpstreamRequestOptions = {}
+  ): Promise<{
     items: OmekaItem[];
     totalResults: number;
   }> {
     const url = `${this.baseUrl}${this.itemsEndpoint}?${params.toString()}`;
 
-    const response = await fetch(url, {
-      headers: {
-        Accept: "application/json",
-      },
-      next: {
-        revalidate: 300, // Cache for 5 minutes
-      },
+    const response = await this.archive.upstream.getJson<OmekaItem[]>(url, {
+      revalidate: 300, // Cache for 5 minutes
+      ...request,
     });
 
-    if (!response.ok) {
-      throw new Error(`Omeka API error: ${response.status} ${response.statusText}`);
+    if (!response.data) {
+      throw new Error(`Omeka API error: ${response.status}`);
     }
 
-    const items = await response.json();
+    const items = response.data;
 
     // Try to get total from headers
-    const totalHeader = response.headers.get("Omeka-S-Total-Results");
+    const totalHeader = response.headers["omeka-s-total-results"];
     const totalResults = totalHeader ? parseInt(totalHeader, 10) : items.length;
 
     return { items, totalResults };
   }
 
   /**
-   * Compute facets from items
+   * Search items with query and filters
    */
-  private computeFacets(items: ArchiveItem[]): Facets {
-    const languages: Record<string, number> = {};
-    const types: Record<string, number> = {};
-    const collections: Record<string, number> = {};
-    let minYear: number | null = null;
-    let maxYear: number | null = null;
-
-    for (const item of items) {
-      if (item.language) {
-        languages[item.language] = (languages[item.language] || 0) + 1;
-      }
-      if (item.type) {
-        types[item.type] = (types[item.type] || 0) + 1;
-      }
-      if (item.collection) {
-        collections[item.collection] = (collections[item.collection] || 0) + 1;
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    const req = request.q ? { ...request, q: normalizeMalayalam(request.q) } : request;
+
+    if (req.sort === "relevance" && req.q?.trim()) {
+      const ranked = await this.searchByTextIndex(req);
+      if (ranked) {
+        return ranked;
       }
-      if (item.year) {
-        if (minYear === null || item.year < minYear) minYear = item.year;
-        if (maxYear === null || item.year > maxYear) maxYear = item.year;
+    }
+
+    // Omeka sorts years and titles as raw strings; the loaded index sorts them properly
+    if (req.sort && INDEX_SORTS.has(req.sort) && this.archive.index) {
+      const sorted = req.q?.trim()
+        ? await this.searchByTextIndex(req)
+        : await this.searchByFilterScan(req);
+      if (sorted) {
+        return sorted;
       }
     }
 
-    return {
-      languages,
-      types,
-      collections,
-      years: { min: minYear, max: maxYear },
-    };
-  }
+    const filterQuery = await this.buildFilterQuery(req);
 
-  /**
-   * Search items with query and filters
-   */
-  async search(req: SearchRequest): Promise<SearchResponse> {
-    if (req.scanFilters && !req.q?.trim() && this.hasActiveFilters(req.filters)) {
+    // Scan the full index only when Omeka cannot answer the filters exactly
+    if (
+      req.scanFilters &&
+      !filterQuery.complete &&
+      !req.q?.trim() &&
+      hasActiveFilters(req.filters)
+    ) {
       return this.searchByFilterScan(req);
     }
 
     const params = this.buildQueryParams(req);
-    const { items, totalResults } = await this.fetchItems(params);
+    let { items, totalResults, filterQuery: appliedQuery } =
+      await this.fetchFilteredItems(params, filterQuery);
+
+    // Omeka matches text literally, so retry records stored with old-style chillu
+    const oldStyleQuery = req.q ? toOldStyleChillu(req.q) : req.q;
+    if (items.length === 0 && oldStyleQuery && oldStyleQuery !== req.q) {
+      params.set("search", oldStyleQuery);
+      ({ items, totalResults, filterQuery: appliedQuery } =
+        await this.fetchFilteredItems(params, filterQuery));
+    }
 
-    const transformedItems = items.map((item) => this.transformItem(item));
+    const transformedItems = items.map((item) => this.transformListItem(item));
 
-    // Apply all filters client-side so search and tile browsing stay aligned.
-    let filteredItems = this.applyClientSideFilters(transformedItems, req.filters);
+    // Re-check filters client-side: a fallback for filters Omeka could not apply,
+    // and a guard for values that normalise differently from the raw metadata
+    const filteredItems = applySearchFilters(transformedItems, req.filters).map((item) =>
+      toArchiveItem(item)
+    );
 
-    // If client-side filtering was applied, we need to estimate the total
-    // Since we can't know the true filtered total without fetching everything,
-    // we return the filtered count for this page when filters reduce results significantly
-    const hasClientSideFilters = this.hasActiveFilters(req.filters);
-    
-    // Calculate estimated total based on filter ratio
+    // Omeka's total is exact when every filter was pushed into the query as it is.
+    // Otherwise estimate it from the share of this page that survived filtering
     let estimatedTotal = totalResults;
-    if (hasClientSideFilters && transformedItems.length > 0) {
+    if (!appliedQuery.exact && transformedItems.length > 0) {
       const filterRatio = filteredItems.length / transformedItems.length;
       // If ratio is 0, we can't reliably estimate - return -1 to indicate "unknown"
       // This happens when the current page sample doesn't have items matching the filter
@@ -1161,53 +1711,25 @@ export class OmekaAdapter implements DataAdapter {
       }
     }
 
+    // Relevance, year and title sorts come from the item index once it is loaded
+    const provisional =
+      (req.sort === "relevance" && Boolean(req.q?.trim())) ||
+      (req.sort !== undefined && INDEX_SORTS.has(req.sort));
+
     return {
       items: filteredItems,
       total: estimatedTotal,
-      facets: this.computeFacets(transformedItems),
+      facets: computeFacets(transformedItems),
+      ...(provisional ? { provisional } : {}),
     };
   }
 
-  /**
-   * Shuffle array using seeded random for consistent results per tile
-   */
-  private shuffleWithSeed<T>(array: T[], seed: number): T[] {
-    const result = [...array];
-    let s = seed;
-    for (let i = result.length - 1; i > 0; i--) {
-      // Simple seeded random
-      s = (s * 1103515245 + 12345) & 0x7fffffff;
-      const j = s % (i + 1);
-      [result[i], result[j]] = [result[j], result[i]];
-    }
-    return result;
-  }
-
   /**
    * Fetch items for a specific tile
    */
-  async fetchTile(req: TileRequest): Promise<ArchiveItem[]> {
-    const hasFilters = req.filters && (
-      (req.filters.languages && req.filters.languages.length > 0) ||
-      (req.filters.types && req.filters.types.length > 0) ||
-      (req.filters.periods && req.filters.periods.length > 0) ||
-      req.filters.yearMin !== undefined ||
-      req.filters.yearMax !== undefined
-    );
-
-    // Use prime strides to spread adjacent tiles apart
-    const seed = req.seed || 0;
-    const PRIME_X = 7;
-    const PRIME_Y = 11;
-    const MAX_PAGES = 100; // Stay within available pages
-    
-    // Ensure positive values for tile coords
-    const absX = Math.abs(req.tileX) + (req.tileX < 0 ? 100 : 0);
-    const absY = Math.abs(req.tileY) + (req.tileY < 0 ? 100 : 0);
-    const page = ((absX * PRIME_X + absY * PRIME_Y + seed) % MAX_PAGES) + 1;
-    
-    // Vary sort order (asc/desc) for variety
-    const sortOrder = ((absX + absY + seed) % 2 === 0) ? "desc" : "asc";
+  async fetchTile(request: TileRequest): Promise<ArchiveItem[]> {
+    const req = request.q ? { ...request, q: normalizeMalayalam(request.q) } : request;
+    const { page, sortOrder, tileSeed } = getTilePlacement(req);
 
     const params = new URLSearchParams();
 
@@ -1217,70 +1739,59 @@ export class OmekaAdapter implements DataAdapter {
 
     params.set("page", String(page));
     // Always fetch max items to compensate for thumbnail filtering (some items lack thumbnails)
-    params.set("per_page", "50");
+    params.set("per_page", String(TILE_PAGE_SIZE));
     params.set("sort_by", "created");
     params.set("sort_order", sortOrder);
 
     let transformedItems: ArchiveItem[] = [];
     let rawItems: OmekaItem[] = [];
     try {
-      const { items } = await this.fetchItems(params);
+      const filterQuery = await this.buildFilterQuery(req);
+      let { items, totalResults } = await this.fetchFilteredItems(params, filterQuery);
+
+      // Omeka matches text literally, so retry records stored with old-style chillu
+      const oldStyleQuery = req.q ? toOldStyleChillu(req.q) : req.q;
+      if (totalResults === 0 && oldStyleQuery && oldStyleQuery !== req.q) {
+        params.set("search", oldStyleQuery);
+        ({ items, totalResults } = await this.fetchFilteredItems(params, filterQuery));
+      }
+
+      // Filtered results span fewer pages; wrap the tile back into range
+      const totalPages = Math.ceil(totalResults / TILE_PAGE_SIZE);
+      if (items.length === 0 && totalPages > 0 && page > totalPages) {
+        params.set("page", String(((page - 1) % totalPages) + 1));
+        ({ items, totalResults } = await this.fetchFilteredItems(params, filterQuery));
+      }
+
       rawItems = items;
-      transformedItems = items.map((item) => this.transformItem(item));
+      // Index records carry the subject and publisher fields the filters check
+      transformedItems = applySearchFilters(
+        items.map((item) => this.transformListItem(item)),
+        req.filters
+      ).map((item) => toArchiveItem(item));
     } catch (error) {
       console.error("Error fetching tile items:", error);
       // Return empty array on error instead of crashing
       return [];
     }
 
-    transformedItems = this.applyClientSideFilters(transformedItems, req.filters);
-
-    // For items with placeholder thumbnails, try to fetch real thumbnails from media
-    const itemsNeedingThumbnails: { index: number; rawItem: OmekaItem }[] = [];
-    
-    for (let i = 0; i < transformedItems.length; i++) {
-      const item = transformedItems[i];
-      const rawItem = rawItems.find(r => String(r["o:id"]) === item.id);
-      
-      if (!item.thumbnailUrl || item.thumbnailUrl.trim().length === 0) {
-        // No thumbnail at all - try to fetch from media
-        if (rawItem?.["o:media"]?.length) {
-          itemsNeedingThumbnails.push({ index: i, rawItem });
-        }
-      } else if (this.isPlaceholderThumbnail(item.thumbnailUrl)) {
-        // Has placeholder - try to get real thumbnail
-        if (rawItem?.["o:media"]?.length) {
-          itemsNeedingThumbnails.push({ index: i, rawItem });
-        } else {
-          // Can't get real thumbnail, clear it
-          transformedItems[i] = { ...item, thumbnailUrl: null };
-        }
-      }
-    }
-    
-    // Fetch real thumbnails for items that need them (limit to avoid slowdown)
-    const MAX_THUMBNAIL_FETCHES = 15;
-    const fetchPromises = itemsNeedingThumbnails.slice(0, MAX_THUMBNAIL_FETCHES).map(async ({ index, rawItem }) => {
-      const mediaRefs = rawItem["o:media"] as OmekaMediaRef[];
-      for (const mediaRef of mediaRefs) {
-        const realThumb = await this.fetchMediaThumbnail(mediaRef);
-        if (realThumb) {
-          transformedItems[index] = { ...transformedItems[index], thumbnailUrl: realThumb };
-          return;
-        }
-      }
-      // No real thumbnail found, clear it
-      transformedItems[index] = { ...transformedItems[index], thumbnailUrl: null };
-    });
-    
-    await Promise.all(fetchPromises);
-    
-    // Clear thumbnails for items we couldn't process
-    for (const { index } of itemsNeedingThumbnails.slice(MAX_THUMBNAIL_FETCHES)) {
-      if (transformedItems[index].thumbnailUrl && this.isPlaceholderThumbnail(transformedItems[index].thumbnailUrl!)) {
-        transformedItems[index] = { ...transformedItems[index], thumbnailUrl: null };
-      }
-    }
+    // Items with placeholder thumbnails wait for their real cover; each item is looked up
+    // once and stored, so later tiles showing it need no media requests
+    const rawItemsById = new Map(rawItems.map((item) => [String(item["o:id"]), item]));
+    transformedItems = await Promise.all(
+      transformedItems.map(async (item) => {
+        const rawItem = rawItemsById.get(item.id);
+        if (item.thumbnailUrl || !rawItem) return item;
+
+        // A slow cover leaves the item out of this tile; its lookup carries on for the next
+        const thumbnailUrl = await withDeadline(
+          this.resolveItemThumbnail(rawItem, true),
+          TILE_THUMBNAIL_DEADLINE_MS,
+          null
+        );
+        return thumbnailUrl ? { ...item, thumbnailUrl } : item;
+      })
+    );
 
     // Filter out items without valid thumbnails
     transformedItems = transformedItems.filter(
@@ -1288,13 +1799,42 @@ export class OmekaAdapter implements DataAdapter {
     );
 
     // Shuffle items using tile-specific seed for unique ordering per tile
-    const tileSeed = absX * 1000 + absY + seed;
-    const shuffled = this.shuffleWithSeed(transformedItems, tileSeed);
+    const shuffled = shuffleWithSeed(transformedItems, tileSeed);
 
     // Return only the requested limit
     return shuffled.slice(0, req.limit);
   }
 
+  /**
+   * Probe the Omeka items endpoint with a single-item request
+   */
+  async healthCheck(): Promise<AdapterHealth> {
+    const startedAt = Date.now();
+
+    try {
+      // A single live attempt: a probe must not be answered from a stale response
+      await this.fetchItems(new URLSearchParams({ per_page: "1", page: "1" }), {
+        retries: 0,
+        keepStale: false,
+        revalidate: 0,
+      });
+      return {
+        ok: true,
+        adapter: "omeka",
+        latencyMs: Date.now() - startedAt,
+        upstream: this.archive.upstream.getStatus(),
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        adapter: "omeka",
+        latencyMs: Date.now() - startedAt,
+        message: error instanceof Error ? error.message : "Omeka API request failed",
+        upstream: this.archive.upstream.getStatus(),
+      };
+    }
+  }
+
   /**
    * Get detailed information for a single item
    */
@@ -1302,24 +1842,16 @@ export class OmekaAdapter implements DataAdapter {
     const url = `${this.baseUrl}${this.itemsEndpoint}/${id}`;
 
     try {
-      const response = await fetch(url, {
-        headers: {
-          Accept: "application/json",
-        },
-        next: {
-          revalidate: 300,
-        },
-      });
+      const response = await this.archive.upstream.getJson<OmekaItem>(url, { revalidate: 300 });
 
-      if (!response.ok) {
+      if (!response.data) {
         if (response.status === 404) {
           return null;
         }
         throw new Error(`Omeka API error: ${response.status}`);
       }
 
-      const item = await response.json();
-      return await this.transformItemDetail(item);
+      return await this.transformItemDetail(response.data);
     } catch (error) {
       console.error(`Error fetching item ${id}:`, error);
       return null;
@@ -1354,6 +1886,8 @@ interface OmekaMedia {
 interface OmekaItemSet {
   "o:id"?: number;
   "o:title"?: string;
+  "o:thumbnail_display_urls"?: Record<string, string>;
+  thumbnail_display_urls?: Record<string, string>;
   [key: string]: unknown;
 }
 
@@ -0,0 +1,174 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  ArchiveCollection,
+  ArchiveItem,
+  ItemDetail,
+  NameCount,
+  NameField,
+  SearchRequest,
+  SearchResponse,
+  TileRequest,
+} from "@/lib/types";
+import type { AdapterHealth, DataAdapter } from "./DataAdapter";
+import { CatalogIndex } from "./catalog-index";
+
+// Environment configuration
+const STATIC_CATALOG_PATH = process.env.STATIC_CATALOG_PATH || "data/catalog/items.ndjson";
+
+/**
+ * StaticAdapter: Serves items from a local catalog dump of ItemDetail records
+ * Accepts a JSON array, a JSON object with an `items` array, or NDJSON (one record per line)
+ */
+export class StaticAdapter implements DataAdapter {
+  private catalogPath: string;
+  private catalogPromise: Promise<CatalogIndex> | null = null;
+
+  constructor(catalogPath = STATIC_CATALOG_PATH) {
+    this.catalogPath = path.resolve(process.cwd(), catalogPath);
+  }
+
+  /**
+   * Parse a catalog file in JSON or NDJSON format
+   */
+  private parseCatalog(contents: string): ItemDetail[] {
+    const trimmed = contents.trim();
+    if (!trimmed) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed as ItemDetail[];
+      }
+      if (Array.isArray(parsed?.items)) {
+        return parsed.items as ItemDetail[];
+      }
+      return [parsed as ItemDetail];
+    } catch {
+      // Not a single JSON document - treat as NDJSON
+    }
+
+    return trimmed
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((line) => JSON.parse(line) as ItemDetail);
+  }
+
+  /**
+   * Load and index the catalog once
+   */
+  private loadCatalog(): Promise<CatalogIndex> {
+    if (this.catalogPromise) {
+      return this.catalogPromise;
+    }
+
+    this.catalogPromise = (async () => {
+      const contents = await readFile(this.catalogPath, "utf8");
+      return new CatalogIndex(this.parseCatalog(contents));
+    })();
+
+    // Allow a retry if the file was missing or malformed
+    this.catalogPromise.catch(() => {
+      this.catalogPromise = null;
+    });
+
+    return this.catalogPromise;
+  }
+
+  /**
+   * Load the catalog before the first request
+   */
+  async init(): Promise<void> {
+    await this.loadCatalog();
+  }
+
+  /**
+   * Report how many items the catalog holds
+   */
+  async healthCheck(): Promise<AdapterHealth> {
+    const startedAt = Date.now();
+
+    try {
+      const catalog = await this.loadCatalog();
+      return {
+        ok: catalog.size > 0,
+        adapter: "static",
+        latencyMs: Date.now() - startedAt,
+        message: `${catalog.size} items loaded from ${this.catalogPath}`,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        adapter: "static",
+        latencyMs: Date.now() - startedAt,
+        message: error instanceof Error ? error.message : "Failed to load catalog",
+      };
+    }
+  }
+
+  /**
+   * Drop the loaded catalog so the next request re-reads the file
+   */
+  async dispose(): Promise<void> {
+    this.catalogPromise = null;
+  }
+
+  /**
+   * Enumerate every item in the catalog
+   */
+  async getFullItemIndex(): Promise<ArchiveItem[]> {
+    const catalog = await this.loadCatalog();
+    return catalog.listItems();
+  }
+
+  /**
+   * Search items with query and filters
+   */
+  async search(req: SearchRequest): Promise<SearchResponse> {
+    const catalog = await this.loadCatalog();
+    return catalog.search(req);
+  }
+
+  /**
+   * Fetch items for a specific tile
+   */
+  async fetchTile(req: TileRequest): Promise<ArchiveItem[]> {
+    const catalog = await this.loadCatalog();
+    return catalog.fetchTile(req);
+  }
+
+  /**
+   * Get detailed information for a single item
+   */
+  async getItem(id: string): Promise<ItemDetail | null> {
+    const catalog = await this.loadCatalog();
+    return catalog.getItem(id);
+  }
+
+  /**
+   * List collections named in the catalog snapshot
+   */
+  async listCollections(): Promise<ArchiveCollection[]> {
+    const catalog = await this.loadCatalog();
+    return catalog.listCollections();
+  }
+
+  /**
+   * Count subjects or publishers across the catalog snapshot
+   */
+  async listNames(field: NameField): Promise<NameCount[]> {
+    const catalog = await this.loadCatalog();
+    return catalog.listNames(field);
+  }
+
+  /**
+   * Items related to an item by shared authors, subjects or collections
+   */
+  async getRelatedItems(id: string, limit?: number): Promise<ArchiveItem[]> {
+    const catalog = await this.loadCatalog();
+    return catalog.getRelatedItems(id, limit);
+  }
+}
@@ -0,0 +1,341 @@
+import { createHash } from "node:crypto";
+import { normalizeMalayalam } from "@/lib/malayalam";
+import { toSlug } from "@/lib/slug";
+import type {
+  ArchiveItem,
+  Facets,
+  ItemDetail,
+  SearchFilters,
+  SearchSort,
+  TileRequest,
+} from "@/lib/types";
+import { TIME_RANGES } from "@/lib/types";
+
+/**
+ * Shared helpers for DataAdapter implementations
+ * Keeps filtering, facets and tile shuffling identical across backends
+ */
+
+export type YearRange = { label: string; min?: number; max?: number };
+
+/**
+ * List record plus the descriptive fields some filters need
+ * List-only records never match subject or publisher filters
+ */
+export type FilterableItem = ArchiveItem & Pick<ItemDetail, "subjects" | "publisher">;
+
+/**
+ * Check whether any search filter is set
+ */
+export function hasActiveFilters(filters?: SearchFilters): boolean {
+  if (!filters) return false;
+
+  return (
+    (filters.languages?.length ?? 0) > 0 ||
+    (filters.types?.length ?? 0) > 0 ||
+    (filters.collections?.length ?? 0) > 0 ||
+    (filters.subjects?.length ?? 0) > 0 ||
+    (filters.publishers?.length ?? 0) > 0 ||
+    (filters.periods?.length ?? 0) > 0 ||
+    filters.yearMin !== undefined ||
+    filters.yearMax !== undefined
+  );
+}
+
+/**
+ * Resolve period labels (predefined ranges, "1900-1950" or "1925") to year ranges
+ */
+export function resolvePeriodRanges(periods: string[]): YearRange[] {
+  const selectedRanges: YearRange[] = [];
+
+  for (const label of periods) {
+    const predefined = TIME_RANGES.find((range) => range.label === label);
+    if (predefined) {
+      selectedRanges.push({
+        label: predefined.label,
+        min: predefined.min,
+        max: predefined.max,
+      });
+      continue;
+    }
+
+    const rangeMatch = label.match(/^(\d{3,4})\s*[–-]\s*(\d{3,4})$/);
+    if (rangeMatch) {
+      const min = parseInt(rangeMatch[1], 10);
+      const max = parseInt(rangeMatch[2], 10);
+      selectedRanges.push({ label, min, max });
+      continue;
+    }
+
+    const yearMatch = label.match(/^(\d{3,4})$/);
+    if (yearMatch) {
+      const year = parseInt(yearMatch[1], 10);
+      selectedRanges.push({ label, min: year, max: year });
+    }
+  }
+
+  return selectedRanges;
+}
+
+/**
+ * CE years an item's date covers; records without a span cover just `year`
+ */
+export function getItemYearSpan(
+  item: Pick<ArchiveItem, "year" | "yearStart" | "yearEnd">
+): { start: number; end: number } | null {
+  const start = item.yearStart ?? item.year;
+  if (start == null) return null;
+  return { start, end: Math.max(start, item.yearEnd ?? start) };
+}
+
+/**
+ * Every collection an item belongs to; older records only carry `collection`
+ */
+export function getItemCollections(item: Pick<ArchiveItem, "collection" | "collections">): string[] {
+  if (item.collections?.length) return item.collections;
+  return item.collection ? [item.collection] : [];
+}
+
+/**
+ * Apply search filters to already transformed items
+ */
+export function applySearchFilters<T extends FilterableItem>(
+  items: T[],
+  filters?: SearchFilters
+): T[] {
+  if (!filters) {
+    return items;
+  }
+
+  let filteredItems = items;
+
+  if (filters.languages && filters.languages.length > 0) {
+    filteredItems = filteredItems.filter(
+      (item) => item.language && filters.languages!.includes(item.language)
+    );
+  }
+
+  if (filters.types && filters.types.length > 0) {
+    filteredItems = filteredItems.filter(
+      (item) => item.type && filters.types!.includes(item.type)
+    );
+  }
+
+  // Dates spanning several years match any range they overlap
+  if (filters.yearMin !== undefined) {
+    filteredItems = filteredItems.filter((item) => {
+      const span = getItemYearSpan(item);
+      return span != null && span.end >= filters.yearMin!;
+    });
+  }
+
+  if (filters.yearMax !== undefined) {
+    filteredItems = filteredItems.filter((item) => {
+      const span = getItemYearSpan(item);
+      return span != null && span.start <= filters.yearMax!;
+    });
+  }
+
+  if (filters.periods && filters.periods.length > 0) {
+    const selectedRanges = resolvePeriodRanges(filters.periods);
+
+    if (selectedRanges.length > 0) {
+      filteredItems = filteredItems.filter((item) => {
+        const span = getItemYearSpan(item);
+        if (span == null) return false;
+
+        return selectedRanges.some((range) => {
+          const min = range.min ?? -Infinity;
+          const max = range.max ?? Infinity;
+          return span.end >= min && span.start <= max;
+        });
+      });
+    }
+  }
+
+  if (filters.collections && filters.collections.length > 0) {
+    filteredItems = filteredItems.filter((item) =>
+      getItemCollections(item).some((collection) => filters.collections!.includes(collection))
+    );
+  }
+
+  // Subjects and publishers compare by slug, so case and encoding variants match
+  if (filters.subjects && filters.subjects.length > 0) {
+    const slugs = new Set(filters.subjects.map((subject) => toSlug(subject)));
+    filteredItems = filteredItems.filter((item) =>
+      (item.subjects ?? []).some((subject) => slugs.has(toSlug(subject)))
+    );
+  }
+
+  if (filters.publishers && filters.publishers.length > 0) {
+    const slugs = new Set(filters.publishers.map((publisher) => toSlug(publisher)));
+    filteredItems = filteredItems.filter(
+      (item) => item.publisher != null && slugs.has(toSlug(item.publisher))
+    );
+  }
+
+  return filteredItems;
+}
+
+/**
+ * Compute facets from items
+ */
+export function computeFacets(items: ArchiveItem[]): Facets {
+  const languages: Record<string, number> = {};
+  const inferredLanguages: Record<string, number> = {};
+  const types: Record<string, number> = {};
+  const collections: Record<string, number> = {};
+  let minYear: number | null = null;
+  let maxYear: number | null = null;
+
+  for (const item of items) {
+    if (item.language) {
+      languages[item.language] = (languages[item.language] || 0) + 1;
+      if (item.languageInferred) {
+        inferredLanguages[item.language] = (inferredLanguages[item.language] || 0) + 1;
+      }
+    }
+    if (item.type) {
+      types[item.type] = (types[item.type] || 0) + 1;
+    }
+    for (const collection of getItemCollections(item)) {
+      collections[collection] = (collections[collection] || 0) + 1;
+    }
+    const span = getItemYearSpan(item);
+    if (span) {
+      if (minYear === null || span.start < minYear) minYear = span.start;
+      if (maxYear === null || span.end > maxYear) maxYear = span.end;
+    }
+  }
+
+  return {
+    languages,
+    inferredLanguages,
+    types,
+    collections,
+    years: { min: minYear, max: maxYear },
+  };
+}
+
+/**
+ * Sort items newest first by numeric ID, then by year
+ */
+export function sortByNewestId<T extends ArchiveItem>(items: T[]): T[] {
+  return [...items].sort((a, b) => {
+    const idA = Number.parseInt(a.id, 10);
+    const idB = Number.parseInt(b.id, 10);
+
+    if (Number.isFinite(idA) && Number.isFinite(idB) && idA !== idB) {
+      return idB - idA;
+    }
+
+    const yearA = a.year ?? -Infinity;
+    const yearB = b.year ?? -Infinity;
+    return yearB - yearA;
+  });
+}
+
+// Malayalam collation first so mixed-script titles group by script, then by letter
+const titleCollator = new Intl.Collator(["ml", "en"], { sensitivity: "base", numeric: true });
+
+/**
+ * Sort items by publication year; undated items go last, ties stay newest first
+ */
+function sortByYear<T extends ArchiveItem>(items: T[], direction: "asc" | "desc"): T[] {
+  return sortByNewestId(items).sort((a, b) => {
+    if (a.year == null || b.year == null) {
+      return (a.year == null ? 1 : 0) - (b.year == null ? 1 : 0);
+    }
+    return direction === "asc" ? a.year - b.year : b.year - a.year;
+  });
+}
+
+/**
+ * Sort items by title, locale-aware for Malayalam; encoding variants sort together
+ */
+function sortByTitle<T extends ArchiveItem>(items: T[]): T[] {
+  return items
+    .map((item) => ({ item, key: normalizeMalayalam(item.title.trim()) }))
+    .sort((a, b) => titleCollator.compare(a.key, b.key) || compareNewestFirst(a.item, b.item))
+    .map(({ item }) => item);
+}
+
+function compareNewestFirst(a: ArchiveItem, b: ArchiveItem): number {
+  const idA = Number.parseInt(a.id, 10);
+  const idB = Number.parseInt(b.id, 10);
+  return Number.isFinite(idA) && Number.isFinite(idB) ? idB - idA : 0;
+}
+
+/**
+ * Sort items for a search; relevance order comes from the text index, so it
+ * falls back to newest first here
+ */
+export function sortItems<T extends ArchiveItem>(items: T[], sort: SearchSort = "newest"): T[] {
+  switch (sort) {
+    case "year-desc":
+      return sortByYear(items, "desc");
+    case "year-asc":
+      return sortByYear(items, "asc");
+    case "title":
+      return sortByTitle(items);
+    default:
+      return sortByNewestId(items);
+  }
+}
+
+/**
+ * Shuffle array using seeded random for consistent results per tile
+ */
+export function shuffleWithSeed<T>(array: T[], seed: number): T[] {
+  const result = [...array];
+  let s = seed;
+  for (let i = result.length - 1; i > 0; i--) {
+    // Simple seeded random
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    const j = s % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Number of items fetched per tile before thumbnail filtering and shuffling
+ */
+export const TILE_PAGE_SIZE = 50;
+
+/**
+ * Page, sort order and shuffle seed for a tile
+ * Prime strides spread adjacent tiles across different pages
+ */
+export function getTilePlacement(req: TileRequest, maxPages = 100): {
+  page: number;
+  sortOrder: "asc" | "desc";
+  tileSeed: number;
+} {
+  const seed = req.seed || 0;
+  const PRIME_X = 7;
+  const PRIME_Y = 11;
+
+  // Ensure positive values for tile coords
+  const absX = Math.abs(req.tileX) + (req.tileX < 0 ? 100 : 0);
+  const absY = Math.abs(req.tileY) + (req.tileY < 0 ? 100 : 0);
+  const page = ((absX * PRIME_X + absY * PRIME_Y + seed) % Math.max(1, maxPages)) + 1;
+
+  // Vary sort order (asc/desc) for variety
+  const sortOrder = ((absX + absY + seed) % 2 === 0) ? "desc" : "asc";
+
+  return {
+    page,
+    sortOrder,
+    tileSeed: absX * 1000 + absY + seed,
+  };
+}
+
+/**
+ * Derive a stable numeric item ID from an external identifier (URL, OAI identifier)
+ * Item routes only accept digits, and 48 bits keeps collisions negligible
+ */
+export function toNumericItemId(key: string): string {
+  const hex = createHash("sha1").update(key).digest("hex").slice(0, 12);
+  return String(Number.parseInt(hex, 16));
+}
@@ -0,0 +1,241 @@
+import type {
+  ArchiveCollection,
+  ArchiveItem,
+  ItemDetail,
+  NameCount,
+  NameField,
+  SearchRequest,
+  SearchResponse,
+  TileRequest,
+} from "@/lib/types";
+import { normalizeMalayalam } from "@/lib/malayalam";
+import { toSlug } from "@/lib/slug";
+import { FullTextIndex, toFullTextDocument } from "@/server/full-text-index";
+import { countNames } from "@/server/name-index";
+import { findRelatedItems } from "@/server/related-items";
+import {
+  applySearchFilters,
+  computeFacets,
+  getItemCollections,
+  getTilePlacement,
+  shuffleWithSeed,
+  sortByNewestId,
+  sortItems,
+  TILE_PAGE_SIZE,
+} from "./adapter-utils";
+
+/**
+ * Strip detail-only fields so list responses match OmekaAdapter payloads
+ */
+export function toArchiveItem(item: ItemDetail): ArchiveItem {
+  return {
+    id: item.id,
+    title: item.title,
+    year: item.year ?? null,
+    yearStart: item.yearStart ?? null,
+    yearEnd: item.yearEnd ?? null,
+    dateDisplay: item.dateDisplay ?? null,
+    dateCertainty: item.dateCertainty ?? null,
+    language: item.language ?? null,
+    languageInferred: item.languageInferred ?? false,
+    type: item.type ?? null,
+    typeSource: item.typeSource ?? null,
+    typeConfidence: item.typeConfidence ?? null,
+    collection: item.collection ?? null,
+    collections: item.collections,
+    authors: item.authors,
+    thumbnailUrl: item.thumbnailUrl ?? null,
+    sourceUrl: item.sourceUrl,
+  };
+}
+
+/**
+ * CatalogIndex: In-memory search, tiles and lookups over a list of ItemDetail records
+ * Backs adapters that hold their whole catalogue locally (static dumps, harvested feeds)
+ */
+export class CatalogIndex {
+  private byId = new Map<string, ItemDetail>();
+  // Items sorted by descending numeric ID, matching Omeka's "created desc"
+  private newestFirst: ItemDetail[];
+  private textIndex: FullTextIndex | null = null;
+  // Built on first use and handed out as the same array, so derived indexes can cache on it
+  private listView: ArchiveItem[] | null = null;
+  private nameCounts = new Map<NameField, NameCount[]>();
+
+  constructor(records: ItemDetail[]) {
+    for (const record of records) {
+      if (!record || record.id == null) continue;
+      const item = { ...record, id: String(record.id) };
+      if (!this.byId.has(item.id)) {
+        this.byId.set(item.id, item);
+      }
+    }
+
+    this.newestFirst = sortByNewestId(Array.from(this.byId.values()));
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /**
+   * Match every query term against the item's descriptive fields
+   */
+  private matchesQuery(item: ItemDetail, q?: string): boolean {
+    const terms = q ? normalizeMalayalam(q).toLowerCase().split(/\s+/).filter(Boolean) : [];
+    if (terms.length === 0) {
+      return true;
+    }
+
+    const haystack = [
+      item.title,
+      ...(item.alternativeTitles ?? []),
+      ...(item.authors ?? []),
+      ...(item.subjects ?? []),
+      item.publisher,
+      item.description,
+    ]
+      .filter((value): value is string => Boolean(value))
+      .map((value) => normalizeMalayalam(value))
+      .join(" ")
+      .toLowerCase();
+
+    return terms.every((term) => haystack.includes(term));
+  }
+
+  /**
+   * Every item as a list record, newest first
+   */
+  listItems(): ArchiveItem[] {
+    this.listView ??= this.newestFirst.map((item) => toArchiveItem(item));
+    return this.listView;
+  }
+
+  /**
+   * Collections named on the items, largest first; IDs are title slugs
+   * The cover is the newest item with a thumbnail
+   */
+  listCollections(): ArchiveCollection[] {
+    const collections = new Map<string, ArchiveCollection>();
+
+    for (const item of this.newestFirst) {
+      for (const title of getItemCollections(item)) {
+        const id = toSlug(title);
+        if (!id) continue;
+
+        const collection = collections.get(id);
+        if (collection) {
+          collection.itemCount += 1;
+          collection.thumbnailUrl ??= item.thumbnailUrl ?? null;
+        } else {
+          collections.set(id, { id, title, itemCount: 1, thumbnailUrl: item.thumbnailUrl ?? null });
+        }
+      }
+    }
+
+    return Array.from(collections.values()).sort(
+      (a, b) => b.itemCount - a.itemCount || a.title.localeCompare(b.title)
+    );
+  }
+
+  /**
+   * Subject or publisher counts over every item, most used first
+   */
+  listNames(field: NameField): NameCount[] {
+    let counts = this.nameCounts.get(field);
+    if (!counts) {
+      counts = countNames(this.newestFirst, field);
+      this.nameCounts.set(field, counts);
+    }
+    return counts;
+  }
+
+  /**
+   * Items matching the query, best text match first
+   * The full-text index is built on the first relevance search
+   */
+  private rankByRelevance(q: string): { items: ItemDetail[]; transliteratedQuery: string | null } {
+    this.textIndex ??= new FullTextIndex(this.newestFirst.map((item) => toFullTextDocument(item)));
+
+    const { matches, transliteratedQuery } = this.textIndex.search(q);
+    return {
+      items: matches
+        .map((match) => this.byId.get(match.id))
+        .filter((item): item is ItemDetail => Boolean(item)),
+      transliteratedQuery,
+    };
+  }
+
+  /**
+   * Search items with query and filters
+   */
+  search(req: SearchRequest): SearchResponse {
+    const page = req.page || 1;
+    const pageSize = req.pageSize || 40;
+
+    const ranked =
+      req.sort === "relevance" && req.q?.trim() ? this.rankByRelevance(req.q) : null;
+    const matchingItems =
+      ranked?.items ?? this.newestFirst.filter((item) => this.matchesQuery(item, req.q));
+    const filteredItems = applySearchFilters(matchingItems, req.filters);
+    // Matches are already newest first, or in relevance order
+    const sortedItems =
+      ranked || !req.sort || req.sort === "newest"
+        ? filteredItems
+        : sortItems(filteredItems, req.sort);
+    const offset = (page - 1) * pageSize;
+
+    return {
+      items: sortedItems
+        .slice(offset, offset + pageSize)
+        .map((item) => toArchiveItem(item)),
+      total: filteredItems.length,
+      facets: computeFacets(matchingItems),
+      transliteratedQuery: ranked?.transliteratedQuery ?? null,
+    };
+  }
+
+  /**
+   * Fetch items for a specific tile
+   */
+  fetchTile(req: TileRequest): ArchiveItem[] {
+    const candidates = applySearchFilters(
+      this.newestFirst.filter((item) => this.matchesQuery(item, req.q)),
+      req.filters
+    );
+
+    // Wrap pages around the catalog so small catalogs still fill every tile
+    const pageCount = Math.ceil(candidates.length / TILE_PAGE_SIZE);
+    const { page, sortOrder, tileSeed } = getTilePlacement(req, pageCount);
+    const ordered = sortOrder === "desc" ? candidates : [...candidates].reverse();
+    const offset = (page - 1) * TILE_PAGE_SIZE;
+
+    const withThumbnails = ordered
+      .slice(offset, offset + TILE_PAGE_SIZE)
+      .filter((item) => item.thumbnailUrl && item.thumbnailUrl.trim().length > 0)
+      .map((item) => toArchiveItem(item));
+
+    // Shuffle items using tile-specific seed for unique ordering per tile
+    const shuffled = shuffleWithSeed(withThumbnails, tileSeed);
+
+    return shuffled.slice(0, req.limit);
+  }
+
+  /**
+   * Get detailed information for a single item
+   */
+  getItem(id: string): ItemDetail | null {
+    return this.byId.get(id) ?? null;
+  }
+
+  /**
+   * Items sharing authors, subjects or collections with an item
+   */
+  getRelatedItems(id: string, limit?: number): ArchiveItem[] {
+    const target = this.byId.get(id);
+    if (!target) {
+      return [];
+    }
+    return findRelatedItems(target, this.newestFirst, limit).map((item) => toArchiveItem(item));
+  }
+}
@@ -0,0 +1,246 @@
+import { normalizeMalayalam } from "@/lib/malayalam";
+import type { ArchiveItem, DateCertainty } from "@/lib/types";
+
+/**
+ * Date statements from catalogue metadata
+ * Reads Gregorian years, Malayalam Era (Kollam) and Saka years, circa and questioned
+ * dates, decades, centuries and ranges, and resolves each to a span of CE years
+ */
+
+export type ParsedDate = {
+  yearStart: number;
+  yearEnd: number;
+  dateDisplay: string;
+  dateCertainty: DateCertainty;
+};
+
+const MALAYALAM_DIGITS = "൦൧൨൩൪൫൬൭൮൯";
+
+// Gregorian years 1000-2029, so page counts and IDs are not read as years
+const CE_YEAR_PATTERN = /(?<![0-9])(1[0-9]{3}|20[0-2][0-9])(?![0-9])/gu;
+
+// Separators that make two years a range rather than, say, a reprint date
+const RANGE_SEPARATOR = /[–—/]|\s-\s|^\s*-\s*$|\b(?:to|until|till)\b|വരെ/iu;
+
+const CIRCA_PATTERN =
+  /(?<![\p{L}\p{M}])(?:c|ca|circa|approx(?:imately)?|about|around|ഏകദേശം)(?![\p{L}\p{M}])/iu;
+const QUESTIONED_PATTERN = /\?|\[\s*[0-9]/u;
+
+type Era = {
+  label: string;
+  marker: string;
+  offset: number; // CE year in which an era year begins
+  months?: string[][]; // Era months in order; from `nextYearMonth` on they fall in the next CE year
+  nextYearMonth?: number;
+};
+
+const ERAS: Era[] = [
+  {
+    // Kollam years begin with Chingam in mid-August
+    label: "ME",
+    // A bare "കൊല്ലം" is also the city; years that would fall after today are not read as ME
+    marker: String.raw`കൊല്ലവർഷം|കൊ\.\s*വ\.|മലയാളവർഷം|കൊല്ലം(?![\p{L}\p{M}])|\b[Kk]ollam\s+[Ee]ra\b|\b[Kk]ollavarsham\b|\b[Mm]alayalam\s+[Ee]ra\b|\b[MK]\.\s?E\.?|\b(?:ME|KE)\b`,
+    offset: 824,
+    months: [
+      ["ചിങ്ങം", "chingam"],
+      ["കന്നി", "kanni"],
+      ["തുലാം", "thulam", "tulam"],
+      ["വൃശ്ചികം", "vrischikam", "vrishchikam"],
+      ["ധനു", "dhanu"],
+      ["മകരം", "makaram"],
+      ["കുംഭം", "kumbham"],
+      ["മീനം", "meenam"],
+      ["മേടം", "medam"],
+      ["ഇടവം", "edavam", "itavam"],
+      ["മിഥുനം", "mithunam"],
+      ["കർക്കടകം", "കർക്കിടകം", "karkidakam", "karkkidakam", "karkatakam"],
+    ],
+    nextYearMonth: 6, // Makaram
+  },
+  {
+    // Saka years begin with Chaitra in late March
+    label: "Saka",
+    marker: String.raw`ശകവർഷം|ശക\s*വർഷം|(?<![\p{L}\p{M}])(?:[Ss]h?aka|[Śś]aka)(?:\s+[Ee]ra)?(?![\p{L}\p{M}])`,
+    offset: 78,
+  },
+];
+
+/**
+ * CE year in which a year of each era begins; the era year runs into the next CE year
+ */
+export const ERA_OFFSETS = ERAS.map((era) => era.offset);
+
+function toAsciiDigits(text: string): string {
+  return text.replace(/[൦-൯]/gu, (digit) => String(MALAYALAM_DIGITS.indexOf(digit)));
+}
+
+export function toMalayalamDigits(text: string): string {
+  return text.replace(/[0-9]/g, (digit) => MALAYALAM_DIGITS[Number(digit)]);
+}
+
+function formatSpan(start: number, end: number): string {
+  return start === end ? String(start) : `${start}–${end}`;
+}
+
+function getOrdinal(value: number): string {
+  const suffix =
+    value % 100 >= 11 && value % 100 <= 13 ? "th" : (["th", "st", "nd", "rd"][value % 10] ?? "th");
+  return `${value}${suffix}`;
+}
+
+/**
+ * Month of an era year named anywhere in the text (1-based)
+ */
+function findEraMonth(text: string, era: Era): number | null {
+  const index = era.months?.findIndex((names) =>
+    names.some((name) => new RegExp(`(?<![\\p{L}\\p{M}])${name}(?![\\p{L}\\p{M}])`, "iu").test(text))
+  );
+  return index != null && index >= 0 ? index + 1 : null;
+}
+
+/**
+ * "ME 1100", "1100 ചിങ്ങം കൊല്ലവർഷം", "1099-ാം കൊല്ലം", "Saka 1850-1852"
+ */
+function parseEraDate(text: string): ParsedDate | null {
+  for (const era of ERAS) {
+    const pattern = new RegExp(
+      `(?:${era.marker})[\\s:,.-]*([0-9]{1,4})(?:\\s*[–—-]\\s*([0-9]{1,4}))?|([0-9]{1,4})(?:\\s*[–—-]\\s*([0-9]{1,4}))?(?:\\s*-?\\s*ാം)?\\s*(?:[\\p{L}\\p{M}]+\\s+)?(?:${era.marker})`,
+      "u"
+    );
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    const first = Number.parseInt(match[1] ?? match[3], 10);
+    const last = Number.parseInt(match[2] ?? match[4] ?? "", 10);
+    const eraEnd = last >= first && last - first <= 100 ? last : first;
+
+    const month = eraEnd === first ? findEraMonth(text, era) : null;
+    const inNextYear = month != null && era.nextYearMonth != null && month >= era.nextYearMonth;
+    let yearStart = first + era.offset + (inNextYear ? 1 : 0);
+    let yearEnd = month != null ? yearStart : eraEnd + era.offset + 1;
+    if (yearStart > new Date().getFullYear()) continue;
+
+    // A CE year given alongside the era year pins down which of its two CE years is meant
+    const rest = text.slice(0, match.index) + text.slice(match.index + match[0].length);
+    const stated = Array.from(rest.matchAll(CE_YEAR_PATTERN), (ceMatch) => Number(ceMatch[1])).find(
+      (year) => year >= yearStart && year <= yearEnd
+    );
+    if (stated !== undefined) {
+      yearStart = stated;
+      yearEnd = stated;
+    }
+
+    const eraYears = eraEnd === first ? String(first) : `${first}–${eraEnd}`;
+    return {
+      yearStart,
+      yearEnd,
+      dateDisplay: `${era.label} ${eraYears} (${formatSpan(yearStart, yearEnd)})`,
+      dateCertainty: "exact",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * "19th century", "19-ാം നൂറ്റാണ്ട്"
+ */
+function parseCentury(text: string): ParsedDate | null {
+  const match = /(?<![0-9])(1[0-9]|2[01])\s*(?:st|nd|rd|th|-?ാം)\s*(?:century|c\.|നൂറ്റാണ്ട്)/iu.exec(text);
+  if (!match) return null;
+
+  const century = Number.parseInt(match[1], 10);
+  return {
+    yearStart: (century - 1) * 100,
+    yearEnd: (century - 1) * 100 + 99,
+    dateDisplay: `${getOrdinal(century)} century`,
+    dateCertainty: "circa",
+  };
+}
+
+/**
+ * "1920s", "1920's", "1920-കൾ"
+ */
+function parseDecade(text: string): ParsedDate | null {
+  const match = /(?<![0-9])(1[0-9]{2}0|20[0-2]0)\s*(?:'?s\b|-?കൾ|-?കളിൽ)/iu.exec(text);
+  if (!match) return null;
+
+  const decade = Number.parseInt(match[1], 10);
+  return {
+    yearStart: decade,
+    yearEnd: decade + 9,
+    dateDisplay: `${decade}s`,
+    dateCertainty: "circa",
+  };
+}
+
+/**
+ * Gregorian year or range: "1924-05-12", "1920–1925", "1920/21", "1920 to 1925"
+ */
+function parseGregorian(text: string): { yearStart: number; yearEnd: number } | null {
+  const matches = Array.from(text.matchAll(CE_YEAR_PATTERN));
+  if (matches.length === 0) return null;
+
+  const start = Number.parseInt(matches[0][1], 10);
+  const afterStart = matches[0].index + matches[0][0].length;
+
+  // Two-digit range ends; a hyphenated value up to 12 is an ISO month
+  const short = /^\s*([–—/-])\s*([0-9]{2})(?![0-9])/u.exec(text.slice(afterStart));
+  if (short && !(short[1] === "-" && Number(short[2]) <= 12)) {
+    const end = Math.floor(start / 100) * 100 + Number.parseInt(short[2], 10);
+    if (end > start) return { yearStart: start, yearEnd: end };
+  }
+
+  const last = matches[matches.length - 1];
+  const end = Number.parseInt(last[1], 10);
+  if (end > start && RANGE_SEPARATOR.test(text.slice(afterStart, last.index))) {
+    return { yearStart: start, yearEnd: end };
+  }
+
+  return { yearStart: start, yearEnd: start };
+}
+
+/**
+ * Parse a free-text date into a CE year span, or null when it names no year
+ */
+export function parseDate(value?: string | null): ParsedDate | null {
+  if (!value) return null;
+  const text = toAsciiDigits(normalizeMalayalam(value)).trim();
+  if (!text) return null;
+
+  const named = parseEraDate(text) ?? parseCentury(text) ?? parseDecade(text);
+  if (named) return named;
+
+  const span = parseGregorian(text);
+  if (!span) return null;
+
+  const dateCertainty: DateCertainty = CIRCA_PATTERN.test(text)
+    ? "circa"
+    : QUESTIONED_PATTERN.test(text)
+      ? "uncertain"
+      : "exact";
+  const years = formatSpan(span.yearStart, span.yearEnd);
+
+  return {
+    ...span,
+    dateDisplay:
+      dateCertainty === "circa" ? `c. ${years}` : dateCertainty === "uncertain" ? `${years}?` : years,
+    dateCertainty,
+  };
+}
+
+/**
+ * Item date fields from a free-text date; `year` is the first CE year
+ */
+export function getDateFields(
+  value?: string | null
+): Pick<ArchiveItem, "year" | "yearStart" | "yearEnd" | "dateDisplay" | "dateCertainty"> {
+  const date = parseDate(value);
+  return {
+    year: date?.yearStart ?? null,
+    yearStart: date?.yearStart ?? null,
+    yearEnd: date?.yearEnd ?? null,
+    dateDisplay: date?.dateDisplay ?? null,
+    dateCertainty: date?.dateCertainty ?? null,
+  };
+}
@@ -0,0 +1,124 @@
+import { CACHE_TTL } from "@/lib/cache";
+import type { ItemIndexStatus } from "./DataAdapter";
+import type { CatalogIndex } from "./catalog-index";
+
+/**
+ * In-memory catalog harvested from a remote endpoint (IIIF collection, OAI-PMH)
+ * Only the first harvest is waited for: once built, an index past its lifetime is
+ * served as it is while a fresh harvest runs in the background
+ */
+
+type Harvest = () => Promise<CatalogIndex>;
+
+// A failed harvest is not retried for a while, so requests do not hammer a failing endpoint
+const RETRY_AFTER_ERROR_MS = 5 * 60 * 1000;
+
+// Shared by every adapter instance for the same endpoint, so a reset adapter reuses it
+const harvestedIndexes = new Map<string, HarvestedIndex>();
+
+export class HarvestedIndex {
+  private index: CatalogIndex | null = null;
+  private builtAt = 0;
+  private harvestPromise: Promise<CatalogIndex> | null = null;
+  private lastError: { error: unknown; at: number } | null = null;
+  private status: ItemIndexStatus;
+
+  constructor(
+    adapter: string,
+    private readonly harvest: Harvest,
+    private readonly maxAgeMs: number = CACHE_TTL.DEFAULT
+  ) {
+    this.status = {
+      adapter,
+      state: "empty",
+      itemCount: 0,
+      loadedFrom: null,
+      builtAt: null,
+      syncedAt: null,
+      persistedPath: null,
+      progress: null,
+      lastRefresh: null,
+      error: null,
+    };
+  }
+
+  /**
+   * The current index; waits only when none has been built yet
+   */
+  load(): Promise<CatalogIndex> {
+    const retryDue = !this.lastError || Date.now() - this.lastError.at > RETRY_AFTER_ERROR_MS;
+
+    if (!this.index) {
+      return retryDue || this.harvestPromise
+        ? this.runHarvest()
+        : Promise.reject(this.lastError!.error);
+    }
+
+    if (retryDue && Date.now() - this.builtAt > this.maxAgeMs) {
+      this.runHarvest().catch(() => {
+        // Logged by runHarvest; the stale index keeps being served
+      });
+    }
+    return Promise.resolve(this.index);
+  }
+
+  getStatus(): ItemIndexStatus {
+    return this.status;
+  }
+
+  private runHarvest(): Promise<CatalogIndex> {
+    if (this.harvestPromise) {
+      return this.harvestPromise;
+    }
+
+    const startedAt = Date.now();
+    this.status = { ...this.status, state: this.index ? "refreshing" : "building", error: null };
+
+    this.harvestPromise = this.harvest()
+      .then(
+        (index) => {
+          this.index = index;
+          this.builtAt = Date.now();
+          this.lastError = null;
+          const builtAt = new Date(this.builtAt).toISOString();
+          this.status = {
+            ...this.status,
+            state: "ready",
+            itemCount: index.size,
+            loadedFrom: "network",
+            builtAt,
+            syncedAt: builtAt,
+            lastRefresh: { mode: "full", changed: index.size, durationMs: this.builtAt - startedAt },
+          };
+          return index;
+        },
+        (error) => {
+          console.error(`Error harvesting ${this.status.adapter} index:`, error);
+          this.lastError = { error, at: Date.now() };
+          this.status = {
+            ...this.status,
+            state: "error",
+            error: error instanceof Error ? error.message : String(error),
+          };
+          throw error;
+        }
+      )
+      .finally(() => {
+        this.harvestPromise = null;
+      });
+
+    return this.harvestPromise;
+  }
+}
+
+/**
+ * The harvested index for an endpoint, created on first use
+ */
+export function getHarvestedIndex(key: string, adapter: string, harvest: Harvest): HarvestedIndex {
+  let harvested = harvestedIndexes.get(key);
+  if (!harvested) {
+    harvested = new HarvestedIndex(adapter, harvest);
+    harvestedIndexes.set(key, harvested);
+  }
+  return harvested;
+}
@@ -0,0 +1,181 @@
+/**
+ * IIIF Presentation API helpers (v2 and v3) shared by adapters
+ */
+
+/**
+ * Loosely typed IIIF resource - v2 uses "@id"/"@type", v3 uses "id"/"type"
+ */
+export type IIIFResource = {
+  "@id"?: string;
+  "@type"?: string;
+  id?: string;
+  type?: string;
+  label?: unknown;
+  [key: string]: unknown;
+};
+
+/**
+ * Get a resource's URI in either version
+ */
+export function getResourceId(resource: IIIFResource | string | null | undefined): string | null {
+  if (!resource) return null;
+  if (typeof resource === "string") return resource;
+  const id = resource.id ?? resource["@id"];
+  return typeof id === "string" ? id : null;
+}
+
+/**
+ * Get a resource's type without the "sc:" prefix used by v2
+ */
+export function getResourceType(resource: IIIFResource): string {
+  const type = resource.type ?? resource["@type"];
+  return typeof type === "string" ? type.replace(/^sc:/, "") : "";
+}
+
+/**
+ * Extract every string from a v2 or v3 language value
+ * v2: "text" | { "@value": "text" } | Array of those
+ * v3: { "en": ["text"], "none": ["text"] }
+ */
+export function getLanguageValues(value: unknown): string[] {
+  if (value == null) return [];
+  if (typeof value === "string") return [value];
+  if (typeof value === "number") return [String(value)];
+
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => getLanguageValues(entry));
+  }
+
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if ("@value" in record) {
+      return getLanguageValues(record["@value"]);
+    }
+
+    // Prefer untagged and English values, then any other language
+    const keys = Object.keys(record).sort((a, b) => {
+      const rank = (key: string) => (key === "none" ? 0 : key === "en" ? 1 : 2);
+      return rank(a) - rank(b);
+    });
+    return keys.flatMap((key) => getLanguageValues(record[key]));
+  }
+
+  return [];
+}
+
+/**
+ * Get the first value of a language value with markup removed
+ */
+export function getLanguageValue(value: unknown): string | null {
+  const first = getLanguageValues(value)
+    .map((entry) => stripMarkup(entry))
+    .find((entry) => entry.length > 0);
+  return first ?? null;
+}
+
+/**
+ * Remove HTML tags that IIIF allows in metadata values
+ */
+export function stripMarkup(value: string): string {
+  return value.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Flatten manifest metadata into lowercase label -> values pairs
+ */
+export function getMetadataEntries(manifest: IIIFResource): Array<{ label: string; values: string[] }> {
+  const metadata = manifest.metadata;
+  if (!Array.isArray(metadata)) {
+    return [];
+  }
+
+  return metadata
+    .map((entry) => {
+      const label = getLanguageValue(entry?.label)?.toLowerCase() ?? "";
+      const values = getLanguageValues(entry?.value)
+        .map((value) => stripMarkup(value))
+        .filter((value) => value.length > 0);
+      return { label, values };
+    })
+    .filter((entry) => entry.label.length > 0 && entry.values.length > 0);
+}
+
+/**
+ * Get the thumbnail URL declared directly on a resource
+ */
+export function getDeclaredThumbnail(resource: IIIFResource): string | null {
+  const thumbnail = resource.thumbnail;
+  if (!thumbnail) return null;
+
+  const first = Array.isArray(thumbnail) ? thumbnail[0] : thumbnail;
+  return getResourceId(first as IIIFResource | string);
+}
+
+/**
+ * Build a thumbnail from the first canvas of a manifest
+ */
+export function getFirstCanvasThumbnail(manifest: IIIFResource): string | null {
+  const items = manifest.items as IIIFResource[] | undefined;
+  const sequences = manifest.sequences as IIIFResource[] | undefined;
+
+  // IIIF Presentation 3.0
+  if (Array.isArray(items) && items[0]) {
+    const canvas = items[0] as {
+      thumbnail?: Array<{ id?: string }>;
+      items?: Array<{ items?: Array<{ body?: { id?: string } }> }>;
+    };
+    if (canvas.thumbnail && canvas.thumbnail[0]?.id) {
+      return canvas.thumbnail[0].id;
+    }
+    // Try to get from annotation
+    if (canvas.items?.[0]?.items?.[0]?.body?.id) {
+      const imageId = canvas.items[0].items[0].body.id;
+      // Convert to thumbnail size
+      return imageId.replace(/\/full\/.*$/, "/full/400,/0/default.jpg");
+    }
+  }
+
+  // IIIF Presentation 2.0
+  if (Array.isArray(sequences) && sequences[0]) {
+    const canvas = (sequences[0] as { canvases?: unknown[] }).canvases?.[0] as {
+      thumbnail?: { "@id"?: string };
+      images?: Array<{ resource?: { "@id"?: string } }>;
+    } | undefined;
+    if (canvas?.thumbnail?.["@id"]) {
+      return canvas.thumbnail["@id"];
+    }
+    if (canvas?.images?.[0]?.resource?.["@id"]) {
+      const imageId = canvas.images[0].resource["@id"];
+      return imageId.replace(/\/full\/.*$/, "/full/400,/0/default.jpg");
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get member references of a collection, split into manifests and sub-collections
+ * v3 lists everything in `items`, v2 uses `manifests`, `collections` and `members`
+ */
+export function getCollectionMembers(collection: IIIFResource): {
+  manifests: IIIFResource[];
+  collections: IIIFResource[];
+} {
+  const members = [
+    ...((collection.items as IIIFResource[] | undefined) ?? []),
+    ...((collection.members as IIIFResource[] | undefined) ?? []),
+    ...((collection.manifests as IIIFResource[] | undefined) ?? []).map((entry) => ({
+      "@type": "sc:Manifest",
+      ...entry,
+    })),
+    ...((collection.collections as IIIFResource[] | undefined) ?? []).map((entry) => ({
+      "@type": "sc:Collection",
+      ...entry,
+    })),
+  ].filter((member) => member && typeof member === "object");
+
+  return {
+    manifests: members.filter((member) => getResourceType(member) === "Manifest"),
+    collections: members.filter((member) => getResourceType(member) === "Collection"),
+  };
+}
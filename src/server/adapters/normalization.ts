@@ -0,0 +1,387 @@
+import type { TypeSource } from "@/lib/types";
+
+/**
+ * Metadata normalisation shared by all adapters
+ * Maps free-text language and type values onto the canonical codes used in facets
+ * (dates are parsed in dates.ts)
+ */
+
+/**
+ * Language code mappings for archive metadata values
+ */
+export const LANGUAGE_MAP: Record<string, string> = {
+  malayalam: "ml",
+  english: "en",
+  tamil: "ta",
+  sanskrit: "sa",
+  hindi: "hi",
+  kannada: "kn",
+  telugu: "te",
+  arabic: "ar",
+  portuguese: "pt",
+  dutch: "nl",
+  german: "de",
+  french: "fr",
+  latin: "la",
+  punjabi: "pa",
+  // ISO codes map to themselves
+  ml: "ml",
+  en: "en",
+  ta: "ta",
+  sa: "sa",
+  hi: "hi",
+  // ISO 639-2 codes, common in Dublin Core feeds
+  mal: "ml",
+  eng: "en",
+  tam: "ta",
+  san: "sa",
+  hin: "hi",
+  kan: "kn",
+  tel: "te",
+  ara: "ar",
+  por: "pt",
+  dut: "nl",
+  nld: "nl",
+  ger: "de",
+  deu: "de",
+  fre: "fr",
+  fra: "fr",
+  lat: "la",
+  pan: "pa",
+};
+
+/**
+ * Type mappings for archive resource types
+ */
+export const TYPE_MAP: Record<string, string> = {
+  book: "book",
+  books: "book",
+  periodical: "periodical",
+  periodicals: "periodical",
+  image: "image",
+  "still image": "image",
+  audio: "audio",
+  sound: "audio",
+  video: "video",
+  "moving image": "video",
+  manuscript: "manuscript",
+  text: "book",
+  map: "map",
+  newspaper: "newspaper",
+};
+
+/**
+ * Normalize language value to ISO code
+ */
+export function normalizeLanguage(lang?: string): string | null {
+  if (!lang) return null;
+  const lower = lang.toLowerCase().trim();
+  return LANGUAGE_MAP[lower] || lower.substring(0, 2);
+}
+
+/**
+ * Scripts recognised in titles and descriptions, with the language each usually carries
+ * Devanagari and Arabic script also write Sanskrit and Arabi-Malayalam; those need metadata
+ */
+const SCRIPT_LANGUAGES: Array<{ pattern: RegExp; language: string }> = [
+  { pattern: /\p{Script=Malayalam}/gu, language: "ml" },
+  { pattern: /\p{Script=Tamil}/gu, language: "ta" },
+  { pattern: /\p{Script=Kannada}/gu, language: "kn" },
+  { pattern: /\p{Script=Telugu}/gu, language: "te" },
+  { pattern: /\p{Script=Devanagari}/gu, language: "hi" },
+  { pattern: /\p{Script=Arabic}/gu, language: "ar" },
+  { pattern: /\p{Script=Gurmukhi}/gu, language: "pa" },
+];
+
+const LATIN_PATTERN = /\p{Script=Latin}/gu;
+const MIN_SCRIPT_LETTERS = 3;
+const MAX_DETECTION_LENGTH = 500;
+
+function detectTextLanguage(text: string): string | null {
+  const sample = text.slice(0, MAX_DETECTION_LENGTH);
+  let best: { language: string; count: number } | null = null;
+
+  for (const { pattern, language } of SCRIPT_LANGUAGES) {
+    const count = sample.match(pattern)?.length ?? 0;
+    if (count >= MIN_SCRIPT_LETTERS && (!best || count > best.count)) {
+      best = { language, count };
+    }
+  }
+
+  // Latin letters turn up in volume markers and romanised names, so any other script wins
+  if (best) return best.language;
+  return (sample.match(LATIN_PATTERN)?.length ?? 0) >= MIN_SCRIPT_LETTERS ? "en" : null;
+}
+
+/**
+ * Infer a language from the Unicode script of the first text with enough letters
+ */
+export function detectScriptLanguage(texts: Array<string | null | undefined>): string | null {
+  for (const text of texts) {
+    const language = text ? detectTextLanguage(text) : null;
+    if (language) return language;
+  }
+  return null;
+}
+
+/**
+ * Language from metadata, or detected from the title and description script when missing
+ */
+export function resolveLanguage(
+  languageValue: string | null | undefined,
+  texts: Array<string | null | undefined>
+): { language: string | null; languageInferred: boolean } {
+  const language = normalizeLanguage(languageValue ?? undefined);
+  if (language) {
+    return { language, languageInferred: false };
+  }
+
+  const detected = detectScriptLanguage(texts);
+  return { language: detected, languageInferred: detected !== null };
+}
+
+/**
+ * Normalize type value
+ */
+export function normalizeType(type?: string): string | null {
+  if (!type) return null;
+  const lower = type.toLowerCase().trim();
+  return TYPE_MAP[lower] || lower;
+}
+
+/**
+ * Map a free-text type value onto a canonical type
+ */
+export function detectCanonicalType(value?: string): string | null {
+  const normalized = normalizeType(value);
+  if (!normalized) return null;
+
+  if (TYPE_MAP[normalized]) {
+    return TYPE_MAP[normalized];
+  }
+
+  if (/\bnewspapers?\b/.test(normalized)) return "newspaper";
+  if (/\b(periodical|periodicals|journal|journals|magazine|magazines|serial|serials)\b/.test(normalized)) return "periodical";
+  if (/\b(manuscript|manuscripts)\b/.test(normalized)) return "manuscript";
+  if (/\b(image|images|photograph|photographs|photo|photos|poster|posters)\b/.test(normalized)) return "image";
+  if (/\b(audio|sound|recording|recordings|song|songs|music)\b/.test(normalized)) return "audio";
+  if (/\b(video|videos|moving image|film|films)\b/.test(normalized)) return "video";
+  if (/\b(map|maps|atlas|atlases)\b/.test(normalized)) return "map";
+  if (/\b(book|books|text ?book|text ?books|textbook|textbooks|reader|readers|primer|primers)\b/.test(normalized)) return "book";
+
+  return null;
+}
+
+/**
+ * Confidence for types from the resource class, type values and the book fallback;
+ * heuristic types take the confidence of the rule that matched
+ */
+const RESOURCE_CLASS_CONFIDENCE = 0.95;
+const EXACT_TYPE_CONFIDENCE = 0.9; // A type value that is a known type name
+const KEYWORD_TYPE_CONFIDENCE = 0.8; // A keyword inside a longer type value
+const FALLBACK_CONFIDENCE = 0.4;
+
+/**
+ * Canonical type with where it came from
+ */
+export type ResolvedType = {
+  type: string | null;
+  typeSource: TypeSource | null;
+  typeConfidence: number | null;
+};
+
+function resolvedFrom(type: string, typeSource: TypeSource, typeConfidence: number): ResolvedType {
+  return { type, typeSource, typeConfidence };
+}
+
+/**
+ * Pick a canonical type from the resource class, then explicit type values,
+ * then descriptive-metadata heuristics, then generic class names
+ */
+export function resolveCanonicalType(
+  typeValues: string[],
+  metadata: TypeMetadata,
+  resourceClassType: string | null = null
+): ResolvedType {
+  if (resourceClassType) {
+    return resolvedFrom(resourceClassType, "resource-class", RESOURCE_CLASS_CONFIDENCE);
+  }
+
+  for (const value of typeValues) {
+    const canonicalType = detectCanonicalType(value);
+    if (canonicalType) {
+      const exact = Boolean(TYPE_MAP[value.toLowerCase().trim()]);
+      return resolvedFrom(
+        canonicalType,
+        "metadata",
+        exact ? EXACT_TYPE_CONFIDENCE : KEYWORD_TYPE_CONFIDENCE
+      );
+    }
+  }
+
+  const inferred = inferTypeFromMetadata(metadata);
+  if (inferred) {
+    return resolvedFrom(inferred.type, "heuristic", inferred.confidence);
+  }
+
+  const lowerValues = typeValues.map((value) => value.toLowerCase());
+  if (lowerValues.some((value) => value.includes("bibo:book") || value.includes("dctype:text"))) {
+    return resolvedFrom("book", "fallback", FALLBACK_CONFIDENCE);
+  }
+
+  return { type: null, typeSource: null, typeConfidence: null };
+}
+
+type TypeRule = {
+  type: string;
+  confidence: number;
+  // `hasSerialMarker` is true when any field names a volume or issue
+  test: (text: string, hasSerialMarker: boolean) => boolean;
+};
+
+/**
+ * Keyword rules, in precedence order: the first type with a matching rule wins
+ * Specific words ("ദിനപത്രം", "palm leaf") score higher than words that also turn up
+ * in other kinds of titles ("review", "daily")
+ */
+const TYPE_RULES: TypeRule[] = [
+  {
+    type: "manuscript",
+    confidence: 0.8,
+    test: (text) =>
+      text.includes("കൈയെഴുത്ത്") ||
+      text.includes("താളിയോല") ||
+      /\b(manuscript|palm leaves?|palm leaf)\b/.test(text),
+  },
+  {
+    type: "map",
+    confidence: 0.8,
+    test: (text) => /\b(district|survey|route) map\b/.test(text),
+  },
+  { type: "map", confidence: 0.65, test: (text) => /\b(map|atlas)\b/.test(text) },
+  {
+    type: "audio",
+    confidence: 0.75,
+    test: (text) => text.includes("ഓഡിയോ") || /\b(audio file|sound recording)\b/.test(text),
+  },
+  { type: "audio", confidence: 0.6, test: (text) => /\b(audio|sound ?track)\b/.test(text) },
+  {
+    type: "video",
+    confidence: 0.7,
+    test: (text) => /\b(video|motion picture|moving image)\b/.test(text),
+  },
+  { type: "video", confidence: 0.5, test: (text) => /\bfilm\b/.test(text) },
+  {
+    type: "newspaper",
+    confidence: 0.75,
+    test: (text) =>
+      text.includes("പ്രതിപക്ഷപത്രം") || text.includes("ദിനപത്ര") || text.includes("വാർത്താപത്ര"),
+  },
+  { type: "newspaper", confidence: 0.7, test: (text) => /\bgazette\b/.test(text) },
+  {
+    type: "newspaper",
+    confidence: 0.6,
+    test: (text, hasSerialMarker) => hasSerialMarker && /\b(news[- ]?paper|daily)\b/.test(text),
+  },
+  {
+    type: "newspaper",
+    confidence: 0.5,
+    test: (text, hasSerialMarker) =>
+      hasSerialMarker && (text.includes("പത്രം") || /\bpathram\b/.test(text)),
+  },
+  {
+    type: "periodical",
+    confidence: 0.75,
+    test: (text) =>
+      text.includes("ആഴ്ചപ്പതിപ്പ്") ||
+      text.includes("മാസിക") ||
+      text.includes("വാരിക") ||
+      /\b(periodicals?|journal|magazine)\b/.test(text),
+  },
+  {
+    type: "periodical",
+    confidence: 0.6,
+    test: (text) => text.includes("പത്രിക") || /\b(pathrika|monthly|montly|weekly|bulletin)\b/.test(text),
+  },
+  { type: "periodical", confidence: 0.45, test: (text) => /\b(review|annual|souvenir)\b/.test(text) },
+  {
+    type: "image",
+    confidence: 0.6,
+    test: (text) => /\b(photo|photograph|still image)\b/.test(text),
+  },
+  {
+    type: "image",
+    confidence: 0.5,
+    test: (text) => /\b(poster|portrait|drawing|illustration|painting)\b/.test(text),
+  },
+];
+
+// A keyword only in subjects, identifiers or other fields says less than one in the title
+const OTHER_FIELD_PENALTY = 0.1;
+// Supporting volume or issue markers make a serial type more likely
+const SERIAL_MARKER_BONUS = 0.05;
+
+type TypeMetadata = {
+  title?: string;
+  subjects?: string[];
+  identifiers?: string[];
+  alternatives?: string[];
+  producers?: string[];
+  mediums?: string[];
+};
+
+/**
+ * Infer a canonical type from titles, subjects and other descriptive metadata,
+ * with a confidence from the rule that matched and the field it matched in
+ */
+export function inferTypeFromMetadata({
+  title,
+  subjects = [],
+  identifiers = [],
+  alternatives = [],
+  producers = [],
+  mediums = [],
+}: TypeMetadata): { type: string; confidence: number } | null {
+  const signals = [
+    title,
+    ...subjects,
+    ...identifiers,
+    ...alternatives,
+    ...producers,
+    ...mediums,
+  ]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => value.toLowerCase().trim());
+
+  if (signals.length === 0) {
+    return null;
+  }
+
+  const combined = signals.join(" | ");
+  const titleText = title?.toLowerCase().trim() ?? "";
+  const hasSerialMarker =
+    combined.includes("ലക്കം") ||
+    combined.includes("പുസ്തകം") ||
+    combined.includes("വോള്യം") ||
+    combined.includes("വാല്യം") ||
+    /\b(issue|volume|number|no\.?|vol\.?)\b/.test(combined);
+
+  const match = TYPE_RULES.find((rule) => rule.test(combined, hasSerialMarker));
+  if (!match) {
+    return null;
+  }
+
+  // Best rule for the winning type, preferring one that matches in the title
+  let confidence = 0;
+  for (const rule of TYPE_RULES) {
+    if (rule.type !== match.type || !rule.test(combined, hasSerialMarker)) continue;
+    const inTitle = rule.test(titleText, hasSerialMarker);
+    confidence = Math.max(confidence, rule.confidence - (inTitle ? 0 : OTHER_FIELD_PENALTY));
+  }
+
+  if (hasSerialMarker && (match.type === "periodical" || match.type === "newspaper")) {
+    confidence += SERIAL_MARKER_BONUS;
+  }
+
+  return { type: match.type, confidence: Math.round(confidence * 100) / 100 };
+}
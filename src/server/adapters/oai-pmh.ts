@@ -0,0 +1,165 @@
+/**
+ * OAI-PMH response helpers for the oai_dc metadata format
+ * OAI responses follow a fixed schema, so a tolerant tag extractor is enough
+ * and avoids pulling an XML parser into the server bundle
+ */
+
+/**
+ * Dublin Core element values keyed by element name (title, creator, date, ...)
+ */
+export type DublinCoreRecord = Record<string, string[]>;
+
+export type OAIRecord = {
+  identifier: string;
+  datestamp: string | null;
+  setSpecs: string[];
+  deleted: boolean;
+  dc: DublinCoreRecord;
+};
+
+export type OAISet = {
+  setSpec: string;
+  setName: string;
+};
+
+export type OAIPage<T> = {
+  entries: T[];
+  resumptionToken: string | null;
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+};
+
+// One pass, so the text a reference decodes to is never decoded again
+function decodeReferences(text: string): string {
+  return text.replace(
+    /&(?:#x([0-9a-fA-F]+)|#(\d+)|(amp|lt|gt|quot|apos));/g,
+    (_, hex?: string, dec?: string, name?: string) =>
+      hex
+        ? String.fromCodePoint(Number.parseInt(hex, 16))
+        : dec
+          ? String.fromCodePoint(Number.parseInt(dec, 10))
+          : XML_ENTITIES[name!]
+  );
+}
+
+/**
+ * Decode CDATA sections and XML character references
+ * CDATA content is literal, so references are only decoded outside it
+ */
+export function decodeXmlText(value: string): string {
+  return value
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) => (part.startsWith("<![CDATA[") ? part.slice(9, -3) : decodeReferences(part)))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Match every element with the given local name, ignoring namespace prefixes
+ */
+function matchElements(xml: string, localName: string): Array<{ attrs: string; body: string }> {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${localName}(\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>)`,
+    "g"
+  );
+
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attrs: match[1] ?? "",
+    body: match[2] ?? "",
+  }));
+}
+
+function firstText(xml: string, localName: string): string | null {
+  const element = matchElements(xml, localName)[0];
+  if (!element) return null;
+  const text = decodeXmlText(element.body);
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * Throw on OAI-level errors, treating noRecordsMatch as an empty result
+ */
+function assertNoError(xml: string): boolean {
+  const error = matchElements(xml, "error")[0];
+  if (!error) return true;
+
+  const code = error.attrs.match(/code="([^"]*)"/)?.[1] ?? "unknown";
+  if (code === "noRecordsMatch" || code === "noSetHierarchy") {
+    return false;
+  }
+
+  throw new Error(`OAI-PMH error ${code}: ${decodeXmlText(error.body)}`);
+}
+
+/**
+ * Parse the Dublin Core elements of an oai_dc metadata block
+ * Elements may carry any prefix, or none under a default namespace
+ */
+function parseDublinCore(metadata: string): DublinCoreRecord {
+  const dc: DublinCoreRecord = {};
+  const container = matchElements(metadata, "dc")[0]?.body ?? metadata;
+  const elementPattern = /<(?:[\w-]+:)?(\w+)(?:\s[^>]*)?>([\s\S]*?)<\/(?:[\w-]+:)?\1>/g;
+
+  for (const match of container.matchAll(elementPattern)) {
+    const value = decodeXmlText(match[2]);
+    if (!value) continue;
+    (dc[match[1]] ??= []).push(value);
+  }
+
+  return dc;
+}
+
+/**
+ * Parse a ListRecords response page
+ */
+export function parseListRecords(xml: string): OAIPage<OAIRecord> {
+  if (!assertNoError(xml)) {
+    return { entries: [], resumptionToken: null };
+  }
+
+  const entries = matchElements(xml, "record").map(({ body }) => {
+    const header = matchElements(body, "header")[0] ?? { attrs: "", body: "" };
+    const metadata = matchElements(body, "metadata")[0]?.body ?? "";
+
+    return {
+      identifier: firstText(header.body, "identifier") ?? "",
+      datestamp: firstText(header.body, "datestamp"),
+      setSpecs: matchElements(header.body, "setSpec").map((spec) => decodeXmlText(spec.body)),
+      deleted: /status="deleted"/.test(header.attrs),
+      dc: parseDublinCore(metadata),
+    };
+  });
+
+  return {
+    entries: entries.filter((record) => record.identifier.length > 0),
+    resumptionToken: firstText(xml, "resumptionToken"),
+  };
+}
+
+/**
+ * Parse a ListSets response page
+ */
+export function parseListSets(xml: string): OAIPage<OAISet> {
+  if (!assertNoError(xml)) {
+    return { entries: [], resumptionToken: null };
+  }
+
+  const entries = matchElements(xml, "set")
+    .map(({ body }) => ({
+      setSpec: firstText(body, "setSpec") ?? "",
+      setName: firstText(body, "setName") ?? "",
+    }))
+    .filter((set) => set.setSpec.length > 0);
+
+  return {
+    entries,
+    resumptionToken: firstText(xml, "resumptionToken"),
+  };
+}
@@ -0,0 +1,328 @@
+import { toSlug } from "@/lib/slug";
+import type { NameField, SearchFilters } from "@/lib/types";
+import { resolvePeriodRanges } from "./adapter-utils";
+import { ERA_OFFSETS, toMalayalamDigits } from "./dates";
+import { LANGUAGE_MAP } from "./normalization";
+
+/**
+ * Translate SearchFilters into Omeka S item query parameters
+ * Filters that cannot be expressed server-side are left for client-side filtering.
+ * Values the adapter derives rather than reads (a type from the title, a language
+ * from the script) are queried as a superset that the client-side re-check narrows
+ */
+
+// "eq" is an exact value, "sw" a prefix, "in" a substring and "nex" a property with no value at all
+type PropertyClause =
+  | { property: string; type: "eq" | "sw" | "in"; text: string }
+  | { property: string; type: "nex" };
+
+export type OmekaFilterQuery = {
+  params: Array<[string, string]>;
+  /** Every active filter was translated, so Omeka's results hold every match */
+  complete: boolean;
+  /** Omeka matches nothing beyond the filters either, so its total is exact */
+  exact: boolean;
+};
+
+export type OmekaFilterContext = {
+  /** Omeka resource class IDs mapped to canonical types */
+  resourceClassTypes: Record<number, string>;
+  /**
+   * Resource classes of the items that get a type from dcterms:type or heuristics instead
+   * of their class, by type; a type maps to null when some of them have no class.
+   * Null when unknown
+   */
+  classlessTypes: Map<string, number[] | null> | null;
+  /** Languages some items get from their script instead of dcterms:language; null when unknown */
+  inferredLanguages: Set<string> | null;
+  /** Item set IDs keyed by lowercased title */
+  itemSetIds: Map<string, number[]>;
+  languageProperty: string;
+  subjectProperty: string;
+  publisherProperty: string;
+  /** Properties an item's date is read from, the first with a value winning */
+  dateProperties: string[];
+  /**
+   * Distinct multi-year spans of the items' dates (ranges, decades, era years), which
+   * may begin before a selected range; null when unknown
+   */
+  yearSpans: Array<[number, number]> | null;
+  /** Spellings of each subject and publisher by slug; null when unknown */
+  nameSpellings: Record<NameField, Map<string, string[]>> | null;
+};
+
+/**
+ * Each property query row adds a join, so large expansions fall back to the client
+ */
+const MAX_PROPERTY_CLAUSES = 48;
+
+// Gregorian years parseDate reads
+const MIN_YEAR = 1000;
+const MAX_YEAR = 2029;
+
+/**
+ * Raw metadata values that normalise to a language code ("ml" -> malayalam, ml, mal)
+ */
+function getLanguageVariants(code: string): string[] {
+  return Object.entries(LANGUAGE_MAP)
+    .filter(([, mapped]) => mapped === code)
+    .map(([raw]) => raw);
+}
+
+/**
+ * Spellings to query for the selected subjects or publishers
+ * Filters match every spelling sharing a slug, as facet counts do
+ */
+function getNameVariants(
+  names: string[],
+  field: NameField,
+  context: OmekaFilterContext
+): { variants: string[]; complete: boolean } {
+  if (!context.nameSpellings) {
+    return { variants: names, complete: false };
+  }
+
+  const spellings = context.nameSpellings[field];
+  const variants = new Set(names.flatMap((name) => [name, ...(spellings.get(toSlug(name)) ?? [])]));
+  return { variants: Array.from(variants), complete: true };
+}
+
+/**
+ * Cover a range of whole numbers with the fewest digit prefixes, each standing for a
+ * block of at least 10^precision numbers
+ * 1900-1947 -> 190, 191, 192, 193, 1940 ... 1947; at precision 1 -> 190 ... 194
+ */
+export function getNumberPrefixes(min: number, max: number, precision = 0): string[] {
+  const step = 10 ** precision;
+  const prefixes: string[] = [];
+  let value = Math.max(1, Math.floor(min / step) * step);
+  const last = (Math.floor(max / step) + 1) * step - 1;
+
+  while (value <= last) {
+    // Blocks never cross into numbers with more digits
+    const digits = String(value).length;
+    const end = Math.min(last, 10 ** digits - 1);
+
+    while (value <= end) {
+      let exponent = digits - 1;
+      while (exponent > 0 && (value % 10 ** exponent !== 0 || value + 10 ** exponent - 1 > end)) {
+        exponent -= 1;
+      }
+      prefixes.push(String(value).slice(0, digits - exponent));
+      value += 10 ** exponent;
+    }
+  }
+
+  return prefixes;
+}
+
+/**
+ * Year ranges from yearMin/yearMax intersected with the selected periods
+ */
+function getYearRanges(filters: SearchFilters): Array<{ min: number; max: number }> {
+  const lower = Math.max(MIN_YEAR, filters.yearMin ?? MIN_YEAR);
+  const upper = Math.min(MAX_YEAR, filters.yearMax ?? MAX_YEAR);
+
+  const periods = filters.periods?.length ? resolvePeriodRanges(filters.periods) : [{ label: "" }];
+
+  return periods
+    .map((range) => ({
+      min: Math.max(lower, range.min ?? MIN_YEAR),
+      max: Math.min(upper, range.max ?? MAX_YEAR),
+    }))
+    .filter((range) => range.min <= range.max);
+}
+
+/**
+ * Substrings one of which every date placed in the ranges contains
+ * A date overlapping a range either begins in it, written as a CE year in the range or
+ * an era year beginning in or just before it, or is a longer span beginning earlier,
+ * which the item index lists; centuries ("20th century") carry no year digits
+ */
+function getYearTokens(
+  ranges: Array<{ min: number; max: number }>,
+  yearSpans: Array<[number, number]>,
+  precision: number
+): string[] {
+  const numbers: Array<[number, number]> = [];
+  const centuries: string[] = [];
+
+  for (const { min, max } of ranges) {
+    numbers.push([min, max]);
+    for (const offset of ERA_OFFSETS) {
+      numbers.push([min - offset - 1, max - offset]);
+    }
+
+    for (const [start, end] of yearSpans) {
+      if (start >= min || end < min) continue;
+      numbers.push([start, start]);
+      for (const offset of ERA_OFFSETS) {
+        numbers.push([start - offset - 1, start - offset]);
+      }
+      if (start % 100 === 0 && end === start + 99) {
+        centuries.push(String(start / 100 + 1));
+      }
+    }
+  }
+
+  const tokens = [
+    ...numbers.flatMap(([min, max]) => getNumberPrefixes(min, max, precision)),
+    ...centuries,
+  ].flatMap((token) => [token, toMalayalamDigits(token)]);
+
+  // A token containing another adds nothing to a substring match
+  const unique = Array.from(new Set(tokens));
+  return unique.filter((token) => !unique.some((other) => other !== token && token.includes(other)));
+}
+
+/**
+ * Every combination of one clause per group
+ */
+function expandGroups(groups: PropertyClause[][]): PropertyClause[][] {
+  return groups.reduce<PropertyClause[][]>(
+    (terms, group) => terms.flatMap((term) => group.map((clause) => [...term, clause])),
+    [[]]
+  );
+}
+
+/**
+ * Build item_set_id, resource_class_id and property[] parameters for the filters
+ */
+export function buildOmekaFilterQuery(
+  filters: SearchFilters | undefined,
+  context: OmekaFilterContext
+): OmekaFilterQuery {
+  const params: Array<[string, string]> = [];
+  let complete = true;
+  let exact = true;
+
+  if (!filters) {
+    return { params, complete, exact };
+  }
+
+  // item_set_id[] and resource_class_id[] match any listed ID
+  if (filters.collections?.length) {
+    const ids = filters.collections.map((title) => context.itemSetIds.get(title.toLowerCase()));
+    if (ids.every(Boolean)) {
+      for (const id of ids.flat()) {
+        params.push(["item_set_id[]", String(id)]);
+      }
+    } else {
+      complete = false;
+    }
+  }
+
+  // Items typed from dcterms:type or titles are matched through the classes they carry,
+  // which also hold items of other types; items with no class at all cannot be queried
+  if (filters.types?.length) {
+    const classless = context.classlessTypes;
+    const classIdsByType = filters.types.map((type) => {
+      const classIds = Object.entries(context.resourceClassTypes)
+        .filter(([, mapped]) => mapped === type)
+        .map(([id]) => Number(id));
+      const otherClassIds = classless?.get(type);
+      return otherClassIds === null ? null : [...classIds, ...(otherClassIds ?? [])];
+    });
+
+    if (classless !== null && classIdsByType.every((ids) => ids !== null && ids.length > 0)) {
+      for (const id of new Set(classIdsByType.flat())) {
+        params.push(["resource_class_id[]", String(id)]);
+      }
+      if (filters.types.some((type) => classless.has(type))) {
+        exact = false;
+      }
+    } else {
+      complete = false;
+    }
+  }
+
+  // Property rows are OR-ed groups of alternatives that must all hold
+  const groups: PropertyClause[][] = [];
+
+  // Languages are read from the first value, by name or by its first two letters ("ml-IN"),
+  // and detected from the script only when there is no value, which "nex" matches
+  if (filters.languages?.length) {
+    const property = context.languageProperty;
+    const group: PropertyClause[] = filters.languages.flatMap((code) => [
+      ...getLanguageVariants(code).map((text) => ({ property, type: "eq" as const, text })),
+      { property, type: "sw" as const, text: code },
+    ]);
+
+    const detected =
+      context.inferredLanguages === null ||
+      filters.languages.some((code) => context.inferredLanguages!.has(code));
+    if (detected) {
+      group.push({ property, type: "nex" });
+      exact = false;
+    }
+    groups.push(group);
+  }
+
+  // Omeka's "eq" compares with the database collation, which ignores case; other
+  // variants (spacing, punctuation, encodings) are sent as alternatives
+  for (const [field, names, property] of [
+    ["subjects", filters.subjects, context.subjectProperty],
+    ["publishers", filters.publishers, context.publisherProperty],
+  ] as const) {
+    if (!names?.length) continue;
+    const { variants, complete: knownVariants } = getNameVariants(names, field, context);
+    if (!knownVariants) complete = false;
+    groups.push(variants.map((text) => ({ property, type: "eq" as const, text })));
+  }
+
+  const countClauses = (candidate: PropertyClause[][]) =>
+    expandGroups(candidate).reduce((count, term) => count + term.length, 0);
+
+  // Keep the smallest groups that fit; anything dropped is filtered client-side
+  const pushedGroups: PropertyClause[][] = [];
+  for (const group of [...groups].sort((a, b) => a.length - b.length)) {
+    // An empty group means nothing can match (e.g. an unknown language)
+    if (group.length === 0 || countClauses([...pushedGroups, group]) > MAX_PROPERTY_CLAUSES) {
+      complete = false;
+      continue;
+    }
+
+    pushedGroups.push(group);
+  }
+
+  // Dates are catalogued as free text ("കൊല്ലവർഷം 1100", "c. 1920", "1918-25"), so years
+  // are sent as substrings of any date parseDate could place in range, coarsened by decade
+  // and then century until they fit; spans beginning earlier are only known from the index
+  if (filters.yearMin !== undefined || filters.yearMax !== undefined || filters.periods?.length) {
+    const ranges = getYearRanges(filters);
+    const yearGroup = [0, 1, 2]
+      .map((precision) =>
+        getYearTokens(ranges, context.yearSpans ?? [], precision).flatMap((text) =>
+          context.dateProperties.map((property) => ({ property, type: "in" as const, text }))
+        )
+      )
+      .find((group) => countClauses([...pushedGroups, group]) <= MAX_PROPERTY_CLAUSES);
+
+    if (ranges.length > 0 && yearGroup) {
+      pushedGroups.push(yearGroup);
+      exact = false;
+    }
+    if (ranges.length === 0 || !yearGroup || context.yearSpans === null) {
+      complete = false;
+    }
+  }
+
+  // Omeka joins rows into one SQL condition where AND binds tighter than OR,
+  // so the groups are written out as OR-ed conjunctions
+  let row = 0;
+  const terms = pushedGroups.length > 0 ? expandGroups(pushedGroups) : [];
+  terms.forEach((term, termIndex) => {
+    term.forEach((clause, clauseIndex) => {
+      const joiner = termIndex > 0 && clauseIndex === 0 ? "or" : "and";
+      params.push([`property[${row}][joiner]`, joiner]);
+      params.push([`property[${row}][property]`, clause.property]);
+      params.push([`property[${row}][type]`, clause.type]);
+      if (clause.type !== "nex") {
+        params.push([`property[${row}][text]`, clause.text]);
+      }
+      row += 1;
+    });
+  });
+
+  return { params, complete, exact: complete && exact };
+}
@@ -1,6 +1,18 @@
 import { cache } from "react";
-import { getDataAdapter } from "@/server/adapters/DataAdapter";
-import { LANGUAGE_LABELS, TYPE_LABELS, type ArchiveItem } from "@/lib/types";
+import { getDataAdapter, type DataAdapter } from "@/server/adapters/DataAdapter";
+import { buildNameIndex, getAuthorIndex, type NameIndexEntry } from "@/server/name-index";
+import { RELATED_ITEMS_LIMIT } from "@/server/related-items";
+import { buildSeriesIndex, getSeriesIndex } from "@/server/series-index";
+import { SERIES_TYPES } from "@/lib/series";
+import {
+  LANGUAGE_LABELS,
+  TYPE_LABELS,
+  type ArchiveCollection,
+  type ArchiveItem,
+  type NameCount,
+  type NameField,
+  type PeriodicalSeries,
+} from "@/lib/types";
 
 const DEFAULT_LIST_LIMIT = 24;
 const SITEMAP_PAGE_SIZE = 50;
@@ -43,6 +55,208 @@ export const getItemsByType = cache(async (
   return response.items;
 });
 
+export const getCollections = cache(async (): Promise<ArchiveCollection[]> => {
+  const adapter = await getAdapter();
+
+  try {
+    return await adapter.listCollections();
+  } catch (error) {
+    console.error("Error listing collections:", error);
+    return [];
+  }
+});
+
+export const getCollection = cache(async (id: string): Promise<ArchiveCollection | null> => {
+  const collections = await getCollections();
+  return collections.find((collection) => collection.id === id) ?? null;
+});
+
+export const getItemsByCollection = cache(async (
+  title: string,
+  limit = DEFAULT_LIST_LIMIT
+): Promise<ArchiveItem[]> => {
+  const adapter = await getAdapter();
+  const response = await adapter.search({
+    page: 1,
+    pageSize: limit,
+    filters: { collections: [title] },
+  });
+  return response.items;
+});
+
+/**
+ * Whether the adapter's item index, or any of its sources', is still to be crawled;
+ * starts the crawl if so
+ */
+function isItemIndexPending(adapter: DataAdapter): boolean {
+  if (!adapter.getFullItemIndex || !adapter.getIndexStatus) {
+    return false;
+  }
+
+  // A failed first build has nothing to serve either
+  const { state, itemCount } = adapter.getIndexStatus();
+  if (state !== "empty" && state !== "building" && !(state === "error" && itemCount === 0)) {
+    return false;
+  }
+
+  adapter.getFullItemIndex().catch((error) => {
+    console.error("Error building item index:", error);
+  });
+  return true;
+}
+
+/**
+ * Every item, when the adapter can list them without waiting on a crawl
+ * An Omeka index that has never been built is started for later requests
+ */
+async function getReadyItemIndex(): Promise<ArchiveItem[] | null> {
+  const adapter = await getAdapter();
+  if (!adapter.getFullItemIndex || isItemIndexPending(adapter)) {
+    return null;
+  }
+
+  try {
+    return await adapter.getFullItemIndex();
+  } catch (error) {
+    console.error("Error loading item index:", error);
+    return null;
+  }
+}
+
+export const getAuthor = cache(async (slug: string): Promise<NameIndexEntry | null> => {
+  const items = await getReadyItemIndex();
+  if (items) {
+    return getAuthorIndex(items).get(slug) ?? null;
+  }
+
+  // Without an index, search for the name and keep the exact author matches
+  const adapter = await getAdapter();
+  const response = await adapter.search({ q: slug.replace(/-/g, " "), page: 1, pageSize: 100 });
+  return buildNameIndex(response.items, (item) => item.authors).get(slug) ?? null;
+});
+
+/**
+ * Authors with their works, most prolific first; empty until the item index is ready
+ */
+export const getAuthors = cache(async (): Promise<NameIndexEntry[]> => {
+  const items = await getReadyItemIndex();
+  if (!items) {
+    return [];
+  }
+
+  return Array.from(getAuthorIndex(items).values()).sort(
+    (a, b) => b.itemCount - a.itemCount || a.name.localeCompare(b.name)
+  );
+});
+
+/**
+ * A periodical series with every issue in publication order
+ */
+export const getSeries = cache(async (id: string): Promise<PeriodicalSeries | null> => {
+  const items = await getReadyItemIndex();
+  if (items) {
+    return getSeriesIndex(items).get(id) ?? null;
+  }
+
+  // Without an index, search for the series title and group what comes back
+  const adapter = await getAdapter();
+  try {
+    const response = await adapter.search({
+      q: id.replace(/-/g, " "),
+      filters: { types: SERIES_TYPES },
+      page: 1,
+      pageSize: 100,
+    });
+    return buildSeriesIndex(response.items, false).get(id) ?? null;
+  } catch (error) {
+    console.error(`Error finding series ${id}:`, error);
+    return null;
+  }
+});
+
+/**
+ * Series with more than one issue, largest first; empty until the item index is ready
+ */
+export const getSeriesList = cache(async (): Promise<PeriodicalSeries[]> => {
+  const items = await getReadyItemIndex();
+  if (!items) {
+    return [];
+  }
+
+  return Array.from(getSeriesIndex(items).values())
+    .filter((series) => series.issueCount > 1)
+    .sort((a, b) => b.issueCount - a.issueCount || a.title.localeCompare(b.title));
+});
+
+/**
+ * Subjects or publishers with item counts, empty until the item index is ready
+ */
+export const getNames = cache(async (field: NameField): Promise<NameCount[]> => {
+  const adapter = await getAdapter();
+  if (!adapter.listNames || isItemIndexPending(adapter)) {
+    return [];
+  }
+
+  try {
+    return await adapter.listNames(field);
+  } catch (error) {
+    console.error(`Error listing ${field}:`, error);
+    return [];
+  }
+});
+
+/**
+ * A subject or publisher and its records
+ * Without counts, the slug is searched as the name itself
+ */
+export const getNamedItems = cache(async (
+  field: NameField,
+  slug: string,
+  limit = DEFAULT_LIST_LIMIT
+): Promise<NameIndexEntry | null> => {
+  const names = await getNames(field);
+  const entry = names.find((name) => name.slug === slug);
+  const name = entry?.name ?? slug.replace(/-/g, " ");
+
+  const adapter = await getAdapter();
+  const response = await adapter.search({
+    page: 1,
+    pageSize: limit,
+    filters: { [field]: [name] },
+  });
+
+  if (response.items.length === 0) {
+    return null;
+  }
+
+  return {
+    slug,
+    name,
+    itemCount: entry?.count ?? (response.total >= 0 ? response.total : response.items.length),
+    items: response.items,
+  };
+});
+
+/**
+ * "More like this" items for an item page
+ */
+export const getRelatedItems = cache(async (
+  id: string,
+  limit = RELATED_ITEMS_LIMIT
+): Promise<ArchiveItem[]> => {
+  const adapter = await getAdapter();
+  if (!adapter.getRelatedItems) {
+    return [];
+  }
+
+  try {
+    return await adapter.getRelatedItems(id, limit);
+  } catch (error) {
+    console.error(`Error finding items related to ${id}:`, error);
+    return [];
+  }
+});
+
 export async function getSitemapItemIds(): Promise<string[]> {
   const adapter = await getAdapter();
   const ids = new Set<string>();
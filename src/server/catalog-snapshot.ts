@@ -0,0 +1,304 @@
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ArchiveItem, ItemDetail } from "@/lib/types";
+import type { DataAdapter } from "@/server/adapters/DataAdapter";
+
+/**
+ * Catalog snapshots: a versioned dump of ItemDetail records served by StaticAdapter
+ *
+ * Layout of a snapshot directory:
+ * - items.ndjson          one ItemDetail per line, sorted by ID
+ * - manifest.json         counts, checksums and per-item hashes
+ * - items.partial.ndjson  details fetched so far by an interrupted export
+ */
+
+export const CATALOG_FORMAT_VERSION = 1;
+
+export const CATALOG_FILES = {
+  items: "items.ndjson",
+  manifest: "manifest.json",
+  partial: "items.partial.ndjson",
+} as const;
+
+/**
+ * Per-item hashes used to diff snapshots
+ * `summary` hashes the index record, `detail` hashes the exported line
+ */
+export type CatalogEntry = {
+  summary: string;
+  detail: string;
+};
+
+export type CatalogManifest = {
+  formatVersion: number;
+  snapshotId: string;
+  createdAt: string;
+  adapter: string;
+  checksum: string; // sha256 of items.ndjson
+  counts: {
+    items: number;
+    withThumbnail: number;
+    withDocumentSource: number;
+    failed: number;
+    byType: Record<string, number>;
+    byLanguage: Record<string, number>;
+  };
+  failedIds: string[]; // Exported from the index only, retried on the next run
+  changes: {
+    previousSnapshotId: string | null;
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+  };
+  entries: Record<string, CatalogEntry>;
+};
+
+export type ExportCatalogOptions = {
+  adapterName: string;
+  outDir: string;
+  concurrency?: number;
+  full?: boolean; // Ignore the previous snapshot and refetch every item
+  limit?: number;
+  onProgress?: (done: number, total: number) => void;
+};
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function compareIds(a: string, b: string): number {
+  const idA = Number.parseInt(a, 10);
+  const idB = Number.parseInt(b, 10);
+
+  if (Number.isFinite(idA) && Number.isFinite(idB) && idA !== idB) {
+    return idA - idB;
+  }
+
+  return a.localeCompare(b);
+}
+
+async function readNdjson(filePath: string): Promise<ItemDetail[]> {
+  let contents: string;
+  try {
+    contents = await readFile(filePath, "utf8");
+  } catch {
+    return [];
+  }
+
+  const records: ItemDetail[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as ItemDetail);
+    } catch {
+      // A truncated trailing line from an interrupted write - refetch that item
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Read a snapshot manifest, or null when the directory holds no snapshot
+ */
+export async function readCatalogManifest(outDir: string): Promise<CatalogManifest | null> {
+  try {
+    const contents = await readFile(path.join(outDir, CATALOG_FILES.manifest), "utf8");
+    const manifest = JSON.parse(contents) as CatalogManifest;
+    return manifest.formatVersion === CATALOG_FORMAT_VERSION ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strip debugging payloads that should not ship in a snapshot
+ */
+function toSnapshotRecord(item: ItemDetail): ItemDetail {
+  const record = { ...item };
+  delete record.raw;
+  return record;
+}
+
+function increment(counts: Record<string, number>, key?: string | null) {
+  if (!key) return;
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Crawl an adapter and write a catalog snapshot
+ * Unchanged items are copied from the previous snapshot and fetched details are
+ * appended to a partial file, so an interrupted export resumes where it stopped
+ */
+export async function exportCatalogSnapshot(
+  adapter: DataAdapter,
+  options: ExportCatalogOptions
+): Promise<CatalogManifest> {
+  if (!adapter.getFullItemIndex) {
+    throw new Error(`Adapter "${options.adapterName}" cannot enumerate its items`);
+  }
+
+  const { outDir, concurrency = 4, full = false, limit } = options;
+  const itemsPath = path.join(outDir, CATALOG_FILES.items);
+  const partialPath = path.join(outDir, CATALOG_FILES.partial);
+
+  await mkdir(outDir, { recursive: true });
+
+  let index: ArchiveItem[] = await adapter.getFullItemIndex();
+  index = [...index].sort((a, b) => compareIds(a.id, b.id));
+  if (limit !== undefined) {
+    index = index.slice(0, limit);
+  }
+
+  const summaryHashes = new Map(index.map((item) => [item.id, sha256(JSON.stringify(item))]));
+
+  // Reuse unchanged records from the previous snapshot
+  const previous = full ? null : await readCatalogManifest(outDir);
+  const previousRecords = new Map<string, ItemDetail>();
+  if (previous) {
+    const previousFailures = new Set(previous.failedIds);
+    for (const record of await readNdjson(itemsPath)) {
+      const entry = previous.entries[record.id];
+      if (
+        entry &&
+        entry.summary === summaryHashes.get(record.id) &&
+        !previousFailures.has(record.id)
+      ) {
+        previousRecords.set(record.id, record);
+      }
+    }
+  }
+
+  // Resume details fetched by an interrupted run
+  const resumedRecords = new Map<string, ItemDetail>();
+  if (full) {
+    await rm(partialPath, { force: true });
+  } else {
+    for (const record of await readNdjson(partialPath)) {
+      if (summaryHashes.has(record.id)) {
+        resumedRecords.set(record.id, record);
+      }
+    }
+  }
+
+  const pending = index.filter(
+    (item) => !previousRecords.has(item.id) && !resumedRecords.has(item.id)
+  );
+  const fetchedRecords = new Map<string, ItemDetail>();
+  const failedIds: string[] = [];
+  let done = index.length - pending.length;
+  let cursor = 0;
+
+  options.onProgress?.(done, index.length);
+
+  const worker = async () => {
+    while (cursor < pending.length) {
+      const summary = pending[cursor];
+      cursor += 1;
+
+      try {
+        const detail = await adapter.getItem(summary.id);
+        if (detail) {
+          const record = toSnapshotRecord(detail);
+          fetchedRecords.set(record.id, record);
+          await appendFile(partialPath, `${JSON.stringify(record)}\n`, "utf8");
+        } else {
+          failedIds.push(summary.id);
+        }
+      } catch (error) {
+        console.error(`Error exporting item ${summary.id}:`, error);
+        failedIds.push(summary.id);
+      }
+
+      done += 1;
+      options.onProgress?.(done, index.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker())
+  );
+
+  // Items whose detail could not be fetched fall back to their index record
+  const records: ItemDetail[] = index.map((item) => (
+    fetchedRecords.get(item.id) ??
+    resumedRecords.get(item.id) ??
+    previousRecords.get(item.id) ??
+    item
+  ));
+
+  const lines = records.map((record) => JSON.stringify(record));
+  const contents = lines.length > 0 ? `${lines.join("\n")}\n` : "";
+
+  const entries: Record<string, CatalogEntry> = {};
+  const byType: Record<string, number> = {};
+  const byLanguage: Record<string, number> = {};
+  let withThumbnail = 0;
+  let withDocumentSource = 0;
+
+  records.forEach((record, position) => {
+    entries[record.id] = {
+      summary: summaryHashes.get(record.id)!,
+      detail: sha256(lines[position]),
+    };
+    increment(byType, record.type);
+    increment(byLanguage, record.language);
+    if (record.thumbnailUrl) withThumbnail += 1;
+    if (record.documentSource) withDocumentSource += 1;
+  });
+
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+  for (const [id, entry] of Object.entries(entries)) {
+    const previousEntry = previous?.entries[id];
+    if (!previousEntry) {
+      added += 1;
+    } else if (previousEntry.detail !== entry.detail) {
+      updated += 1;
+    } else {
+      unchanged += 1;
+    }
+  }
+  const removed = previous
+    ? Object.keys(previous.entries).filter((id) => !entries[id]).length
+    : 0;
+
+  const createdAt = new Date().toISOString();
+  const manifest: CatalogManifest = {
+    formatVersion: CATALOG_FORMAT_VERSION,
+    snapshotId: createdAt.replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z"),
+    createdAt,
+    adapter: options.adapterName,
+    checksum: sha256(contents),
+    counts: {
+      items: records.length,
+      withThumbnail,
+      withDocumentSource,
+      failed: failedIds.length,
+      byType,
+      byLanguage,
+    },
+    changes: {
+      previousSnapshotId: previous?.snapshotId ?? null,
+      added,
+      updated,
+      removed,
+      unchanged,
+    },
+    failedIds,
+    entries,
+  };
+
+  // Write to temp files and rename so readers never see a half-written snapshot
+  await writeFile(`${itemsPath}.tmp`, contents, "utf8");
+  await rename(`${itemsPath}.tmp`, itemsPath);
+  const manifestPath = path.join(outDir, CATALOG_FILES.manifest);
+  await writeFile(`${manifestPath}.tmp`, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+  await rename(`${manifestPath}.tmp`, manifestPath);
+  await rm(partialPath, { force: true });
+
+  return manifest;
+}
@@ -0,0 +1,374 @@
+import { normalizeMalayalam } from "@/lib/malayalam";
+import type { ItemDetail } from "@/lib/types";
+import {
+  hasMalayalam,
+  isLatinWord,
+  romanizeMalayalam,
+  toPhoneticKey,
+  transliterateToMalayalam,
+} from "./transliteration";
+
+/**
+ * In-process full-text search over catalogue records
+ * An inverted index per field, ranked with BM25F so a title match outweighs
+ * the same word buried in a description. Malayalam titles are also indexed by
+ * phonetic key so Manglish queries ("chemmeen") find them
+ */
+
+export type SearchField =
+  | "title"
+  | "alternativeTitles"
+  | "authors"
+  | "subjects"
+  | "publisher"
+  | "description";
+
+// Derived at index time from Malayalam title words
+type IndexField = SearchField | "transliteration";
+
+export type FullTextDocument = {
+  id: string;
+  fields: Partial<Record<SearchField, string | string[] | null>>;
+};
+
+export type FullTextMatch = {
+  id: string;
+  score: number;
+};
+
+export type FullTextResult = {
+  matches: FullTextMatch[];
+  // The query with Manglish words replaced by the Malayalam words they matched
+  transliteratedQuery: string | null;
+};
+
+/**
+ * Relative weight of a term occurrence in each field
+ */
+export const FIELD_BOOSTS: Record<IndexField, number> = {
+  title: 3,
+  alternativeTitles: 2,
+  authors: 2,
+  subjects: 1.5,
+  publisher: 1,
+  description: 0.5,
+  transliteration: 2.5,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_BOOSTS) as IndexField[];
+const TRANSLITERATED_FIELDS: SearchField[] = ["title", "alternativeTitles"];
+
+// Phonetic keys share the postings map; the marker keeps them apart from real words
+const PHONETIC_KEY_MARKER = "~";
+
+// BM25 saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Prefix matches ("mathru" -> "mathrubhumi") count for less than whole words
+ */
+const PREFIX_MATCH_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_EXPANSIONS = 50;
+
+/**
+ * Matches through transliteration rank just below typing the word in its own script
+ */
+const TRANSLITERATION_WEIGHT = 0.9;
+
+type TermScore = {
+  score: number;
+  // Malayalam word matched through transliteration, null for a direct match
+  form: string | null;
+};
+
+type Posting = {
+  doc: number;
+  // Term frequency per field, indexed like SEARCH_FIELDS
+  tf: number[];
+};
+
+/**
+ * Normalise, lowercase and split text into words
+ * Combining marks stay attached so Indic syllables are not broken apart
+ */
+export function tokenize(text: string): string[] {
+  return normalizeMalayalam(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Map a catalogue record onto the searchable fields
+ */
+export function toFullTextDocument(item: ItemDetail): FullTextDocument {
+  return {
+    id: item.id,
+    fields: {
+      title: item.title,
+      alternativeTitles: item.alternativeTitles,
+      authors: item.authors,
+      subjects: item.subjects,
+      publisher: item.publisher,
+      description: item.description,
+    },
+  };
+}
+
+/**
+ * FullTextIndex: Inverted index with field boosts, BM25F ranking and prefix matching
+ */
+export class FullTextIndex {
+  private ids: string[] = [];
+  private postings = new Map<string, Posting[]>();
+  private fieldLengths: number[][] = [];
+  private averageFieldLengths: number[];
+  // Sorted vocabulary for prefix lookups
+  private vocabulary: string[];
+  // Malayalam spellings seen for each phonetic key, with counts
+  private phoneticForms = new Map<string, Map<string, number>>();
+
+  constructor(documents: FullTextDocument[]) {
+    const totals = SEARCH_FIELDS.map(() => 0);
+
+    for (const document of documents) {
+      const doc = this.ids.length;
+      this.ids.push(document.id);
+
+      const termFrequencies = new Map<string, number[]>();
+      const lengths = SEARCH_FIELDS.map((field, fieldIndex) => {
+        const tokens = this.getFieldTokens(document, field);
+
+        for (const token of tokens) {
+          const tf = termFrequencies.get(token) ?? SEARCH_FIELDS.map(() => 0);
+          tf[fieldIndex] += 1;
+          termFrequencies.set(token, tf);
+        }
+
+        totals[fieldIndex] += tokens.length;
+        return tokens.length;
+      });
+
+      this.fieldLengths.push(lengths);
+      for (const [term, tf] of termFrequencies) {
+        const postings = this.postings.get(term);
+        if (postings) {
+          postings.push({ doc, tf });
+        } else {
+          this.postings.set(term, [{ doc, tf }]);
+        }
+      }
+    }
+
+    this.averageFieldLengths = totals.map((total) => total / Math.max(1, this.ids.length));
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+  }
+
+  private getFieldText(document: FullTextDocument, field: SearchField): string {
+    const value = document.fields[field];
+    return Array.isArray(value) ? value.join(" ") : value ?? "";
+  }
+
+  /**
+   * Tokens for a field; the transliteration field holds phonetic keys of Malayalam title words
+   */
+  private getFieldTokens(document: FullTextDocument, field: IndexField): string[] {
+    if (field !== "transliteration") {
+      return tokenize(this.getFieldText(document, field));
+    }
+
+    return TRANSLITERATED_FIELDS.flatMap((sourceField) =>
+      tokenize(this.getFieldText(document, sourceField))
+        .filter((token) => hasMalayalam(token))
+        .map((token) => {
+          const key = PHONETIC_KEY_MARKER + toPhoneticKey(romanizeMalayalam(token));
+          const forms = this.phoneticForms.get(key) ?? new Map<string, number>();
+          forms.set(token, (forms.get(token) ?? 0) + 1);
+          this.phoneticForms.set(key, forms);
+          return key;
+        })
+    );
+  }
+
+  /**
+   * Most common Malayalam spelling indexed under a phonetic key
+   */
+  private getPhoneticForm(key: string): string | null {
+    const forms = this.phoneticForms.get(key);
+    if (!forms) return null;
+
+    let best: string | null = null;
+    let bestCount = 0;
+    for (const [form, count] of forms) {
+      if (count > bestCount) {
+        best = form;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  /**
+   * Vocabulary terms starting with the given prefix
+   */
+  private expandPrefix(prefix: string): string[] {
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const terms: string[] = [];
+    for (let index = low; index < this.vocabulary.length; index += 1) {
+      const term = this.vocabulary[index];
+      if (!term.startsWith(prefix) || terms.length >= MAX_PREFIX_EXPANSIONS) break;
+      terms.push(term);
+    }
+
+    return terms;
+  }
+
+  /**
+   * BM25F score of one term for every document containing it
+   */
+  private scoreTerm(
+    term: string,
+    weight: number,
+    form: string | null,
+    scores: Map<number, TermScore>
+  ): void {
+    const postings = this.postings.get(term);
+    if (!postings) return;
+
+    const idf = Math.log(1 + (this.ids.length - postings.length + 0.5) / (postings.length + 0.5));
+
+    for (const { doc, tf } of postings) {
+      let weightedTf = 0;
+      for (let fieldIndex = 0; fieldIndex < SEARCH_FIELDS.length; fieldIndex += 1) {
+        if (tf[fieldIndex] === 0) continue;
+        const average = this.averageFieldLengths[fieldIndex] || 1;
+        const norm = 1 - BM25_B + (BM25_B * this.fieldLengths[doc][fieldIndex]) / average;
+        weightedTf += (FIELD_BOOSTS[SEARCH_FIELDS[fieldIndex]] * tf[fieldIndex]) / norm;
+      }
+
+      const score = (idf * weightedTf * (BM25_K1 + 1)) / (weightedTf + BM25_K1) * weight;
+      // A document keeps the best way it matched this query word
+      if (score > (scores.get(doc)?.score ?? 0)) {
+        scores.set(doc, { score, form });
+      }
+    }
+  }
+
+  /**
+   * Score one query word: exactly, by prefix, and for Latin words through
+   * phonetic keys and candidate Malayalam spellings
+   */
+  private scoreQueryTerm(queryTerm: string): Map<number, TermScore> {
+    const scores = new Map<number, TermScore>();
+    const allowPrefix = queryTerm.length >= MIN_PREFIX_LENGTH;
+
+    this.scoreTerm(queryTerm, 1, null, scores);
+    if (allowPrefix) {
+      for (const term of this.expandPrefix(queryTerm)) {
+        if (term !== queryTerm) {
+          this.scoreTerm(term, PREFIX_MATCH_WEIGHT, null, scores);
+        }
+      }
+    }
+
+    if (!isLatinWord(queryTerm)) {
+      return scores;
+    }
+
+    const key = PHONETIC_KEY_MARKER + toPhoneticKey(queryTerm);
+    this.scoreTerm(key, TRANSLITERATION_WEIGHT, this.getPhoneticForm(key), scores);
+    if (allowPrefix) {
+      for (const term of this.expandPrefix(key)) {
+        if (term !== key) {
+          this.scoreTerm(
+            term,
+            TRANSLITERATION_WEIGHT * PREFIX_MATCH_WEIGHT,
+            this.getPhoneticForm(term),
+            scores
+          );
+        }
+      }
+    }
+
+    for (const candidate of transliterateToMalayalam(queryTerm)) {
+      this.scoreTerm(candidate, TRANSLITERATION_WEIGHT, candidate, scores);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Rank documents matching every query word, exactly, by prefix or across scripts
+   */
+  search(query: string): FullTextResult {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) {
+      return { matches: [], transliteratedQuery: null };
+    }
+
+    const termScores: Array<Map<number, TermScore>> = [];
+    let totals: Map<number, number> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const scores = this.scoreQueryTerm(queryTerm);
+      termScores.push(scores);
+
+      const previous: Map<number, number> | null = totals;
+      const combined = new Map<number, number>();
+      for (const [doc, { score }] of scores) {
+        if (previous === null) {
+          combined.set(doc, score);
+        } else if (previous.has(doc)) {
+          combined.set(doc, previous.get(doc)! + score);
+        }
+      }
+
+      totals = combined;
+      if (totals.size === 0) break;
+    }
+
+    const matchedDocs = totals ?? new Map<number, number>();
+
+    // Report the Malayalam word that carried the most weight for each query word
+    let transliterated = false;
+    const displayTerms = queryTerms.map((queryTerm, index) => {
+      const formScores = new Map<string | null, number>();
+      for (const [doc, { score, form }] of termScores[index] ?? []) {
+        if (!matchedDocs.has(doc)) continue;
+        formScores.set(form, (formScores.get(form) ?? 0) + score);
+      }
+
+      let bestForm: string | null = null;
+      let bestScore = 0;
+      for (const [form, score] of formScores) {
+        if (score > bestScore) {
+          bestForm = form;
+          bestScore = score;
+        }
+      }
+
+      if (bestForm) transliterated = true;
+      return bestForm ?? queryTerm;
+    });
+
+    return {
+      matches: Array.from(matchedDocs, ([doc, score]) => ({ id: this.ids[doc], score })).sort(
+        (a, b) => b.score - a.score
+      ),
+      transliteratedQuery: transliterated && matchedDocs.size > 0 ? displayTerms.join(" ") : null,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ItemDetail, NameCount, NameField } from "@/lib/types";
+
+/**
+ * On-disk copy of an adapter's full item index
+ * Lets a fresh process serve filter scans immediately and refresh incrementally
+ */
+
+export const ITEM_INDEX_FORMAT_VERSION = 11;
+
+export type PersistedItemIndex = {
+  formatVersion: number;
+  adapter: string;
+  builtAt: string; // Last full rebuild
+  syncedAt: string; // Last full or incremental refresh
+  // Newest upstream timestamps seen; incremental refreshes fetch anything newer
+  watermarks: {
+    created: string | null;
+    modified: string | null;
+  };
+  // List fields plus the descriptive text the full-text index needs
+  items: ItemDetail[];
+  // Subject and publisher counts over `items`, for browse pages
+  names: Record<NameField, NameCount[]>;
+};
+
+/**
+ * Read a persisted index, or null when missing, unreadable or for another adapter
+ */
+export async function readItemIndex(
+  filePath: string,
+  adapter: string
+): Promise<PersistedItemIndex | null> {
+  try {
+    const contents = await readFile(filePath, "utf8");
+    const index = JSON.parse(contents) as PersistedItemIndex;
+
+    if (
+      index.formatVersion !== ITEM_INDEX_FORMAT_VERSION ||
+      index.adapter !== adapter ||
+      !Array.isArray(index.items)
+    ) {
+      return null;
+    }
+
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the index through a temp file so readers never see a partial file
+ */
+export async function writeItemIndex(filePath: string, index: PersistedItemIndex): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(`${filePath}.tmp`, JSON.stringify(index), "utf8");
+  await rename(`${filePath}.tmp`, filePath);
+}
+
+/**
+ * Later of two ISO timestamps, ignoring nulls
+ */
+export function laterTimestamp(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return Date.parse(b) > Date.parse(a) ? b : a;
+}
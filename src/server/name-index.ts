@@ -0,0 +1,134 @@
+import { toSlug } from "@/lib/slug";
+import type { ArchiveItem, ItemDetail, NameCount, NameField } from "@/lib/types";
+import { sortItems } from "@/server/adapters/adapter-utils";
+
+/**
+ * Indexes of the names attached to catalogue records (authors, subjects, publishers)
+ * Each name gets a URL slug; spellings that reduce to the same slug are merged
+ * and shown under their most common form
+ */
+
+export type NameIndexEntry = {
+  slug: string;
+  name: string;
+  itemCount: number;
+  items: ArchiveItem[]; // Oldest publication year first, undated last
+};
+
+export type NameIndex = Map<string, NameIndexEntry>;
+
+type NameGroup<T> = { spellings: Map<string, number>; items: T[] };
+
+/**
+ * Group items by name slug, counting each spelling seen
+ */
+function groupByName<T>(
+  items: T[],
+  getNames: (item: T) => string[] | undefined
+): Map<string, NameGroup<T>> {
+  const groups = new Map<string, NameGroup<T>>();
+
+  for (const item of items) {
+    const seen = new Set<string>();
+    for (const rawName of getNames(item) ?? []) {
+      const name = rawName.trim();
+      const slug = toSlug(name);
+      if (!slug || seen.has(slug)) continue;
+      seen.add(slug);
+
+      const group: NameGroup<T> = groups.get(slug) ?? { spellings: new Map(), items: [] };
+      group.spellings.set(name, (group.spellings.get(name) ?? 0) + 1);
+      group.items.push(item);
+      groups.set(slug, group);
+    }
+  }
+
+  return groups;
+}
+
+function getCommonSpelling(group: NameGroup<unknown>): string {
+  return Array.from(group.spellings).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Group items under every name they carry
+ */
+export function buildNameIndex(
+  items: ArchiveItem[],
+  getNames: (item: ArchiveItem) => string[] | undefined
+): NameIndex {
+  const index: NameIndex = new Map();
+  for (const [slug, group] of groupByName(items, getNames)) {
+    index.set(slug, {
+      slug,
+      name: getCommonSpelling(group),
+      itemCount: group.items.length,
+      items: sortItems(group.items, "year-asc"),
+    });
+  }
+
+  return index;
+}
+
+/**
+ * Values of a browsable name field on a record
+ */
+export function getNameFieldValues(
+  item: Pick<ItemDetail, "subjects" | "publisher">,
+  field: NameField
+): string[] {
+  if (field === "subjects") return item.subjects ?? [];
+  return item.publisher ? [item.publisher] : [];
+}
+
+/**
+ * Item counts for every subject or publisher, most used first
+ */
+export function countNames(items: ItemDetail[], field: NameField): NameCount[] {
+  return Array.from(groupByName(items, (item) => getNameFieldValues(item, field)))
+    .map(([slug, group]) => ({ slug, name: getCommonSpelling(group), count: group.items.length }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Every spelling of each subject or publisher, by slug
+ */
+export function getNameSpellings(items: ItemDetail[], field: NameField): Map<string, string[]> {
+  return new Map(
+    Array.from(groupByName(items, (item) => getNameFieldValues(item, field))).map(([slug, group]) => [
+      slug,
+      Array.from(group.spellings.keys()),
+    ])
+  );
+}
+
+/**
+ * Merge count lists from several sources, adding up counts for shared slugs
+ */
+export function mergeNameCounts(lists: NameCount[][]): NameCount[] {
+  const merged = new Map<string, NameCount>();
+  for (const entry of lists.flat()) {
+    const existing = merged.get(entry.slug);
+    if (existing) {
+      existing.count += entry.count;
+    } else {
+      merged.set(entry.slug, { ...entry });
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Built once per item list; adapters hand out the same list until their index changes
+const authorIndexes = new WeakMap<ArchiveItem[], NameIndex>();
+
+/**
+ * Author index over `authors` (dcterms:creator)
+ */
+export function getAuthorIndex(items: ArchiveItem[]): NameIndex {
+  let index = authorIndexes.get(items);
+  if (!index) {
+    index = buildNameIndex(items, (item) => item.authors);
+    authorIndexes.set(items, index);
+  }
+  return index;
+}
@@ -0,0 +1,113 @@
+import { toSlug } from "@/lib/slug";
+import type { ItemDetail } from "@/lib/types";
+import { getItemCollections } from "@/server/adapters/adapter-utils";
+
+/**
+ * "More like this": rank index records by what they share with an item
+ * Authors and subjects carry most of the weight; language and publication
+ * year only break ties between otherwise related records
+ */
+
+export const RELATED_ITEMS_LIMIT = 12;
+
+const WEIGHTS = {
+  author: 4,
+  subject: 3,
+  collection: 1.5,
+  language: 0.5,
+  year: 1, // Full weight for the same year, fading to nothing over YEAR_WINDOW
+};
+
+const YEAR_WINDOW = 20;
+
+type RelatedFields = Pick<
+  ItemDetail,
+  "id" | "year" | "language" | "authors" | "subjects" | "collection" | "collections"
+>;
+
+type NameSlugs = {
+  authors: Set<string>;
+  subjects: Set<string>;
+  collections: Set<string>;
+};
+
+function toSlugSet(values: string[] | undefined): Set<string> {
+  return new Set((values ?? []).map((value) => toSlug(value)).filter(Boolean));
+}
+
+function getNameSlugs(item: RelatedFields): NameSlugs {
+  return {
+    authors: toSlugSet(item.authors),
+    subjects: toSlugSet(item.subjects),
+    collections: toSlugSet(getItemCollections(item)),
+  };
+}
+
+// Built once per candidate list; adapters hand out the same list until their index changes
+const candidateSlugs = new WeakMap<RelatedFields[], NameSlugs[]>();
+
+function getCandidateSlugs(candidates: RelatedFields[]): NameSlugs[] {
+  let slugs = candidateSlugs.get(candidates);
+  if (!slugs) {
+    slugs = candidates.map((candidate) => getNameSlugs(candidate));
+    candidateSlugs.set(candidates, slugs);
+  }
+  return slugs;
+}
+
+function countShared(values: Set<string>, others: Set<string>): number {
+  let shared = 0;
+  for (const value of values) {
+    if (others.has(value)) shared += 1;
+  }
+  return shared;
+}
+
+/**
+ * Score every candidate against the target and return the best matches
+ * Candidates sharing no author, subject or collection are never returned
+ */
+export function findRelatedItems<T extends RelatedFields>(
+  target: RelatedFields,
+  candidates: T[],
+  limit = RELATED_ITEMS_LIMIT
+): T[] {
+  const { authors, subjects, collections } = getNameSlugs(target);
+
+  if (authors.size === 0 && subjects.size === 0 && collections.size === 0) {
+    return [];
+  }
+
+  const slugs = getCandidateSlugs(candidates);
+  const scored: Array<{ item: T; score: number }> = [];
+
+  candidates.forEach((candidate, index) => {
+    if (candidate.id === target.id) return;
+
+    const sharedAuthors = countShared(authors, slugs[index].authors);
+    const sharedSubjects = countShared(subjects, slugs[index].subjects);
+    const sharedCollections = countShared(collections, slugs[index].collections);
+    if (sharedAuthors === 0 && sharedSubjects === 0 && sharedCollections === 0) return;
+
+    let score =
+      sharedAuthors * WEIGHTS.author +
+      sharedSubjects * WEIGHTS.subject +
+      Math.min(sharedCollections, 1) * WEIGHTS.collection;
+
+    if (target.language && candidate.language === target.language) {
+      score += WEIGHTS.language;
+    }
+
+    if (target.year != null && candidate.year != null) {
+      const distance = Math.abs(target.year - candidate.year);
+      score += Math.max(0, 1 - distance / YEAR_WINDOW) * WEIGHTS.year;
+    }
+
+    scored.push({ item: candidate, score });
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || Number(b.item.id) - Number(a.item.id))
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
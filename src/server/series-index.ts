@@ -0,0 +1,116 @@
+import { formatIssueLabel, getSeriesId, parseIssueTitle } from "@/lib/series";
+import type { ArchiveItem, PeriodicalSeries, SeriesIssue } from "@/lib/types";
+
+/**
+ * Periodical series built from the full item index
+ * Issues sharing a series title are grouped and put in publication order
+ */
+
+type IssueEntry = {
+  issue: SeriesIssue;
+  seriesTitle: string;
+  month: number | null;
+  day: number | null;
+};
+
+function compareNullable(a: number | null, b: number | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+}
+
+/**
+ * Volume and issue numbers order a series when every issue has them;
+ * otherwise the publication date does, with numbers breaking ties
+ */
+function sortIssues(entries: IssueEntry[]): IssueEntry[] {
+  const byNumber = entries.every((entry) => entry.issue.volume !== null || entry.issue.issue !== null);
+
+  return [...entries].sort((a, b) => {
+    const byVolume =
+      compareNullable(a.issue.volume, b.issue.volume) || compareNullable(a.issue.issue, b.issue.issue);
+    const byDate =
+      compareNullable(a.issue.year ?? null, b.issue.year ?? null) ||
+      compareNullable(a.month, b.month) ||
+      compareNullable(a.day, b.day);
+
+    return (
+      (byNumber ? byVolume || byDate : byDate || byVolume) ||
+      Number(a.issue.id) - Number(b.issue.id)
+    );
+  });
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Group periodical and newspaper issues into series
+ */
+export function buildSeriesIndex(items: ArchiveItem[], complete = true): Map<string, PeriodicalSeries> {
+  const groups = new Map<string, IssueEntry[]>();
+
+  for (const item of items) {
+    const id = getSeriesId(item.title, item.type);
+    const markers = id ? parseIssueTitle(item.title) : null;
+    if (!id || !markers) continue;
+
+    const year = item.year ?? markers.year;
+    const entries = groups.get(id) ?? [];
+    entries.push({
+      issue: {
+        ...item,
+        year,
+        volume: markers.volume,
+        issue: markers.issue,
+        issueLabel: formatIssueLabel({ ...markers, year }) || item.title,
+      },
+      seriesTitle: markers.seriesTitle,
+      month: markers.month,
+      day: markers.day,
+    });
+    groups.set(id, entries);
+  }
+
+  const index = new Map<string, PeriodicalSeries>();
+  for (const [id, entries] of groups) {
+    const issues = sortIssues(entries).map((entry) => entry.issue);
+    const years = issues
+      .map((issue) => issue.year)
+      .filter((year): year is number => typeof year === "number");
+
+    index.set(id, {
+      id,
+      title: mostCommon(entries.map((entry) => entry.seriesTitle)),
+      type: mostCommon(issues.map((issue) => issue.type ?? "periodical")),
+      issueCount: issues.length,
+      firstYear: years.length > 0 ? Math.min(...years) : null,
+      lastYear: years.length > 0 ? Math.max(...years) : null,
+      issues,
+      complete,
+    });
+  }
+
+  return index;
+}
+
+// Built once per item list, like the author index
+const seriesIndexes = new WeakMap<ArchiveItem[], Map<string, PeriodicalSeries>>();
+
+/**
+ * Series index over the full item list
+ */
+export function getSeriesIndex(items: ArchiveItem[]): Map<string, PeriodicalSeries> {
+  let index = seriesIndexes.get(items);
+  if (!index) {
+    index = buildSeriesIndex(items);
+    seriesIndexes.set(items, index);
+  }
+  return index;
+}
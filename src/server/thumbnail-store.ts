@@ -0,0 +1,212 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Persistent item ID -> thumbnail URL resolutions
+ * List payloads often carry only a placeholder thumbnail, and the real cover takes a
+ * request per media. Each item is resolved once, in the background or on first
+ * display, and the result is reused by every later search, tile and index refresh
+ */
+
+export const THUMBNAIL_STORE_FORMAT_VERSION = 1;
+
+type ThumbnailEntry = {
+  url: string | null; // null when every media was checked and none had a real cover
+  resolvedAt: string;
+};
+
+type PersistedThumbnails = {
+  formatVersion: number;
+  adapter: string;
+  entries: Record<string, ThumbnailEntry>;
+};
+
+type QueuedResolution = {
+  id: string;
+  run: () => void;
+};
+
+// Items without a cover are looked up again later, in case media was added
+const MISSING_RETRY_MS = 24 * 60 * 60 * 1000;
+// Failed lookups are kept in memory only, and tried again sooner
+const FAILED_RETRY_MS = 10 * 60 * 1000;
+const RESOLVE_CONCURRENCY = 6;
+// Background jobs hold their resolver until they run, so a full queue turns new ones away
+const MAX_QUEUED_BACKGROUND = 2000;
+const PERSIST_DELAY_MS = 5000;
+
+/**
+ * ThumbnailStore: Resolves thumbnails through a shared queue and keeps the results on disk
+ * Displayed items jump ahead of background prefetches
+ */
+export class ThumbnailStore {
+  private entries = new Map<string, ThumbnailEntry>();
+  private failedAt = new Map<string, number>();
+  private pending = new Map<string, Promise<string | null>>();
+  private queue: QueuedResolution[] = [];
+  private active = 0;
+  private loadPromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly filePath: string | null,
+    private readonly adapter: string
+  ) {}
+
+  /**
+   * Read persisted resolutions once; a missing or outdated file starts empty
+   */
+  load(): Promise<void> {
+    this.loadPromise ??= (async () => {
+      if (!this.filePath) return;
+
+      try {
+        const persisted = JSON.parse(await readFile(this.filePath, "utf8")) as PersistedThumbnails;
+        if (
+          persisted.formatVersion !== THUMBNAIL_STORE_FORMAT_VERSION ||
+          persisted.adapter !== this.adapter
+        ) {
+          return;
+        }
+
+        for (const [id, entry] of Object.entries(persisted.entries ?? {})) {
+          if (!this.entries.has(id)) this.entries.set(id, entry);
+        }
+      } catch {
+        // First run, or an unreadable file that the next write replaces
+      }
+    })();
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Resolved thumbnail, null when the item has no cover, undefined when unknown or due a retry
+   */
+  get(id: string): string | null | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    if (entry.url === null && Date.now() - Date.parse(entry.resolvedAt) > MISSING_RETRY_MS) {
+      return undefined;
+    }
+    return entry.url;
+  }
+
+  /**
+   * Resolve an item's thumbnail through the shared queue, once per item at a time
+   * `priority` moves the item ahead of queued background work. The resolver returns
+   * null only for an item confirmed to have no cover; if it throws, null is returned
+   * without being stored, and the item is not tried again for a few minutes
+   */
+  resolve(
+    id: string,
+    resolver: () => Promise<string | null>,
+    { priority = false }: { priority?: boolean } = {}
+  ): Promise<string | null> {
+    const known = this.get(id);
+    if (known !== undefined) {
+      return Promise.resolve(known);
+    }
+
+    const pending = this.pending.get(id);
+    if (pending) {
+      if (priority) this.prioritize(id);
+      return pending;
+    }
+
+    const failedAt = this.failedAt.get(id);
+    if (failedAt !== undefined && Date.now() - failedAt < FAILED_RETRY_MS) {
+      return Promise.resolve(null);
+    }
+
+    if (!priority && this.queue.length >= MAX_QUEUED_BACKGROUND) {
+      return Promise.resolve(null);
+    }
+
+    const promise = new Promise<string | null>((resolve) => {
+      const job: QueuedResolution = {
+        id,
+        run: () => {
+          this.active += 1;
+          resolver()
+            .then(
+              (url) => {
+                this.entries.set(id, { url, resolvedAt: new Date().toISOString() });
+                this.failedAt.delete(id);
+                this.schedulePersist();
+                resolve(url);
+              },
+              (error) => {
+                console.error(`Error resolving thumbnail for item ${id}:`, error);
+                this.failedAt.set(id, Date.now());
+                resolve(null);
+              }
+            )
+            .finally(() => {
+              this.pending.delete(id);
+              this.active -= 1;
+              this.runQueued();
+            });
+        },
+      };
+
+      if (priority) {
+        this.queue.unshift(job);
+      } else {
+        this.queue.push(job);
+      }
+    });
+
+    this.pending.set(id, promise);
+    this.runQueued();
+    return promise;
+  }
+
+  /**
+   * Write pending resolutions now
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.filePath) return;
+
+    const persisted: PersistedThumbnails = {
+      formatVersion: THUMBNAIL_STORE_FORMAT_VERSION,
+      adapter: this.adapter,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(`${this.filePath}.tmp`, JSON.stringify(persisted), "utf8");
+      await rename(`${this.filePath}.tmp`, this.filePath);
+    } catch (error) {
+      console.error(`Error writing thumbnail store to ${this.filePath}:`, error);
+    }
+  }
+
+  private prioritize(id: string): void {
+    const index = this.queue.findIndex((job) => job.id === id);
+    if (index > 0) {
+      this.queue.unshift(...this.queue.splice(index, 1));
+    }
+  }
+
+  private runQueued(): void {
+    while (this.active < RESOLVE_CONCURRENCY && this.queue.length > 0) {
+      this.queue.shift()!.run();
+    }
+  }
+
+  // Batch writes while a backlog is being resolved
+  private schedulePersist(): void {
+    if (this.persistTimer || !this.filePath) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.flush();
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref?.();
+  }
+}
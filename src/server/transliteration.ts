@@ -0,0 +1,258 @@
+import { normalizeMalayalam } from "@/lib/malayalam";
+
+/**
+ * Malayalam <-> Latin ("Manglish") transliteration for search
+ *
+ * Readers type Malayalam titles in Latin script with no fixed spelling
+ * ("chemmeen", "chemmin"), so matching happens on a phonetic key that
+ * both romanised Malayalam and typed Manglish reduce to
+ */
+
+const MALAYALAM_PATTERN = /[\u0D00-\u0D7F]/;
+const LATIN_WORD_PATTERN = /^[a-z]+$/;
+
+const VIRAMA = "്";
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  "അ": "a", "ആ": "aa", "ഇ": "i", "ഈ": "ee", "ഉ": "u", "ഊ": "oo", "ഋ": "ru",
+  "എ": "e", "ഏ": "e", "ഐ": "ai", "ഒ": "o", "ഓ": "o", "ഔ": "au",
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  "ാ": "aa", "ി": "i", "ീ": "ee", "ു": "u", "ൂ": "oo", "ൃ": "ru",
+  "െ": "e", "േ": "e", "ൈ": "ai", "ൊ": "o", "ോ": "o", "ൌ": "au", "ൗ": "au",
+};
+
+const CONSONANTS: Record<string, string> = {
+  "ക": "k", "ഖ": "kh", "ഗ": "g", "ഘ": "gh", "ങ": "ng",
+  "ച": "ch", "ഛ": "chh", "ജ": "j", "ഝ": "jh", "ഞ": "nj",
+  "ട": "t", "ഠ": "th", "ഡ": "d", "ഢ": "dh", "ണ": "n",
+  "ത": "th", "ഥ": "th", "ദ": "d", "ധ": "dh", "ന": "n",
+  "പ": "p", "ഫ": "ph", "ബ": "b", "ഭ": "bh", "മ": "m",
+  "യ": "y", "ര": "r", "റ": "r", "ല": "l", "ള": "l", "ഴ": "zh", "വ": "v",
+  "ശ": "sh", "ഷ": "sh", "സ": "s", "ഹ": "h",
+};
+
+// Clusters whose everyday spelling differs from their parts
+const CONJUNCTS: Record<string, string> = {
+  "ന്റ": "nt",
+  "റ്റ": "tt",
+  "ങ്ങ": "ng",
+  "ഞ്ഞ": "nj",
+  "ണ്ട": "nd",
+  "ക്ഷ": "ksh",
+};
+
+const STANDALONE_SIGNS: Record<string, string> = {
+  "ൺ": "n", "ൻ": "n", "ർ": "r", "ൽ": "l", "ൾ": "l", "ൿ": "k", "ൕ": "y", "ൖ": "zh",
+  "ം": "m", "ഃ": "h",
+};
+
+/**
+ * Check whether text contains Malayalam script
+ */
+export function hasMalayalam(text: string): boolean {
+  return MALAYALAM_PATTERN.test(text);
+}
+
+/**
+ * Check whether a lowercased word is plain Latin letters (a Manglish candidate)
+ */
+export function isLatinWord(word: string): boolean {
+  return LATIN_WORD_PATTERN.test(word);
+}
+
+/**
+ * Romanise Malayalam text the way it is commonly typed ("ചെമ്മീൻ" -> "chemmeen")
+ */
+export function romanizeMalayalam(text: string): string {
+  const source = normalizeMalayalam(text);
+  let output = "";
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const conjunct = Object.keys(CONJUNCTS).find((cluster) => source.startsWith(cluster, index));
+    const consonant = conjunct ? CONJUNCTS[conjunct] : CONSONANTS[char];
+
+    if (consonant !== undefined) {
+      output += consonant;
+      index += conjunct ? conjunct.length : 1;
+
+      const next = source[index];
+      if (next !== undefined && VOWEL_SIGNS[next] !== undefined) {
+        output += VOWEL_SIGNS[next];
+        index += 1;
+        // Samvruthokaram kept mid-word in old orthography: "അതു്കൊണ്ട്" -> "athukondu"
+        if (source[index] === VIRAMA) {
+          index += 1;
+        }
+      } else if (next === VIRAMA) {
+        index += 1;
+        // A word-final virama is the half-u (samvruthokaram): "അവന്" -> "avanu"
+        if (!CONSONANTS[source[index]]) {
+          output += "u";
+        }
+      } else {
+        output += "a";
+      }
+      continue;
+    }
+
+    output += INDEPENDENT_VOWELS[char] ?? STANDALONE_SIGNS[char] ?? char;
+    index += 1;
+  }
+
+  return output;
+}
+
+/**
+ * Reduce a Latin spelling to a key shared by its common Manglish variants
+ * "chemmeen", "chemmin" and "chemeen" all become "cemin"
+ */
+export function toPhoneticKey(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/c(?!h)/g, "k")
+    .replace(/q/g, "k")
+    .replace(/x/g, "ks")
+    .replace(/w/g, "v")
+    .replace(/f/g, "p")
+    .replace(/z(?!h)/g, "s")
+    .replace(/ch+/g, "c")
+    .replace(/([kgjtdpb])h/g, "$1")
+    .replace(/sh/g, "s")
+    .replace(/zh/g, "l")
+    .replace(/m(?=[kg])/g, "n")
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u")
+    .replace(/(.)\1+/g, "$1");
+}
+
+type LatinUnit = { latin: string; options: string[] };
+
+// Longest units first; each lists Malayalam spellings, most likely first
+const LATIN_CONSONANTS: LatinUnit[] = [
+  { latin: "ksh", options: ["ക്ഷ"] },
+  { latin: "chh", options: ["ഛ"] },
+  { latin: "nth", options: ["ന്ത"] },
+  { latin: "nj", options: ["ഞ്ഞ", "ഞ"] },
+  { latin: "ng", options: ["ങ്ങ", "ംഗ"] },
+  { latin: "nt", options: ["ന്റ", "ണ്ട"] },
+  { latin: "tt", options: ["ട്ട", "റ്റ"] },
+  { latin: "ch", options: ["ച"] },
+  { latin: "th", options: ["ത", "ഥ"] },
+  { latin: "dh", options: ["ധ", "ഢ"] },
+  { latin: "kh", options: ["ഖ"] },
+  { latin: "gh", options: ["ഘ"] },
+  { latin: "bh", options: ["ഭ"] },
+  { latin: "ph", options: ["ഫ"] },
+  { latin: "sh", options: ["ശ", "ഷ"] },
+  { latin: "zh", options: ["ഴ"] },
+  { latin: "k", options: ["ക"] },
+  { latin: "c", options: ["ക"] },
+  { latin: "g", options: ["ഗ"] },
+  { latin: "j", options: ["ജ"] },
+  { latin: "t", options: ["ട", "ത"] },
+  { latin: "d", options: ["ദ", "ഡ"] },
+  { latin: "n", options: ["ന", "ണ"] },
+  { latin: "p", options: ["പ"] },
+  { latin: "f", options: ["ഫ"] },
+  { latin: "b", options: ["ബ"] },
+  { latin: "m", options: ["മ"] },
+  { latin: "y", options: ["യ"] },
+  { latin: "r", options: ["ര", "റ"] },
+  { latin: "l", options: ["ല", "ള"] },
+  { latin: "v", options: ["വ"] },
+  { latin: "w", options: ["വ"] },
+  { latin: "s", options: ["സ"] },
+  { latin: "h", options: ["ഹ"] },
+];
+
+// [latin, independent letter, vowel sign]; "a" is the inherent vowel
+const LATIN_VOWELS: Array<[string, string, string[]]> = [
+  ["aa", "ആ", ["ാ"]],
+  ["ee", "ഈ", ["ീ"]],
+  ["oo", "ഊ", ["ൂ"]],
+  ["ai", "ഐ", ["ൈ"]],
+  ["au", "ഔ", ["ൗ"]],
+  ["a", "അ", ["", "ാ"]],
+  ["i", "ഇ", ["ി", "ീ"]],
+  ["u", "ഉ", ["ു", "ൂ"]],
+  ["e", "എ", ["െ", "േ"]],
+  ["o", "ഒ", ["ൊ", "ോ"]],
+];
+
+const FINAL_CHILLUS: Record<string, string> = {
+  "ന": "ൻ", "ണ": "ൺ", "ര": "ർ", "റ": "ർ", "ല": "ൽ", "ള": "ൾ", "മ": "ം",
+};
+
+const MAX_CANDIDATES = 8;
+
+type Candidate = { text: string; cost: number; afterConsonant: string | null };
+
+/**
+ * Candidate Malayalam spellings for a Manglish word, most likely first
+ * Ambiguous letters (t, n, l, r, vowel length) branch; a small beam keeps it bounded
+ */
+export function transliterateToMalayalam(word: string): string[] {
+  const latin = word.toLowerCase();
+  if (!isLatinWord(latin)) {
+    return [];
+  }
+
+  let beam: Candidate[] = [{ text: "", cost: 0, afterConsonant: null }];
+  let index = 0;
+
+  while (index < latin.length) {
+    const vowel = LATIN_VOWELS.find(([spelling]) => latin.startsWith(spelling, index));
+    const next: Candidate[] = [];
+
+    if (vowel) {
+      const [spelling, letter, signs] = vowel;
+      for (const candidate of beam) {
+        if (candidate.afterConsonant) {
+          signs.forEach((sign, optionIndex) =>
+            next.push({ text: candidate.text + sign, cost: candidate.cost + optionIndex, afterConsonant: null })
+          );
+        } else {
+          next.push({ text: candidate.text + letter, cost: candidate.cost, afterConsonant: null });
+        }
+      }
+      index += spelling.length;
+    } else {
+      const unit = LATIN_CONSONANTS.find((entry) => latin.startsWith(entry.latin, index));
+      if (!unit) {
+        index += 1;
+        continue;
+      }
+
+      // Doubled consonants ("mm", "kk") are written as a conjunct of the same letter
+      const doubled = latin.startsWith(unit.latin, index + unit.latin.length) && unit.latin.length === 1;
+      for (const candidate of beam) {
+        unit.options.forEach((option, optionIndex) => {
+          const joiner = candidate.afterConsonant ? VIRAMA : "";
+          const letters = doubled ? `${option}${VIRAMA}${option}` : option;
+          next.push({
+            text: candidate.text + joiner + letters,
+            cost: candidate.cost + optionIndex,
+            afterConsonant: option,
+          });
+        });
+      }
+      index += unit.latin.length * (doubled ? 2 : 1);
+    }
+
+    beam = next.sort((a, b) => a.cost - b.cost).slice(0, MAX_CANDIDATES * 2);
+  }
+
+  // A trailing consonant becomes a chillu ("chemmeen" -> "ചെമ്മീൻ") or takes a virama
+  const candidates = beam.map((candidate) => {
+    const last = candidate.afterConsonant;
+    if (!last) return candidate.text;
+    const chillu = FINAL_CHILLUS[last];
+    return chillu ? candidate.text.slice(0, -last.length) + chillu : candidate.text + VIRAMA;
+  });
+
+  return Array.from(new Set(candidates)).slice(0, MAX_CANDIDATES);
+}
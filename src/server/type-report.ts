@@ -0,0 +1,53 @@
+import type { ArchiveItem } from "@/lib/types";
+
+/**
+ * Reviewer report of items typed only by keyword heuristics
+ * Each row links to the upstream record so its type metadata can be corrected there
+ */
+
+export type TypeReportRow = {
+  id: string;
+  title: string;
+  type: string;
+  typeConfidence: number | null;
+  sourceUrl: string;
+};
+
+const CSV_COLUMNS: Array<keyof TypeReportRow> = ["id", "title", "type", "typeConfidence", "sourceUrl"];
+
+/**
+ * Items whose type came from heuristics, grouped by type, lowest confidence first
+ */
+export function buildTypeReport(items: ArchiveItem[]): TypeReportRow[] {
+  return items
+    .filter((item) => item.typeSource === "heuristic" && item.type)
+    .map((item) => ({
+      id: item.id,
+      title: item.title,
+      type: item.type!,
+      typeConfidence: item.typeConfidence ?? null,
+      sourceUrl: item.sourceUrl,
+    }))
+    .sort(
+      (a, b) =>
+        a.type.localeCompare(b.type) ||
+        (a.typeConfidence ?? 0) - (b.typeConfidence ?? 0) ||
+        Number(a.id) - Number(b.id)
+    );
+}
+
+function toCsvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Report rows as CSV with a header line
+ */
+export function formatTypeReportCsv(rows: TypeReportRow[]): string {
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => toCsvField(row[column])).join(",")),
+  ];
+  return `${lines.join("\n")}\n`;
+}
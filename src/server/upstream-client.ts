@@ -0,0 +1,236 @@
+import { CACHE_TTL } from "@/lib/cache";
+
+/**
+ * Shared client for JSON requests to one upstream API
+ * Caps concurrent requests, times out slow ones, retries transient failures with
+ * exponential backoff, and stops calling an upstream that keeps failing: while the
+ * circuit is open, requests are answered from the last good response for their URL
+ */
+
+export type UpstreamOptions = {
+  concurrency?: number;
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after the first
+  backoffMs?: number; // First retry delay, doubled for each later attempt
+  failureThreshold?: number; // Consecutive failed requests that open the circuit
+  resetMs?: number; // How long the circuit stays open before a trial request
+};
+
+export type UpstreamRequestOptions = {
+  retries?: number;
+  timeoutMs?: number;
+  revalidate?: number; // Next.js fetch cache lifetime in seconds
+  keepStale?: boolean; // Keep the response for serving while the circuit is open (default true)
+};
+
+export type UpstreamResponse<T> = {
+  status: number;
+  data: T | null; // Parsed body of a successful response, null otherwise
+  headers: Record<string, string>;
+  stale: boolean; // Served from an earlier response because the upstream is failing
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type UpstreamStatus = {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openUntil: string | null;
+  active: number;
+  queued: number;
+};
+
+// Timeouts, rate limiting and server errors are worth another attempt
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const MAX_RETRY_AFTER_MS = 10_000;
+const MAX_STALE_ENTRIES = 1000;
+
+const DEFAULT_OPTIONS: Required<UpstreamOptions> = {
+  concurrency: 8,
+  timeoutMs: 10_000,
+  retries: 2,
+  backoffMs: 300,
+  failureThreshold: 5,
+  resetMs: 30_000,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * UpstreamClient: Rate-limited, retrying JSON client with a circuit breaker
+ */
+export class UpstreamClient {
+  private readonly options: Required<UpstreamOptions>;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+  private staleResponses = new Map<string, UpstreamResponse<unknown> & { storedAt: number }>();
+
+  constructor(
+    private readonly name: string,
+    options: UpstreamOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * GET a JSON resource
+   * Error statuses other than transient ones are returned, not thrown, so callers can
+   * handle a 404; failures with no earlier response to fall back on are thrown
+   */
+  async getJson<T>(url: string, request: UpstreamRequestOptions = {}): Promise<UpstreamResponse<T>> {
+    const {
+      retries = this.options.retries,
+      timeoutMs = this.options.timeoutMs,
+      revalidate,
+      keepStale = true,
+    } = request;
+
+    if (!this.allowRequest()) {
+      const stale = this.getStale<T>(url);
+      if (stale) return stale;
+      throw new Error(`${this.name} upstream unavailable: circuit open after repeated failures`);
+    }
+
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt <= retries; attempt += 1) {
+      let retryAfterMs: number | null = null;
+
+      try {
+        // The timeout covers reading the body as well as the headers
+        const { response, data } = await this.withSlot(async () => {
+          const response = await fetch(url, {
+            headers: { Accept: "application/json" },
+            signal: AbortSignal.timeout(timeoutMs),
+            ...(revalidate !== undefined ? { next: { revalidate } } : {}),
+          });
+          const data = response.ok ? ((await response.json()) as T) : null;
+          return { response, data };
+        });
+
+        if (!RETRYABLE_STATUSES.has(response.status)) {
+          const result: UpstreamResponse<T> = {
+            status: response.status,
+            data,
+            headers: Object.fromEntries(response.headers.entries()),
+            stale: false,
+          };
+          this.recordSuccess();
+          if (response.ok && keepStale) this.storeStale(url, result);
+          return result;
+        }
+
+        lastError = new Error(`${this.name} upstream error: ${response.status} ${response.statusText}`);
+        const retryAfter = Number.parseInt(response.headers.get("Retry-After") ?? "", 10);
+        if (Number.isFinite(retryAfter)) {
+          retryAfterMs = Math.min(retryAfter * 1000, MAX_RETRY_AFTER_MS);
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      if (attempt < retries) {
+        const backoff = this.options.backoffMs * 2 ** attempt;
+        await sleep((retryAfterMs ?? backoff) + Math.random() * this.options.backoffMs);
+      }
+    }
+
+    this.recordFailure();
+
+    const stale = this.getStale<T>(url);
+    if (stale) return stale;
+    throw lastError instanceof Error ? lastError : new Error(`${this.name} upstream request failed`);
+  }
+
+  /**
+   * Circuit and queue state, for health reporting
+   */
+  getStatus(): UpstreamStatus {
+    return {
+      circuit: this.getCircuitState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openUntil: this.openUntil > Date.now() ? new Date(this.openUntil).toISOString() : null,
+      active: this.active,
+      queued: this.waiting.length,
+    };
+  }
+
+  private getCircuitState(): CircuitState {
+    if (this.consecutiveFailures < this.options.failureThreshold) return "closed";
+    return Date.now() < this.openUntil ? "open" : "half-open";
+  }
+
+  // Half-open lets a single trial request through; its outcome closes or reopens the circuit
+  private allowRequest(): boolean {
+    const state = this.getCircuitState();
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+    this.trialInFlight = false;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+
+    if (this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openUntil = Date.now() + this.options.resetMs;
+      console.error(
+        `${this.name} upstream failed ${this.consecutiveFailures} times in a row; pausing requests for ${this.options.resetMs / 1000}s`
+      );
+    }
+  }
+
+  // A finished request hands its slot straight to the next waiting one
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.options.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active += 1;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active -= 1;
+      }
+    }
+  }
+
+  private storeStale(url: string, response: UpstreamResponse<unknown>): void {
+    // Re-inserting moves the URL to the newest end, so the oldest is dropped first
+    this.staleResponses.delete(url);
+    this.staleResponses.set(url, { ...response, storedAt: Date.now() });
+
+    if (this.staleResponses.size > MAX_STALE_ENTRIES) {
+      const oldest = this.staleResponses.keys().next().value;
+      if (oldest !== undefined) this.staleResponses.delete(oldest);
+    }
+  }
+
+  private getStale<T>(url: string): UpstreamResponse<T> | null {
+    const entry = this.staleResponses.get(url);
+    if (!entry || Date.now() - entry.storedAt > CACHE_TTL.STALE) return null;
+    return {
+      status: entry.status,
+      data: entry.data as T,
+      headers: entry.headers,
+      stale: true,
+    };
+  }
+}
@@ -2,11 +2,12 @@
 
 import { create } from "zustand";
 import { canvasConfig } from "@/config/site";
-import type { ArchiveItem, CanvasItem, SearchFilters } from "@/lib/types";
+import type { ArchiveItem, CanvasItem, SearchFilters, SearchSort } from "@/lib/types";
 import {
   getTileKey,
   itemsToCanvasItems,
   hashFilters,
+  resolveSearchSort,
 } from "@/lib/canvas-utils";
 
 interface TileData {
@@ -23,6 +24,7 @@ interface SearchState {
   error?: string;
   page: number;
   hasMore: boolean;
+  transliteratedQuery?: string | null; // Malayalam form a Manglish query matched
 }
 
 const CACHE_TTL = 30 * 60 * 1000; // 30 minutes - match server cache
@@ -67,6 +69,7 @@ interface CanvasState {
   tiles: Map<string, TileData>;
   query: string;
   filters: SearchFilters;
+  sort: SearchSort | null; // null: best match for queries, newest otherwise
   selectedItemId: string | null;
   isDragging: boolean;
   
@@ -83,6 +86,7 @@ interface CanvasState {
   clearTiles: () => void;
   setQuery: (query: string) => void;
   setFilters: (filters: SearchFilters) => void;
+  setSort: (sort: SearchSort | null) => void;
   setSelectedItem: (id: string | null) => void;
   setDragging: (isDragging: boolean) => void;
   getAllVisibleItems: () => CanvasItem[];
@@ -103,6 +107,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
   tiles: new Map(),
   query: "",
   filters: {},
+  sort: null,
   selectedItemId: null,
   isDragging: false,
   
@@ -257,6 +262,14 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     get().clearTiles();
   },
 
+  setSort: (sort) => {
+    set({ sort });
+    const state = get();
+    if (state.isSearchMode) {
+      void state.performSearch(state.query);
+    }
+  },
+
   setSelectedItem: (id) => set({ selectedItemId: id }),
   setDragging: (isDragging) => set({ isDragging }),
 
@@ -329,6 +342,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       if (trimmedQuery) {
         params.set("q", trimmedQuery);
       }
+      params.set("sort", resolveSearchSort(trimmedQuery, state.sort));
 
       if (Object.keys(state.filters).length > 0) {
         params.set("filters", JSON.stringify(state.filters));
@@ -352,6 +366,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
           loading: false,
           page: 1,
           hasMore: (data.items?.length || 0) < (data.total || 0),
+          transliteratedQuery: data.transliteratedQuery ?? null,
         },
       });
     } catch (error) {
@@ -392,6 +407,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       if (state.query) {
         params.set("q", state.query);
       }
+      params.set("sort", resolveSearchSort(state.query, state.sort));
 
       if (Object.keys(state.filters).length > 0) {
         params.set("filters", JSON.stringify(state.filters));
@@ -415,6 +431,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
           loading: false,
           page: nextPage,
           hasMore: s.search.results.length + (data.items?.length || 0) < (data.total || 0),
+          transliteratedQuery: s.search.transliteratedQuery,
         },
       }));
     } catch (error) {
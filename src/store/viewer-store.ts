@@ -19,10 +19,12 @@ interface CitationMetadata {
 interface ViewerState {
   isOpen: boolean;
   documentSource: DocumentSource | null;
+  documentSources: DocumentSource[]; // Every volume or format of the open item
   title: string;
   sourceUrl: string | null;
   pages: IIIFPage[];
   currentIndex: number;
+  currentTime: number; // Playback position of audio and video, in whole seconds
   loading: boolean;
   error: string | null;
   viewMode: ViewMode;
@@ -35,12 +37,20 @@ interface ViewerState {
   itemType?: string | null;
   
   // Actions
-  openViewer: (source: DocumentSource, title: string, sourceUrl?: string, metadata?: CitationMetadata) => void;
+  openViewer: (
+    source: DocumentSource,
+    title: string,
+    sourceUrl?: string,
+    metadata?: CitationMetadata,
+    sources?: DocumentSource[]
+  ) => void;
+  switchSource: (source: DocumentSource) => void;
   closeViewer: () => void;
   nextPage: () => void;
   prevPage: () => void;
   goToPage: (index: number) => void;
   setCurrentIndex: (index: number) => void;
+  setCurrentTime: (seconds: number) => void;
   setPages: (pages: IIIFPage[]) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -50,10 +60,12 @@ interface ViewerState {
 export const useViewerStore = create<ViewerState>((set, get) => ({
   isOpen: false,
   documentSource: null,
+  documentSources: [],
   title: "",
   sourceUrl: null,
   pages: [],
   currentIndex: 0,
+  currentTime: 0,
   loading: false,
   error: null,
   viewMode: "single",
@@ -64,15 +76,17 @@ export const useViewerStore = create<ViewerState>((set, get) => ({
   itemId: undefined,
   itemType: null,
 
-  openViewer: (source, title, sourceUrl, metadata) => {
+  openViewer: (source, title, sourceUrl, metadata, sources) => {
     set({
       isOpen: true,
       documentSource: source,
+      documentSources: sources?.length ? sources : [source],
       title,
       sourceUrl: sourceUrl || null,
       pages: [],
       currentIndex: 0,
-      loading: source.type === "iiif", // Only load for IIIF, PDF loads directly
+      currentTime: 0,
+      loading: source.type === "iiif", // Only load for IIIF, PDF and recordings load directly
       error: null,
       // Citation metadata
       authors: metadata?.authors,
@@ -83,14 +97,29 @@ export const useViewerStore = create<ViewerState>((set, get) => ({
     });
   },
 
+  // Load another volume or format of the open item, keeping the reader and its metadata
+  switchSource: (source) => {
+    if (source.url === get().documentSource?.url) return;
+    set({
+      documentSource: source,
+      pages: [],
+      currentIndex: 0,
+      currentTime: 0,
+      loading: source.type === "iiif",
+      error: null,
+    });
+  },
+
   closeViewer: () => {
     set({
       isOpen: false,
       documentSource: null,
+      documentSources: [],
       title: "",
       sourceUrl: null,
       pages: [],
       currentIndex: 0,
+      currentTime: 0,
       loading: false,
       error: null,
       // Reset citation metadata
@@ -133,6 +162,13 @@ export const useViewerStore = create<ViewerState>((set, get) => ({
     }
   },
 
+  setCurrentTime: (seconds) => {
+    const currentTime = Math.max(0, Math.floor(seconds));
+    if (currentTime !== get().currentTime) {
+      set({ currentTime });
+    }
+  },
+
   setPages: (pages) => {
     set({ pages, loading: false });
   },